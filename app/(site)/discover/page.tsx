@@ -0,0 +1,6 @@
+import DiscoverView from "@/components/discover-view"
+
+export default async function DiscoverPage({ searchParams }: { searchParams: Promise<{ genre?: string }> }) {
+  const { genre } = await searchParams
+  return <DiscoverView initialGenre={genre} />
+}
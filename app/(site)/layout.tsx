@@ -0,0 +1,58 @@
+"use client"
+
+import type React from "react"
+import { usePathname } from "next/navigation"
+import { AnimatePresence, motion } from "framer-motion"
+import Header from "@/components/header"
+import MobileNav from "@/components/mobile-nav"
+
+const pageVariants = {
+  initial: { opacity: 0, y: 20 },
+  in: { opacity: 1, y: 0 },
+  out: { opacity: 0, y: -20 },
+}
+
+const pageTransition = {
+  type: "tween" as const,
+  ease: "anticipate" as const,
+  duration: 0.4,
+}
+
+export default function SiteLayout({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname()
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background text-foreground font-sans">
+      <Header />
+      <AnimatePresence mode="wait">
+        <motion.main
+          key={pathname} // Animate between routes
+          initial="initial"
+          animate="in"
+          exit="out"
+          variants={pageVariants}
+          transition={pageTransition}
+          className="flex-1 p-4 md:p-8 pb-20 md:pb-8"
+        >
+          {children}
+        </motion.main>
+      </AnimatePresence>
+      <MobileNav />
+      {/* Footer */}
+      <footer className="hidden md:flex flex-col sm:flex-row items-center justify-between p-4 md:px-8 border-t border-border text-muted-foreground text-sm bg-background">
+        <p>&copy; {new Date().getFullYear()} Sunega Novel. All rights reserved.</p>
+        <nav className="flex gap-4 mt-2 sm:mt-0">
+          <a href="#" className="hover:underline">
+            Privacy Policy
+          </a>
+          <a href="#" className="hover:underline">
+            Terms of Service
+          </a>
+          <a href="#" className="hover:underline">
+            Contact Us
+          </a>
+        </nav>
+      </footer>
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+import LibraryView from "@/components/library-view"
+
+export default function LibraryPage() {
+  return <LibraryView />
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import { Suspense } from "react"
+import { useSearchParams } from "next/navigation"
+import AuthForm from "@/components/auth-form"
+import { safeNextPath } from "@/lib/routes"
+
+function LoginForm() {
+  const searchParams = useSearchParams()
+
+  return (
+    <div className="flex items-center justify-center min-h-[calc(100vh-120px)]">
+      <AuthForm
+        onLoginSuccess={() => {
+          // Full navigation so middleware-guarded pages see the new session cookie
+          window.location.assign(safeNextPath(searchParams.get("next")))
+        }}
+      />
+    </div>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  )
+}
@@ -0,0 +1,125 @@
+"use client"
+
+import Link from "next/link"
+import CoverImage from "@/components/cover-image"
+import StoryCard from "@/components/story-card"
+import { useStories } from "@/hooks/use-stories"
+import { useReadingProgress } from "@/hooks/use-reading-progress"
+import { useTaxonomy } from "@/hooks/use-taxonomy"
+import { resumeHref } from "@/lib/routes"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { ArrowRightIcon } from "lucide-react"
+
+export default function Home() {
+  const { stories } = useStories()
+  const { stories: trending } = useStories({ sort: "trending" })
+  const { stories: newest } = useStories({ sort: "newest" })
+  // The story the signed-in reader opened most recently and has not finished
+  const [current] = useReadingProgress().entries
+  const { genres } = useTaxonomy()
+
+  return (
+    <div className="space-y-8">
+      {/* Wattpad-inspired Hero Section */}
+      <section className="relative py-20 md:py-32 lg:py-40 bg-misty-blue rounded-xl overflow-hidden shadow-lg">
+        <div className="container mx-auto px-4 md:px-8 text-center relative z-10">
+          <h2 className="text-5xl sm:text-6xl lg:text-7xl font-serif font-bold text-white mb-6 leading-tight tracking-tight drop-shadow-lg">
+            Your Story, Your World.
+          </h2>
+          <p className="text-xl sm:text-2xl text-white/90 mb-10 max-w-4xl mx-auto">
+            Sunega Novel is a next-generation storytelling and reading platform, thoughtfully crafted to be a
+            cleaner, more immersive, and more creator-focused alternative.
+          </p>
+          <div className="flex justify-center">
+            <Button
+              asChild
+              className="rounded-full px-8 py-3 text-lg bg-white text-primary hover:bg-gray-100 transition-all shadow-md"
+            >
+              <Link href="/discover">Start Reading</Link>
+            </Button>
+          </div>
+        </div>
+        {/* Abstract background shapes (inspired by Wattpad's orange blobs) */}
+        <div className="absolute -bottom-20 -left-20 w-64 h-64 bg-blush-pink rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob"></div>
+        <div className="absolute -top-10 -right-10 w-96 h-96 bg-lavender rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob animation-delay-2000"></div>
+        <div className="absolute bottom-0 right-0 w-48 h-48 bg-misty-blue rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob animation-delay-4000"></div>
+        <div className="absolute top-1/4 left-1/4 w-32 h-32 bg-blush-pink rounded-full mix-blend-multiply filter blur-xl opacity-20 animate-blob animation-delay-1000"></div>
+      </section>
+
+      {/* Continue Reading Section */}
+      {current && (
+        <section>
+          <Card className="rounded-xl shadow-lg bg-card text-card-foreground p-6 md:p-8 flex flex-col md:flex-row items-center gap-6">
+            <div className="relative w-full md:w-48 h-48 md:h-32 flex-shrink-0 rounded-lg overflow-hidden">
+              <CoverImage
+                src={current.story.imageUrl}
+                alt={current.story.title}
+                size="thumbnail"
+                className="object-cover w-full h-full"
+              />
+            </div>
+            <div className="flex-1 text-center md:text-left">
+              <h3 className="text-2xl font-serif font-semibold text-foreground mb-2">
+                Continue Reading: {current.story.title}
+              </h3>
+              <p className="text-muted-foreground mb-4">By {current.story.author}</p>
+              <Button asChild className="rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground">
+                <Link href={resumeHref(current.progress)}>
+                  Resume Reading <ArrowRightIcon className="ml-2 h-4 w-4" />
+                </Link>
+              </Button>
+            </div>
+          </Card>
+        </section>
+      )}
+
+      {/* Webtoons-inspired Genre Filters */}
+      <section>
+        <h3 className="text-2xl font-serif font-semibold mb-4 text-foreground">Explore Genres</h3>
+        <div className="flex flex-wrap gap-2">
+          {genres.map((genre) => (
+            <Button
+              key={genre.slug}
+              variant="outline"
+              asChild
+              className="rounded-full border-primary text-primary hover:bg-primary/10 bg-transparent"
+            >
+              <Link href={`/discover?genre=${genre.slug}`}>{genre.name}</Link>
+            </Button>
+          ))}
+        </div>
+      </section>
+
+      {/* Webtoons-inspired Trending Stories */}
+      <section>
+        <h3 className="text-2xl font-serif font-semibold mb-4 text-foreground">Trending Stories</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {trending.slice(0, 4).map((story) => (
+            <StoryCard key={story.id} {...story} />
+          ))}
+        </div>
+      </section>
+
+      {/* Webtoons-inspired New Releases */}
+      <section>
+        <h3 className="text-2xl font-serif font-semibold mb-4 text-foreground">New Releases</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {newest.slice(0, 4).map((story) => (
+            <StoryCard key={story.id} {...story} />
+          ))}
+        </div>
+      </section>
+
+      {/* Webtoons-inspired Editor's Picks */}
+      <section>
+        <h3 className="text-2xl font-serif font-semibold mb-4 text-foreground">Editor's Picks</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {stories.slice(0, 3).map((story) => (
+            <StoryCard key={story.id} {...story} />
+          ))}
+        </div>
+      </section>
+    </div>
+  )
+}
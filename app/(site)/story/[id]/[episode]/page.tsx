@@ -0,0 +1,25 @@
+import type { Metadata } from "next"
+import { notFound, redirect } from "next/navigation"
+import StoryReader from "@/components/story-reader"
+import { readerHref } from "@/lib/routes"
+import { loadReaderData } from "../reader-data"
+
+type EpisodePageProps = { params: Promise<{ id: string; episode: string }> }
+
+const load = async (params: EpisodePageProps["params"]) => {
+  const { id, episode } = await params
+  return loadReaderData(id, Number(episode))
+}
+
+export async function generateMetadata({ params }: EpisodePageProps): Promise<Metadata> {
+  const data = await load(params)
+  return data ? { title: `${data.story.title}, Episode ${data.episode.number} | Sunega Novel` } : {}
+}
+
+export default async function EpisodePage({ params }: EpisodePageProps) {
+  const data = await load(params)
+  if (!data) notFound()
+  // Episodes told in panels open in the full-screen reader
+  if (data.episode.storyContent.length > 0) redirect(readerHref(data.story.id, data.episode.number))
+  return <StoryReader {...data} />
+}
@@ -0,0 +1,20 @@
+import type { Metadata } from "next"
+import { notFound, redirect } from "next/navigation"
+import StoryReader from "@/components/story-reader"
+import { readerHref } from "@/lib/routes"
+import { loadReaderData } from "./reader-data"
+
+type StoryPageProps = { params: Promise<{ id: string }> }
+
+export async function generateMetadata({ params }: StoryPageProps): Promise<Metadata> {
+  const data = await loadReaderData((await params).id)
+  return data ? { title: `${data.story.title} by ${data.story.author} | Sunega Novel` } : {}
+}
+
+export default async function StoryPage({ params }: StoryPageProps) {
+  const data = await loadReaderData((await params).id)
+  if (!data) notFound()
+  // Episodes told in panels open in the full-screen reader
+  if (data.episode.storyContent.length > 0) redirect(readerHref(data.story.id, data.episode.number))
+  return <StoryReader {...data} />
+}
@@ -0,0 +1,28 @@
+import { getSessionUser } from "@/lib/auth"
+import { listEpisodes } from "@/lib/episodes"
+import { getProgress } from "@/lib/progress"
+import { canEditStory, getStory } from "@/lib/stories"
+
+// Loads what the reader needs, or null when the story or episode is missing or hidden from this viewer.
+// Without an episode number the first readable episode is shown.
+export async function loadReaderData(id: string, episodeNumber?: number) {
+  const story = await getStory(id)
+  if (!story) return null
+  // Same visibility rule as GET /api/stories/[id]; owners and admins also see draft episodes
+  const viewer = await getSessionUser()
+  const canEdit = canEditStory(story, viewer)
+  if (story.status !== "published" && !canEdit) return null
+
+  const episodes = await listEpisodes(id, { includeDrafts: canEdit })
+  const episode =
+    episodeNumber === undefined ? episodes[0] : episodes.find((candidate) => candidate.number === episodeNumber)
+  if (!episode) return null
+
+  return {
+    story,
+    episode,
+    episodes: episodes.map(({ number, title, status }) => ({ number, title, status })),
+    canEdit,
+    savedProgress: viewer ? await getProgress(viewer.id, story.id, episode.number) : null,
+  }
+}
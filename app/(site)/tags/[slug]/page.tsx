@@ -0,0 +1,20 @@
+import type { Metadata } from "next"
+import { notFound, redirect } from "next/navigation"
+import TagView from "@/components/tag-view"
+import { findTag } from "@/lib/taxonomy"
+
+type TagPageProps = { params: Promise<{ slug: string }> }
+
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+  const tag = await findTag(decodeURIComponent((await params).slug))
+  return tag ? { title: `${tag.name} stories | Sunega Novel` } : {}
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const slug = decodeURIComponent((await params).slug)
+  const tag = await findTag(slug)
+  if (!tag) notFound()
+  // Synonyms and old slugs of merged tags lead to the canonical page
+  if (tag.slug !== slug) redirect(`/tags/${tag.slug}`)
+  return <TagView tag={tag} />
+}
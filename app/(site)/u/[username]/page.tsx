@@ -0,0 +1,23 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import UserProfile from "@/components/user-profile"
+import { getSessionUser } from "@/lib/auth"
+import { getWritingStats } from "@/lib/stories"
+import { getUserByUsername } from "@/lib/users"
+
+type ProfilePageProps = { params: Promise<{ username: string }> }
+
+export async function generateMetadata({ params }: ProfilePageProps): Promise<Metadata> {
+  const { username } = await params
+  return { title: `@${decodeURIComponent(username)} | Sunega Novel` }
+}
+
+export default async function ProfilePage({ params }: ProfilePageProps) {
+  const { username } = await params
+  const [profile, viewer] = await Promise.all([getUserByUsername(decodeURIComponent(username)), getSessionUser()])
+  if (!profile) notFound()
+  const isOwnProfile = viewer?.id === profile.id
+  // Writing stats are private to the author
+  const stats = isOwnProfile ? await getWritingStats(profile.id) : null
+  return <UserProfile profile={profile} stats={stats} isPublicView={!isOwnProfile} />
+}
@@ -0,0 +1,8 @@
+import type { Metadata } from "next"
+import ReleaseCalendar from "@/components/release-calendar"
+
+export const metadata: Metadata = { title: "Release Calendar | Sunega Novel" }
+
+export default function ReleaseCalendarPage() {
+  return <ReleaseCalendar />
+}
@@ -0,0 +1,39 @@
+import { notFound } from "next/navigation"
+import WriteView from "@/components/write-view"
+import { getSessionUser } from "@/lib/auth"
+import { listEpisodes } from "@/lib/episodes"
+import { canEditStory, getStory } from "@/lib/stories"
+
+export default async function WritePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ story?: string; episode?: string }>
+}) {
+  const { story: storyId, episode: episodeParam } = await searchParams
+  if (!storyId) return <WriteView />
+
+  // ?story=<id> adds the next episode to a story the viewer owns; &episode=<number> edits that episode instead
+  const story = await getStory(storyId)
+  if (!story || !canEditStory(story, await getSessionUser())) notFound()
+  const episodes = await listEpisodes(story.id, { includeDrafts: true })
+  const nextEpisode = Math.max(0, ...episodes.map((episode) => episode.number)) + 1
+  const editing = episodes.find(({ number }) => String(number) === episodeParam)
+  if (episodeParam !== undefined && !editing) notFound()
+  // Stories saved before downloads were an option have no setting
+  const { id, title, genre, tags, imageUrl, contentType, allowDownloads = false } = story
+  return (
+    <WriteView
+      series={{ id, title, genre, tags, imageUrl, contentType, allowDownloads, nextEpisode }}
+      episode={
+        editing && {
+          number: editing.number,
+          title: editing.title,
+          content: editing.content,
+          storyContent: editing.storyContent,
+          status: editing.status,
+          scheduledFor: editing.scheduledFor,
+        }
+      }
+    />
+  )
+}
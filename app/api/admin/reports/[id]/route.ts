@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { reportUpdateSchema, updateReport } from "@/lib/reports"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    await requireUser("admin")
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const parsed = reportUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid report update", issues: parsed.error.issues }, { status: 400 })
+  }
+  const report = await updateReport(id, parsed.data)
+  if (!report) {
+    return NextResponse.json({ error: "Report not found" }, { status: 404 })
+  }
+  return NextResponse.json({ report })
+}
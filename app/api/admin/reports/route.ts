@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { pageParams, pageQuerySchema, paginate, paginationErrorResponse } from "@/lib/pagination"
+import { listReports, reportUpdateSchema } from "@/lib/reports"
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireUser("admin")
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const { searchParams } = request.nextUrl
+  const status = reportUpdateSchema.shape.status.optional().safeParse(searchParams.get("status") ?? undefined)
+  if (!status.success) {
+    return NextResponse.json({ error: "Invalid report status", issues: status.error.issues }, { status: 400 })
+  }
+  const pageQuery = pageQuerySchema.safeParse(pageParams(searchParams))
+  if (!pageQuery.success) {
+    return NextResponse.json({ error: "Invalid pagination", issues: pageQuery.error.issues }, { status: 400 })
+  }
+  const reports = await listReports({ status: status.data })
+  try {
+    const { items, total, nextCursor } = paginate(reports, pageQuery.data, (report) => report.id)
+    return NextResponse.json({ reports: items, total, nextCursor })
+  } catch (error) {
+    return paginationErrorResponse(error)
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { deleteUser, updateUser, userUpdateSchema } from "@/lib/users"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  let admin
+  try {
+    admin = await requireUser("admin")
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const parsed = userUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid user update", issues: parsed.error.issues }, { status: 400 })
+  }
+  // Stop admins from locking themselves out
+  if (id === admin.id && (parsed.data.role !== undefined || parsed.data.status !== undefined)) {
+    return NextResponse.json({ error: "You cannot change your own role or status" }, { status: 400 })
+  }
+  const user = await updateUser(id, parsed.data)
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 })
+  }
+  return NextResponse.json({ user })
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  let admin
+  try {
+    admin = await requireUser("admin")
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  if (id === admin.id) {
+    return NextResponse.json({ error: "You cannot delete your own account here" }, { status: 400 })
+  }
+  if (!(await deleteUser(id))) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 })
+  }
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { pageParams, pageQuerySchema, paginate, paginationErrorResponse } from "@/lib/pagination"
+import { listUsers } from "@/lib/users"
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireUser("admin")
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const pageQuery = pageQuerySchema.safeParse(pageParams(request.nextUrl.searchParams))
+  if (!pageQuery.success) {
+    return NextResponse.json({ error: "Invalid pagination", issues: pageQuery.error.issues }, { status: 400 })
+  }
+  try {
+    const { items, total, nextCursor } = paginate(await listUsers(), pageQuery.data, (user) => user.id)
+    return NextResponse.json({ users: items, total, nextCursor })
+  } catch (error) {
+    return paginationErrorResponse(error)
+  }
+}
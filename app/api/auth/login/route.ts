@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AuthError, authenticate, startSession } from "@/lib/auth"
+import { loginSchema } from "@/lib/auth-schema"
+
+export async function POST(request: NextRequest) {
+  const parsed = loginSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid login details", issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    const user = await authenticate(parsed.data.email, parsed.data.password)
+    await startSession(user.id)
+    return NextResponse.json({ user })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    throw error
+  }
+}
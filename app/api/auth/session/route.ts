@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server"
+import { getSessionUser } from "@/lib/auth"
+
+export async function GET() {
+  const user = await getSessionUser()
+  return NextResponse.json({ user }, { headers: { "Cache-Control": "no-store" } })
+}
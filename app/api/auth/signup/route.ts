@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AuthError, createUser, startSession } from "@/lib/auth"
+import { signUpSchema } from "@/lib/auth-schema"
+
+export async function POST(request: NextRequest) {
+  const parsed = signUpSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid sign-up details", issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    const user = await createUser(parsed.data)
+    await startSession(user.id)
+    return NextResponse.json({ user }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    throw error
+  }
+}
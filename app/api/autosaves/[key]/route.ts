@@ -0,0 +1,50 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { autosaveInputSchema, deleteAutosave, getAutosave, saveAutosave } from "@/lib/autosaves"
+import { autosaveKeySchema } from "@/lib/domain"
+
+type RouteContext = { params: Promise<{ key: string }> }
+
+const invalidKey = () => NextResponse.json({ error: "Invalid autosave key" }, { status: 400 })
+
+// The signed-in user's autosaved editor state for this session, or null when there is none
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { key } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  if (!autosaveKeySchema.safeParse(key).success) return invalidKey()
+  return NextResponse.json({ autosave: await getAutosave(user.id, key) })
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { key } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  if (!autosaveKeySchema.safeParse(key).success) return invalidKey()
+  const parsed = autosaveInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid autosave", issues: parsed.error.issues }, { status: 400 })
+  }
+  return NextResponse.json({ autosave: await saveAutosave(user.id, key, parsed.data) })
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { key } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  if (!autosaveKeySchema.safeParse(key).success) return invalidKey()
+  await deleteAutosave(user.id, key)
+  return new NextResponse(null, { status: 204 })
+}
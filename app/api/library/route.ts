@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { listShelves } from "@/lib/library"
+
+// The signed-in user's shelves with their stories
+export async function GET() {
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  return NextResponse.json({ shelves: await listShelves(user.id) })
+}
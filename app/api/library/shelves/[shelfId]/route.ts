@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { deleteShelf, libraryErrorResponse, shelfUpdateSchema, updateShelf } from "@/lib/library"
+
+type RouteContext = { params: Promise<{ shelfId: string }> }
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { shelfId } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const parsed = shelfUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid shelf", issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    return NextResponse.json({ shelf: await updateShelf(user.id, shelfId, parsed.data) })
+  } catch (error) {
+    return libraryErrorResponse(error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { shelfId } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  try {
+    await deleteShelf(user.id, shelfId)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return libraryErrorResponse(error)
+  }
+}
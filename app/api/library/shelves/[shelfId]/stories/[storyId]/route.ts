@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { addToShelf, libraryErrorResponse, removeFromShelf } from "@/lib/library"
+
+type RouteContext = { params: Promise<{ shelfId: string; storyId: string }> }
+
+export async function PUT(_request: NextRequest, { params }: RouteContext) {
+  const { shelfId, storyId } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  try {
+    return NextResponse.json({ shelf: await addToShelf(user.id, shelfId, storyId) })
+  } catch (error) {
+    return libraryErrorResponse(error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { shelfId, storyId } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  try {
+    return NextResponse.json({ shelf: await removeFromShelf(user.id, shelfId, storyId) })
+  } catch (error) {
+    return libraryErrorResponse(error)
+  }
+}
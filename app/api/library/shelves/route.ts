@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { createShelf, libraryErrorResponse, shelfInputSchema } from "@/lib/library"
+
+export async function POST(request: NextRequest) {
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const parsed = shelfInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid shelf", issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    return NextResponse.json({ shelf: await createShelf(user.id, parsed.data) }, { status: 201 })
+  } catch (error) {
+    return libraryErrorResponse(error)
+  }
+}
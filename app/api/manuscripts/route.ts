@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { manuscriptErrorResponse, parseManuscript } from "@/lib/manuscript"
+
+// Splits an uploaded manuscript (multipart `file`: .md, .txt or .docx) into episodes for the author to
+// review. Nothing is stored; the writer creates the drafts they keep through the episodes API.
+export async function POST(request: NextRequest) {
+  try {
+    await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const form = await request.formData().catch(() => null)
+  const file = form?.get("file")
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Expected a manuscript file" }, { status: 400 })
+  }
+  try {
+    return NextResponse.json({ manuscript: await parseManuscript(file) })
+  } catch (error) {
+    return manuscriptErrorResponse(error)
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { imagePurposeSchema } from "@/lib/domain"
+import { mediaErrorResponse, saveImage } from "@/lib/media"
+
+// Uploads one image as multipart form data: `file`, plus `purpose` ("cover" unless given).
+// Responds with the stored image and the stable URLs of its variants.
+export async function POST(request: NextRequest) {
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const form = await request.formData().catch(() => null)
+  const file = form?.get("file")
+  const purpose = imagePurposeSchema.safeParse(form?.get("purpose") ?? "cover")
+  if (!(file instanceof File) || !purpose.success) {
+    return NextResponse.json({ error: "Expected an image file and a valid purpose" }, { status: 400 })
+  }
+  try {
+    return NextResponse.json({ image: await saveImage(user.id, purpose.data, file) }, { status: 201 })
+  } catch (error) {
+    return mediaErrorResponse(error)
+  }
+}
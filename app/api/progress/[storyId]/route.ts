@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { progressInputSchema, saveProgress } from "@/lib/progress"
+
+type RouteContext = { params: Promise<{ storyId: string }> }
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { storyId } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const parsed = progressInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid progress", issues: parsed.error.issues }, { status: 400 })
+  }
+  const progress = await saveProgress(user.id, storyId, parsed.data)
+  if (!progress) return NextResponse.json({ error: "Episode not found" }, { status: 404 })
+  return NextResponse.json({ progress })
+}
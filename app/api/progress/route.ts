@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { listInProgress } from "@/lib/progress"
+
+// The signed-in reader's unfinished stories
+export async function GET() {
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  return NextResponse.json({ entries: await listInProgress(user.id) })
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { listScheduledReleases } from "@/lib/episodes"
+
+// The signed-in author's upcoming scheduled episodes
+export async function GET() {
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  return NextResponse.json({ releases: await listScheduledReleases(user.id) })
+}
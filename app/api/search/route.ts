@@ -0,0 +1,12 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { searchStories } from "@/lib/search"
+
+const MAX_LIMIT = 50
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const query = searchParams.get("q")?.trim() ?? ""
+  // Clamped rather than rejected, like the query itself (see searchStories)
+  const limit = Math.min(Math.max(Math.trunc(Number(searchParams.get("limit"))) || 20, 1), MAX_LIMIT)
+  return NextResponse.json({ results: await searchStories(query, limit) })
+}
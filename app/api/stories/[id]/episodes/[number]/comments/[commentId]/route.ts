@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { deleteComment, getComment } from "@/lib/comments"
+import { canEditStory, getStory } from "@/lib/stories"
+
+type RouteContext = { params: Promise<{ id: string; number: string; commentId: string }> }
+
+const notFound = () => NextResponse.json({ error: "Comment not found" }, { status: 404 })
+
+// Commenters can remove their own comments, and authors and admins any comment on the story
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id, commentId } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const [comment, story] = await Promise.all([getComment(commentId), getStory(id)])
+  if (!comment || !story || comment.storyId !== story.id) return notFound()
+  if (comment.userId !== user.id && !canEditStory(story, user)) {
+    return NextResponse.json({ error: "You can only delete your own comments" }, { status: 403 })
+  }
+  await deleteComment(commentId)
+  return new NextResponse(null, { status: 204 })
+}
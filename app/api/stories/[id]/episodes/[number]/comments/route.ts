@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { addComment, commentInputSchema, listComments } from "@/lib/comments"
+
+type RouteContext = { params: Promise<{ id: string; number: string }> }
+
+const notFound = () => NextResponse.json({ error: "Episode not found" }, { status: 404 })
+
+// Anyone who can read the episode can read its comments
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id, number } = await params
+  const comments = await listComments(id, Number(number))
+  return comments ? NextResponse.json({ comments }) : notFound()
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id, number } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const parsed = commentInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid comment", issues: parsed.error.issues }, { status: 400 })
+  }
+  const comment = await addComment(user, id, Number(number), parsed.data)
+  return comment ? NextResponse.json({ comment }, { status: 201 }) : notFound()
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { getEpisode } from "@/lib/episodes"
+import { listRevisions } from "@/lib/revisions"
+import { canEditStory, getStory } from "@/lib/stories"
+
+type RouteContext = { params: Promise<{ id: string; number: string }> }
+
+// Saved versions of an episode, newest first; only the story's editors can see them
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id, number } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const story = await getStory(id)
+  const episode = story && canEditStory(story, user) ? await getEpisode(id, Number(number)) : null
+  if (!episode) return NextResponse.json({ error: "Episode not found" }, { status: 404 })
+  return NextResponse.json({ revisions: await listRevisions(id, episode.number) })
+}
@@ -0,0 +1,74 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, getSessionUser, requireUser } from "@/lib/auth"
+import {
+  deleteEpisode,
+  episodeUpdateSchema,
+  EpisodeNumberTakenError,
+  getEpisode,
+  InlineImageError,
+  updateEpisode,
+} from "@/lib/episodes"
+import { canEditStory, getStory } from "@/lib/stories"
+
+type RouteContext = { params: Promise<{ id: string; number: string }> }
+
+const notFound = () => NextResponse.json({ error: "Episode not found" }, { status: 404 })
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id, number } = await params
+  const story = await getStory(id)
+  const episode = story ? await getEpisode(id, Number(number)) : null
+  if (!story || !episode) return notFound()
+  const isPublic = story.status === "published" && episode.status === "published"
+  if (!isPublic && !canEditStory(story, await getSessionUser())) return notFound()
+  return NextResponse.json({ episode })
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id, number } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const story = await getStory(id)
+  if (!story) return notFound()
+  if (!canEditStory(story, user)) {
+    return NextResponse.json({ error: "You can only edit your own stories" }, { status: 403 })
+  }
+
+  const parsed = episodeUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid episode", issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    const episode = await updateEpisode(id, Number(number), parsed.data)
+    return episode ? NextResponse.json({ episode }) : notFound()
+  } catch (error) {
+    if (error instanceof EpisodeNumberTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof InlineImageError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    throw error
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id, number } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const story = await getStory(id)
+  if (!story) return notFound()
+  if (!canEditStory(story, user)) {
+    return NextResponse.json({ error: "You can only edit your own stories" }, { status: 403 })
+  }
+  const deleted = await deleteEpisode(id, Number(number))
+  return deleted ? new NextResponse(null, { status: 204 }) : notFound()
+}
@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, getSessionUser, requireUser } from "@/lib/auth"
+import {
+  createEpisode,
+  episodeInputSchema,
+  EpisodeNumberTakenError,
+  InlineImageError,
+  listEpisodes,
+} from "@/lib/episodes"
+import { canEditStory, getStory } from "@/lib/stories"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const notFound = () => NextResponse.json({ error: "Story not found" }, { status: 404 })
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const story = await getStory(id)
+  const canEdit = story ? canEditStory(story, await getSessionUser()) : false
+  if (!story || (story.status !== "published" && !canEdit)) return notFound()
+  // Draft episodes are only listed for the story's owner and admins
+  const episodes = await listEpisodes(id, { includeDrafts: canEdit })
+  return NextResponse.json({ episodes })
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const story = await getStory(id)
+  if (!story) return notFound()
+  if (!canEditStory(story, user)) {
+    return NextResponse.json({ error: "You can only add episodes to your own stories" }, { status: 403 })
+  }
+
+  const parsed = episodeInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid episode", issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    const episode = await createEpisode(id, parsed.data)
+    return NextResponse.json({ episode }, { status: 201 })
+  } catch (error) {
+    if (error instanceof EpisodeNumberTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof InlineImageError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    throw error
+  }
+}
@@ -0,0 +1,52 @@
+import { z } from "zod"
+import { NextResponse, type NextRequest } from "next/server"
+import { getSessionUser } from "@/lib/auth"
+import { listEpisodes } from "@/lib/episodes"
+import { exportErrorResponse, exportFormatSchema, exportStory } from "@/lib/export"
+import { canEditStory, getStory } from "@/lib/stories"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const exportQuerySchema = z.object({
+  format: exportFormatSchema,
+  // Omitted for the whole series
+  episode: z.coerce.number().int().positive().optional(),
+})
+
+// Downloads the story as an EPUB or PDF file. Authors and admins can always export, drafts included;
+// readers only when the author allows downloads, and only published episodes.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const story = await getStory(id)
+  const canEdit = story !== null && canEditStory(story, await getSessionUser())
+  // Same visibility rule as GET /api/stories/[id]
+  if (!story || (story.status !== "published" && !canEdit)) {
+    return NextResponse.json({ error: "Story not found" }, { status: 404 })
+  }
+  if (!canEdit && !story.allowDownloads) {
+    return NextResponse.json({ error: "The author has not made this story available to download" }, { status: 403 })
+  }
+  const { searchParams } = request.nextUrl
+  const query = exportQuerySchema.safeParse({
+    format: searchParams.get("format") ?? undefined,
+    episode: searchParams.get("episode") ?? undefined,
+  })
+  if (!query.success) {
+    return NextResponse.json({ error: "Invalid export", issues: query.error.issues }, { status: 400 })
+  }
+
+  try {
+    const episodes = await listEpisodes(id, { includeDrafts: canEdit })
+    const file = await exportStory(story, episodes, query.data.format, query.data.episode)
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.fileName}"`,
+        // Authors' exports include drafts
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    return exportErrorResponse(error)
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { isLiked, likeInputSchema, setLiked } from "@/lib/ratings"
+import { getStory } from "@/lib/stories"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const notFound = () => NextResponse.json({ error: "Story not found" }, { status: 404 })
+
+// Whether the signed-in user has liked the story
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  return NextResponse.json({ liked: await isLiked(user.id, id) })
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const existing = await getStory(id)
+  if (!existing || existing.status !== "published") return notFound()
+  if (existing.authorId === user.id) {
+    return NextResponse.json({ error: "You cannot like your own story" }, { status: 403 })
+  }
+  const parsed = likeInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid like", issues: parsed.error.issues }, { status: 400 })
+  }
+  const result = await setLiked(user.id, id, parsed.data)
+  return result ? NextResponse.json(result) : notFound()
+}
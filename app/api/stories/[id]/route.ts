@@ -0,0 +1,70 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, getSessionUser, requireUser } from "@/lib/auth"
+import type { StoryStatus } from "@/lib/domain"
+import { canEditStory, deleteStory, getStory, storyUpdateSchema, updateStory } from "@/lib/stories"
+import { taxonomyErrorResponse } from "@/lib/taxonomy"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const notFound = () => NextResponse.json({ error: "Story not found" }, { status: 404 })
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const story = await getStory(id)
+  // Drafts and moderated stories are invisible to everyone but their owner and admins
+  if (!story || (story.status !== "published" && !canEditStory(story, await getSessionUser()))) {
+    return notFound()
+  }
+  return NextResponse.json({ story })
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const existing = await getStory(id)
+  if (!existing) return notFound()
+  if (!canEditStory(existing, user)) {
+    return NextResponse.json({ error: "You can only edit your own stories" }, { status: 403 })
+  }
+
+  const parsed = storyUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid story", issues: parsed.error.issues }, { status: 400 })
+  }
+  const { status, views, likes } = parsed.data
+  // Authors publish and unpublish their stories, but only admins move one into or out of moderation
+  const isModerated = (value: StoryStatus) => value === "flagged" || value === "archived"
+  const changesModeration =
+    status !== undefined && status !== existing.status && (isModerated(status) || isModerated(existing.status))
+  if (user.role !== "admin" && (changesModeration || views !== undefined || likes !== undefined)) {
+    return NextResponse.json({ error: "Only admins can change moderation status or counters" }, { status: 403 })
+  }
+  try {
+    const story = await updateStory(id, parsed.data)
+    return story ? NextResponse.json({ story }) : notFound()
+  } catch (error) {
+    return taxonomyErrorResponse(error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const existing = await getStory(id)
+  if (!existing) return notFound()
+  if (!canEditStory(existing, user)) {
+    return NextResponse.json({ error: "You can only delete your own stories" }, { status: 403 })
+  }
+  await deleteStory(id)
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getSessionUser } from "@/lib/auth"
+import { recordView } from "@/lib/ratings"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Signed-in readers are told apart by account and everyone else by address. Only the address the nearest
+// proxy saw is trusted: earlier X-Forwarded-For entries come from the client and can be anything.
+function viewerOf(request: NextRequest, userId: string | undefined) {
+  if (userId) return `user:${userId}`
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",").pop()?.trim()
+  return `ip:${request.headers.get("x-real-ip") ?? forwarded ?? "unknown"}`
+}
+
+// Anonymous readers count too. The reader calls this once per browser session, and the server counts each
+// viewer once an hour whatever calls it.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const user = await getSessionUser()
+  const views = await recordView(id, viewerOf(request, user?.id))
+  if (views === null) {
+    return NextResponse.json({ error: "Story not found" }, { status: 404 })
+  }
+  return NextResponse.json({ views })
+}
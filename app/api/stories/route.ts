@@ -0,0 +1,90 @@
+import { z } from "zod"
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { cursorRankedAt, pageParams, pageQuerySchema, paginate, paginationErrorResponse } from "@/lib/pagination"
+import { PUBLISHED_WITHIN, STORY_SORTS, storyScore, type PublishedWithin, type StorySort } from "@/lib/rankings"
+import { createStory, listStories, storyInputSchema } from "@/lib/stories"
+import { taxonomyErrorResponse } from "@/lib/taxonomy"
+import { storyStatusSchema } from "@/lib/domain"
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const statusParam = storyStatusSchema
+    .or(z.literal("all"))
+    .optional()
+    .safeParse(searchParams.get("status") ?? undefined)
+  if (!statusParam.success) {
+    return NextResponse.json({ error: "Invalid story status", issues: statusParam.error.issues }, { status: 400 })
+  }
+  const status = statusParam.data
+  let authorId = searchParams.get("authorId") ?? undefined
+  const sort = searchParams.get("sort") ?? undefined
+  const publishedWithin = searchParams.get("publishedWithin") ?? undefined
+  if (sort && !STORY_SORTS.includes(sort as StorySort)) {
+    return NextResponse.json({ error: `sort must be one of ${STORY_SORTS.join(", ")}` }, { status: 400 })
+  }
+  if (publishedWithin && !(publishedWithin in PUBLISHED_WITHIN)) {
+    const windows = Object.keys(PUBLISHED_WITHIN).join(", ")
+    return NextResponse.json({ error: `publishedWithin must be one of ${windows}` }, { status: 400 })
+  }
+  const pageQuery = pageQuerySchema.safeParse(pageParams(searchParams))
+  if (!pageQuery.success) {
+    return NextResponse.json({ error: "Invalid pagination", issues: pageQuery.error.issues }, { status: 400 })
+  }
+
+  // Unpublished stories are only listed for admins, or for authors looking at their own work
+  if (status && status !== "published") {
+    let user
+    try {
+      user = await requireUser()
+    } catch (error) {
+      return authErrorResponse(error)
+    }
+    if (user.role !== "admin") authorId = user.id
+  }
+
+  try {
+    // Later pages are ranked at the moment the first one was, so live scores cannot reorder them
+    const rankedAt = cursorRankedAt(pageQuery.data) ?? Date.now()
+    const stories = await listStories(
+      {
+        status,
+        genre: searchParams.get("genre") ?? undefined,
+        tag: searchParams.get("tag") ?? undefined,
+        author: searchParams.get("author") ?? undefined,
+        authorId,
+        sort: sort as StorySort | undefined,
+        publishedWithin: publishedWithin as PublishedWithin | undefined,
+      },
+      rankedAt,
+    )
+    const ranking = sort ? { scoreOf: storyScore(sort as StorySort, rankedAt), rankedAt } : undefined
+    const { items, total, nextCursor } = paginate(stories, pageQuery.data, (story) => story.id, ranking)
+    return NextResponse.json({ stories: items, total, nextCursor })
+  } catch (error) {
+    return paginationErrorResponse(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let user
+  try {
+    user = await requireUser()
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const parsed = storyInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid story", issues: parsed.error.issues }, { status: 400 })
+  }
+  // Authors start a story as a draft or published; only admins create one already under moderation
+  const { status } = parsed.data
+  if (status !== "draft" && status !== "published" && user.role !== "admin") {
+    return NextResponse.json({ error: "Only admins can create flagged or archived stories" }, { status: 403 })
+  }
+  try {
+    return NextResponse.json({ story: await createStory(parsed.data, user) }, { status: 201 })
+  } catch (error) {
+    return taxonomyErrorResponse(error)
+  }
+}
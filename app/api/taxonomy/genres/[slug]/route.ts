@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { deleteGenre, genreUpdateSchema, taxonomyErrorResponse, updateGenre } from "@/lib/taxonomy"
+
+type RouteContext = { params: Promise<{ slug: string }> }
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params
+  try {
+    await requireUser("admin")
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const parsed = genreUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid genre", issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    return NextResponse.json({ genre: await updateGenre(slug, parsed.data) })
+  } catch (error) {
+    return taxonomyErrorResponse(error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params
+  try {
+    await requireUser("admin")
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  try {
+    await deleteGenre(slug)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return taxonomyErrorResponse(error)
+  }
+}
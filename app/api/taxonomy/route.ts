@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server"
+import { getTaxonomy } from "@/lib/taxonomy"
+
+// Public: the editor, discover filters and home chips all read genres and tags from here
+export async function GET() {
+  return NextResponse.json(await getTaxonomy())
+}
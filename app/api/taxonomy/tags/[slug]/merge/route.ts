@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { mergeTag, tagMergeSchema, taxonomyErrorResponse } from "@/lib/taxonomy"
+
+type RouteContext = { params: Promise<{ slug: string }> }
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params
+  try {
+    await requireUser("admin")
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const parsed = tagMergeSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid merge", issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    return NextResponse.json({ tag: await mergeTag(slug, parsed.data.into) })
+  } catch (error) {
+    return taxonomyErrorResponse(error)
+  }
+}
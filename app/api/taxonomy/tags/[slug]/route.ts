@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { deleteTag, tagUpdateSchema, taxonomyErrorResponse, updateTag } from "@/lib/taxonomy"
+
+type RouteContext = { params: Promise<{ slug: string }> }
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params
+  try {
+    await requireUser("admin")
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const parsed = tagUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid tag", issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    return NextResponse.json({ tag: await updateTag(slug, parsed.data) })
+  } catch (error) {
+    return taxonomyErrorResponse(error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params
+  try {
+    await requireUser("admin")
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  try {
+    await deleteTag(slug)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return taxonomyErrorResponse(error)
+  }
+}
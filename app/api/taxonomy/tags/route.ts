@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { authErrorResponse, requireUser } from "@/lib/auth"
+import { createTag, taxonomyErrorResponse, termInputSchema } from "@/lib/taxonomy"
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireUser("admin")
+  } catch (error) {
+    return authErrorResponse(error)
+  }
+  const parsed = termInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid tag", issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    return NextResponse.json({ tag: await createTag(parsed.data) }, { status: 201 })
+  } catch (error) {
+    return taxonomyErrorResponse(error)
+  }
+}
@@ -2,6 +2,9 @@ import type React from "react"
 import type { Metadata } from "next"
 import "./globals.css"
 import { ThemeProvider } from "@/components/theme-provider"
+import { SessionProvider } from "@/components/session-provider"
+import { LibraryProvider } from "@/components/library-provider"
+import { TaxonomyProvider } from "@/components/taxonomy-provider"
 import { Toaster } from "@/components/ui/toaster" // Import Toaster
 import { Inter, Playfair_Display } from "next/font/google" // Import fonts from next/font/google
 
@@ -38,7 +41,11 @@ export default function RootLayout({
       <body>
         {/* ThemeProvider configured for light theme only */}
         <ThemeProvider defaultTheme="light" disableTransitionOnChange>
-          {children}
+          <SessionProvider>
+            <TaxonomyProvider>
+              <LibraryProvider>{children}</LibraryProvider>
+            </TaxonomyProvider>
+          </SessionProvider>
           <Toaster /> {/* Add Toaster component here */}
         </ThemeProvider>
       </body>
@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { readImageFile } from "@/lib/media"
+
+type RouteContext = { params: Promise<{ id: string; file: string }> }
+
+// Serves uploaded images at the URLs lib/domain/media hands out. Files never change once written, so
+// browsers and CDNs may keep them for good.
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id, file } = await params
+  const stored = await readImageFile(id, file)
+  if (!stored) return NextResponse.json({ error: "Image not found" }, { status: 404 })
+  return new NextResponse(stored.body, {
+    headers: {
+      "Content-Type": stored.contentType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  })
+}
@@ -0,0 +1,25 @@
+import type { Metadata } from "next"
+import { notFound, redirect } from "next/navigation"
+import ImageStoryReader from "@/components/image-story-reader"
+import { loadReaderData } from "@/app/(site)/story/[id]/reader-data"
+
+type ReaderPageProps = { params: Promise<{ id: string; episode: string }> }
+
+const load = async (params: ReaderPageProps["params"]) => {
+  const { id, episode } = await params
+  return loadReaderData(id, Number(episode))
+}
+
+export async function generateMetadata({ params }: ReaderPageProps): Promise<Metadata> {
+  const data = await load(params)
+  return data ? { title: `${data.story.title}, Episode ${data.episode.number} | Sunega Novel` } : {}
+}
+
+// Full screen, outside the site chrome. Text episodes belong to the page reader.
+export default async function ReaderPage({ params }: ReaderPageProps) {
+  const data = await load(params)
+  if (!data) notFound()
+  const { story, episode } = data
+  if (episode.storyContent.length === 0) redirect(`/story/${story.id}/${episode.number}`)
+  return <ImageStoryReader {...data} />
+}
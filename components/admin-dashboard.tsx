@@ -1,12 +1,21 @@
 "use client"
 
-import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { cn } from "@/lib/utils"
 import { useToast } from "@/components/ui/use-toast"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
 import { 
   FlagIcon, 
   UserXIcon, 
@@ -17,52 +26,86 @@ import {
   BookOpenIcon,
   BarChart3Icon,
   SettingsIcon,
-  AlertCircleIcon
+  AlertCircleIcon,
+  TagsIcon
 } from "lucide-react"
 import { useState, useEffect } from "react"
 import StoryEditor from "./story-editor"
+import TaxonomyManager from "./taxonomy-manager"
+import { adminApi, storiesApi } from "@/lib/api"
+import { samePanels } from "@/lib/panels"
+import { useSession } from "@/hooks/use-session"
+import { episodeAutosaveKey, type Episode, type Report, type Story, type User } from "@/lib/domain"
 
-type User = {
-  id: string;
-  username: string;
-  email: string;
-  status: 'active' | 'suspended' | 'banned';
-  role: 'admin' | 'author' | 'reader';
-  joinDate: string;
-}
+// Tabs whose tables are paged by the API
+const PAGED_TABS = ['stories', 'users', 'reports'];
 
-// Story status type guard
-const isStoryStatus = (status: string): status is 'published' | 'draft' | 'flagged' | 'archived' => {
-  return ['published', 'draft', 'flagged', 'archived'].includes(status);
+// Page numbers to show around the current page; null marks a gap
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= 1) {
+      pages.push(n);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
 };
 
-// Story status type
-type StoryStatus = 'published' | 'draft' | 'flagged' | 'archived';
+function TablePagination({ page, pageCount, onPageChange }: {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}) {
+  if (pageCount <= 1) return null;
 
-type Story = {
-  id: string;
-  title: string;
-  author: string;
-  status: StoryStatus;
-  views: number;
-  likes: number;
-  publishDate: string;
-}
+  const go = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) onPageChange(target);
+  };
 
-type Report = {
-  id: string;
-  storyId: string;
-  storyTitle: string;
-  reason: string;
-  reportedBy: string;
-  status: 'pending' | 'reviewed' | 'dismissed';
-  reportedAt: string;
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={go(page - 1)}
+            aria-disabled={page === 1}
+            className={cn(page === 1 && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+        {visiblePages(page, pageCount).map((n, index) => (
+          <PaginationItem key={n ?? `gap-${index}`}>
+            {n === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={n === page} onClick={go(n)}>
+                {n}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={go(page + 1)}
+            aria-disabled={page === pageCount}
+            className={cn(page === pageCount && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
 }
 
 export default function AdminDashboard() {
   const [activeTab, setActiveTab] = useState('overview');
   const [showStoryEditor, setShowStoryEditor] = useState(false);
   const [selectedStory, setSelectedStory] = useState<Story | null>(null);
+  // The editor opens on the story's latest episode
+  const [selectedEpisode, setSelectedEpisode] = useState<Episode | null>(null);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [showUserModal, setShowUserModal] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -75,24 +118,25 @@ export default function AdminDashboard() {
     setShowStoryEditor(true);
   };
   
-  const handleEditStory = (story: Story) => {
-    setSelectedStory(story);
-    setShowStoryEditor(true);
-  };
-  
-  // Create a story data object for the editor
-  const getEditorStoryData = (story: Story | null) => {
-    if (!story) return { title: '', content: '' };
-    return {
-      title: story.title,
-      content: `By ${story.author}\n\n[Content for ${story.title} would be loaded here]`,
-      status: story.status,
-      // Add other fields as needed by the editor
-    };
+  const handleEditStory = async (story: Story) => {
+    try {
+      const episodes = await storiesApi.episodes.list(story.id);
+      setSelectedStory(story);
+      setSelectedEpisode(episodes[episodes.length - 1] ?? null);
+      setShowStoryEditor(true);
+    } catch (error) {
+      console.error('Failed to load episodes:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the story. Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
   
   const handleEditorClose = () => {
     setSelectedStory(null);
+    setSelectedEpisode(null);
     setShowStoryEditor(false);
   };
   
@@ -102,6 +146,26 @@ export default function AdminDashboard() {
     setShowUserModal(true);
   };
   
+  const handleUpdateUser = async (id: string, patch: Partial<Pick<User, 'role' | 'status'>>) => {
+    try {
+      const updated = await adminApi.users.update(id, patch);
+      setUsers(prev => prev.map(user => user.id === id ? updated : user));
+      setRecentUsers(prev => prev.map(user => user.id === id ? updated : user));
+      setSelectedUser(updated);
+      toast({
+        title: 'Success',
+        description: `${updated.username} has been updated.`,
+      });
+    } catch (error) {
+      console.error('Failed to update user:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update user. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const closeUserModal = () => {
     setSelectedUser(null);
     setShowUserModal(false);
@@ -118,24 +182,13 @@ export default function AdminDashboard() {
     
     setIsDeleting(true);
     try {
-      // In a real app, this would be an API call to delete the item
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
-      // Update the appropriate state based on the item type
       if (itemToDelete.type === 'user') {
-        setUsers(users.filter(user => user.id !== itemToDelete.id));
-        setStats(prev => ({
-          ...prev,
-          totalUsers: prev.totalUsers - 1
-        }));
+        await adminApi.users.remove(itemToDelete.id);
       } else {
-        setStories(stories.filter(story => story.id !== itemToDelete.id));
-        setStats(prev => ({
-          ...prev,
-          activeStories: stories.filter(s => s.status === 'published' && s.id !== itemToDelete.id).length,
-          flaggedContent: stories.filter(s => s.status === 'flagged' && s.id !== itemToDelete.id).length
-        }));
+        await storiesApi.remove(itemToDelete.id);
       }
+      // Refetch so the page fills up from the next one and the counts stay right
+      await Promise.all([fetchDashboardData(), fetchTablePage()]);
       
       toast({
         title: 'Success',
@@ -146,7 +199,7 @@ export default function AdminDashboard() {
       console.error('Failed to delete:', error);
       toast({
         title: 'Error',
-        description: `Failed to delete ${itemToDelete.type}. Please try again.`,
+        description: (error as Error).message || `Failed to delete ${itemToDelete.type}. Please try again.`,
         variant: 'destructive',
       });
     } finally {
@@ -167,14 +220,12 @@ export default function AdminDashboard() {
   // Handle report actions
   const handleReportAction = async (reportId: string, action: 'dismiss' | 'review') => {
     try {
-      // In a real app, this would be an API call
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      setReports(reports.map(report => 
-        report.id === reportId 
-          ? { ...report, status: action === 'dismiss' ? 'dismissed' : 'reviewed' }
-          : report
-      ));
+      const updated = await adminApi.reports.update(reportId, action === 'dismiss' ? 'dismissed' : 'reviewed');
+      setReports(reports.map(report => report.id === reportId ? updated : report));
+      setStats(prev => ({
+        ...prev,
+        newReports: prev.newReports - 1
+      }));
       
       toast({
         title: 'Success',
@@ -194,26 +245,20 @@ export default function AdminDashboard() {
   // Helper function to show toast notifications
   const { toast } = useToast();
 
-  // State for authentication
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  // Access is enforced by middleware and the admin API routes; the session is only needed to log out
+  const { logout } = useSession();
   const [isLoading, setIsLoading] = useState(true);
-  const [loginError, setLoginError] = useState<string>('');
-  const [loginForm, setLoginForm] = useState({
-    email: '',
-    password: ''
-  });
   
-  // State for data management
+  // Overview data
+  const [recentUsers, setRecentUsers] = useState<User[]>([]);
+  const [recentStories, setRecentStories] = useState<Story[]>([]);
+  const [editorPicks, setEditorPicks] = useState<Story[]>([]);
+
+  // The current page of the active table tab
   const [users, setUsers] = useState<User[]>([]);
   const [stories, setStories] = useState<Story[]>([]);
   const [reports, setReports] = useState<Report[]>([]);
-  
-  // Derived state for recent items with proper type annotations
-  const recentUsers: User[] = users.slice(0, 5);
-  const recentStories: Story[] = stories.slice(0, 5);
-  const editorPicks: Story[] = stories
-    .filter((story: Story) => story.status === 'published')
-    .slice(0, 3);
+  const [totalItems, setTotalItems] = useState(0);
   const [stats, setStats] = useState({
     totalUsers: 0,
     activeStories: 0,
@@ -225,58 +270,40 @@ export default function AdminDashboard() {
   const [searchQuery, setSearchQuery] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
+  const pageCount = Math.max(1, Math.ceil(totalItems / itemsPerPage));
   const [isLoadingData, setIsLoadingData] = useState(false);
 
   // Fetch data on component mount and when active tab changes
   useEffect(() => {
-    // Move the check inside the effect to avoid using isAuthenticated before declaration
-    const checkAuth = async () => {
-      const token = localStorage.getItem('isAuthenticated');
-      if (token) {
-        setIsAuthenticated(true);
-        await fetchDashboardData();
-      }
-      setIsLoading(false);
-    };
-    
-    checkAuth();
+    fetchDashboardData().finally(() => setIsLoading(false));
   }, [activeTab]);
 
-  // Simulate data fetching with loading state
+  useEffect(() => {
+    fetchTablePage();
+  }, [activeTab, currentPage]);
+
   const fetchDashboardData = async () => {
     setIsLoadingData(true);
     try {
-      // In a real app, these would be API calls
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Sample data - replace with actual API calls
-      const mockUsers: User[] = [
-        { id: "u1", username: "johndoe", email: "john@example.com", status: "active", role: "reader", joinDate: "2023-05-15" },
-        { id: "u2", username: "janedoe", email: "jane@example.com", status: "active", role: "author", joinDate: "2023-05-10" },
-        { id: "u3", username: "spam_bot", email: "spam@example.com", status: "banned", role: "reader", joinDate: "2023-05-20" },
-      ];
-
-      const mockStories: Story[] = [
-        { id: "s1", title: "The Last Sunset", author: "John Smith", status: "published", views: 1245, likes: 89, publishDate: "2023-05-20" },
-        { id: "s2", title: "Midnight Whispers", author: "Emma Wilson", status: "draft", views: 0, likes: 0, publishDate: "" },
-        { id: "s3", title: "The Hidden Truth", author: "Alex Johnson", status: "flagged", views: 450, likes: 23, publishDate: "2023-05-18" },
-      ];
-
-      const mockReports: Report[] = [
-        { id: "r1", storyId: "s3", storyTitle: "The Hidden Truth", reason: "Inappropriate content", reportedBy: "user123", status: "pending", reportedAt: "2023-05-21" },
-        { id: "r2", storyId: "s1", storyTitle: "The Last Sunset", reason: "Copyright violation", reportedBy: "author456", status: "pending", reportedAt: "2023-05-22" },
-      ];
+      // Only the first few rows are shown; the totals come from the page metadata
+      const [latestUsers, latestStories, published, flagged, pending] = await Promise.all([
+        adminApi.users.list({ limit: 5 }),
+        storiesApi.page({ status: 'all' }, { limit: 5 }),
+        storiesApi.page({ status: 'published' }, { limit: 3 }),
+        storiesApi.page({ status: 'flagged' }, { limit: 1 }),
+        adminApi.reports.list({ status: 'pending', limit: 1 }),
+      ]);
 
-      setUsers(mockUsers);
-      setStories(mockStories);
-      setReports(mockReports);
+      setRecentUsers(latestUsers.items);
+      setRecentStories(latestStories.items);
+      setEditorPicks(published.items);
       
       // Update stats
       setStats({
-        totalUsers: mockUsers.length,
-        activeStories: mockStories.filter(s => s.status === 'published').length,
-        flaggedContent: mockStories.filter(s => s.status === 'flagged').length,
-        newReports: mockReports.filter(r => r.status === 'pending').length,
+        totalUsers: latestUsers.total,
+        activeStories: published.total,
+        flaggedContent: flagged.total,
+        newReports: pending.total,
       });
       
     } catch (error) {
@@ -291,45 +318,46 @@ export default function AdminDashboard() {
     }
   };
 
-  // Handle login
-  const handleLogin = async (e: React.FormEvent) => {
-    e.preventDefault();
-    const { email, password } = loginForm;
-    
-    // Simple validation (replace with actual authentication)
-    if (email === 'admin@example.com' && password === 'admin123') {
-      setIsAuthenticated(true);
-      localStorage.setItem('isAuthenticated', 'true');
-      await fetchDashboardData();
-      setLoginError('');
-    } else {
-      setLoginError('Invalid email or password');
+  const fetchTablePage = async () => {
+    if (!PAGED_TABS.includes(activeTab)) return;
+    const page = { page: currentPage, limit: itemsPerPage };
+    setIsLoadingData(true);
+    try {
+      let total;
+      if (activeTab === 'stories') {
+        const result = await storiesApi.page({ status: 'all' }, page);
+        setStories(result.items);
+        total = result.total;
+      } else if (activeTab === 'users') {
+        const result = await adminApi.users.list(page);
+        setUsers(result.items);
+        total = result.total;
+      } else {
+        const result = await adminApi.reports.list(page);
+        setReports(result.items);
+        total = result.total;
+      }
+      setTotalItems(total);
+      // Deleting the last row of the last page leaves it empty; step back to the new last page
+      if (total > 0 && currentPage > Math.ceil(total / itemsPerPage)) {
+        setCurrentPage(Math.ceil(total / itemsPerPage));
+      }
+    } catch (error) {
+      console.error('Failed to fetch page:', error);
       toast({
-        title: 'Login Failed',
-        description: 'Invalid email or password',
+        title: 'Error',
+        description: 'Failed to load this page. Please try again.',
         variant: 'destructive',
       });
+    } finally {
+      setIsLoadingData(false);
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('isAuthenticated');
-    setIsAuthenticated(false);
+  const handleLogout = async () => {
+    await logout();
     // Redirect to home
-    if (typeof window !== 'undefined') {
-      window.location.href = '/';
-    }
-  };
-
-
-
-  // Handle input changes for login form
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setLoginForm(prev => ({
-      ...prev,
-      [name]: value
-    }));
+    window.location.href = '/';
   };
 
   if (isLoading) {
@@ -343,86 +371,6 @@ export default function AdminDashboard() {
     );
   }
 
-  if (!isAuthenticated) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background p-4">
-        <Card className="w-full max-w-md">
-          <CardHeader className="space-y-1">
-            <CardTitle className="text-2xl font-bold text-center">Admin Login</CardTitle>
-            <CardDescription className="text-center">
-              Enter your credentials to access the admin panel
-            </CardDescription>
-          </CardHeader>
-          <form onSubmit={handleLogin}>
-            <CardContent className="space-y-4">
-              {loginError && (
-                <div className="bg-destructive/10 border border-destructive/30 text-destructive dark:text-destructive-foreground p-3 rounded-md text-sm">
-                  {loginError}
-                </div>
-              )}
-              <div className="space-y-2">
-                <label htmlFor="email" className="text-sm font-medium leading-none">
-                  Email
-                </label>
-                <input
-                  id="email"
-                  name="email"
-                  type="email"
-                  value={loginForm.email}
-                  onChange={handleInputChange}
-                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                  placeholder="admin@example.com"
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <label htmlFor="password" className="text-sm font-medium leading-none">
-                    Password
-                  </label>
-                  <button
-                    type="button"
-                    className="text-xs text-muted-foreground hover:underline"
-                    onClick={() => {
-                      setLoginForm({
-                        email: 'admin@example.com',
-                        password: 'admin123' // Demo only - remove in production
-                      });
-                    }}
-                  >
-                    Use demo credentials
-                  </button>
-                </div>
-                <input
-                  id="password"
-                  name="password"
-                  type="password"
-                  value={loginForm.password}
-                  onChange={handleInputChange}
-                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                  placeholder="••••••••"
-                  required
-                />
-              </div>
-              <Button 
-                type="submit"
-                className="w-full bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4 py-2 inline-flex items-center justify-center rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50"
-                disabled={!loginForm.email || !loginForm.password}
-              >
-                Sign In
-              </Button>
-            </CardContent>
-          </form>
-          <CardFooter className="px-6 pb-6 pt-0">
-            <p className="text-xs text-center text-muted-foreground">
-              By continuing, you agree to our Terms of Service and Privacy Policy
-            </p>
-          </CardFooter>
-        </Card>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -447,17 +395,65 @@ export default function AdminDashboard() {
             onClose={handleEditorClose}
             story={selectedStory ? {
               title: selectedStory.title,
-              content: `By ${selectedStory.author}\n\n[Content for ${selectedStory.title} would be loaded here]`,
-              status: selectedStory.status
+              content: selectedEpisode?.content ?? '',
+              status: selectedStory.status,
+              genre: selectedStory.genre,
+              tags: selectedStory.tags,
+              imageUrl: selectedStory.imageUrl,
+              allowDownloads: selectedStory.allowDownloads,
+              contentType: selectedStory.contentType,
+              episodeNumber: selectedEpisode?.number,
+              episodeTitle: selectedEpisode?.title,
+              storyContent: selectedEpisode?.storyContent,
+              episodeStatus: selectedEpisode?.status,
+              scheduledFor: selectedEpisode?.scheduledFor
             } : undefined}
-            onSave={(storyData) => {
-              console.log('Story saved:', storyData);
-              // In a real app, you would update the state or make an API call
-              toast({
-                title: 'Success',
-                description: `Story "${storyData.title}" has been saved.`,
-              });
-              handleEditorClose();
+            revisionsOf={selectedStory && selectedEpisode
+              ? { storyId: selectedStory.id, episodeNumber: selectedEpisode.number }
+              : null}
+            autosaveKey={selectedStory ? episodeAutosaveKey(selectedStory.id, selectedEpisode?.number ?? 'new') : 'new-story'}
+            onSave={async (storyData) => {
+              const { title, episodeNumber, episodeTitle, content, genre, tags, imageUrl, contentType } = storyData;
+              const { allowDownloads, status, publish, scheduledFor, storyContent } = storyData;
+              const episode = {
+                title: episodeTitle,
+                content,
+                status,
+                scheduledFor,
+                // Panels the admin left alone are not sent back, so they are saved exactly as they were
+                ...(selectedEpisode && samePanels(storyContent, selectedEpisode.storyContent) ? {} : { storyContent }),
+                number: episodeNumber ?? undefined,
+              };
+              // The story's status, which may be a moderation state, only changes when the admin publishes
+              const details = {
+                title,
+                genre,
+                tags,
+                imageUrl,
+                contentType,
+                allowDownloads,
+                ...(publish ? { status: 'published' as const } : {}),
+              };
+              try {
+                const saved = selectedStory
+                  ? await storiesApi.update(selectedStory.id, details)
+                  : await storiesApi.create(details);
+                if (selectedEpisode) {
+                  await storiesApi.episodes.update(saved.id, selectedEpisode.number, episode);
+                } else {
+                  await storiesApi.episodes.create(saved.id, episode);
+                }
+                await Promise.all([fetchDashboardData(), fetchTablePage()]);
+                toast({
+                  title: 'Success',
+                  description: `Story "${saved.title}" has been saved.`,
+                });
+                handleEditorClose();
+              } catch (error) {
+                console.error('Failed to save story:', error);
+                // The editor reports it and keeps the autosaved copy
+                throw new Error('Failed to save story. Please try again.');
+              }
             }}
           />
         )}
@@ -485,7 +481,7 @@ export default function AdminDashboard() {
             className="space-y-6"
             defaultValue="overview"
           >
-            <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 lg:grid-cols-6 overflow-x-auto">
+            <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 lg:grid-cols-7 overflow-x-auto">
               <TabsTrigger value="overview" className="flex items-center gap-2">
                 <BarChart3Icon className="h-4 w-4" />
                 <span>Overview</span>
@@ -501,9 +497,9 @@ export default function AdminDashboard() {
               <TabsTrigger value="reports" className="flex items-center gap-2">
                 <FlagIcon className="h-4 w-4" />
                 <span>Reports</span>
-                {reports.filter(r => r.status === 'pending').length > 0 && (
+                {stats.newReports > 0 && (
                   <Badge variant="destructive" className="h-5 w-5 p-0 flex items-center justify-center">
-                    {reports.filter(r => r.status === 'pending').length}
+                    {stats.newReports}
                   </Badge>
                 )}
               </TabsTrigger>
@@ -511,6 +507,10 @@ export default function AdminDashboard() {
                 <StarIcon className="h-4 w-4" />
                 <span>Featured</span>
               </TabsTrigger>
+              <TabsTrigger value="taxonomy" className="flex items-center gap-2">
+                <TagsIcon className="h-4 w-4" />
+                <span>Taxonomy</span>
+              </TabsTrigger>
               <TabsTrigger value="settings" className="flex items-center gap-2">
                 <SettingsIcon className="h-4 w-4" />
                 <span>Settings</span>
@@ -688,6 +688,7 @@ export default function AdminDashboard() {
                                     size="sm" 
                                     className="h-8 w-8 p-0 hover:bg-muted"
                                     title="Edit"
+                                    onClick={() => handleEditStory(story)}
                                   >
                                     <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-pencil">
                                       <path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z"/>
@@ -700,6 +701,7 @@ export default function AdminDashboard() {
                                     size="sm" 
                                     className="h-8 w-8 p-0 text-destructive hover:bg-destructive/10"
                                     title="Delete"
+                                    onClick={() => confirmDelete('story', story.id)}
                                   >
                                     <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-trash-2">
                                       <path d="M3 6h18"/>
@@ -770,7 +772,7 @@ export default function AdminDashboard() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {recentStories.map((story) => (
+                      {stories.map((story) => (
                         <TableRow key={story.id}>
                           <TableCell className="font-medium">{story.title}</TableCell>
                           <TableCell>{story.author}</TableCell>
@@ -783,12 +785,17 @@ export default function AdminDashboard() {
                               {story.status.charAt(0).toUpperCase() + story.status.slice(1)}
                             </Badge>
                           </TableCell>
-                          <TableCell>{story.publishDate || '-'}</TableCell>
+                          <TableCell>{story.publishDate ? new Date(story.publishDate).toLocaleDateString() : '-'}</TableCell>
                           <TableCell className="text-right">
-                            <Button variant="ghost" size="sm" className="h-8 px-2">
+                            <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => handleEditStory(story)}>
                               Edit
                             </Button>
-                            <Button variant="ghost" size="sm" className="h-8 px-2 text-destructive">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 px-2 text-destructive"
+                              onClick={() => confirmDelete('story', story.id)}
+                            >
                               Delete
                             </Button>
                           </TableCell>
@@ -796,6 +803,7 @@ export default function AdminDashboard() {
                       ))}
                     </TableBody>
                   </Table>
+                  <TablePagination page={currentPage} pageCount={pageCount} onPageChange={setCurrentPage} />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -827,7 +835,7 @@ export default function AdminDashboard() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {recentUsers.map((user) => (
+                      {users.map((user) => (
                         <TableRow key={user.id}>
                           <TableCell className="font-medium">{user.username}</TableCell>
                           <TableCell>{user.email}</TableCell>
@@ -845,7 +853,7 @@ export default function AdminDashboard() {
                             </Badge>
                           </TableCell>
                           <TableCell className="text-right">
-                            <Button variant="ghost" size="sm" className="h-8 px-2">
+                            <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => handleViewUser(user)}>
                               Edit
                             </Button>
                           </TableCell>
@@ -853,6 +861,7 @@ export default function AdminDashboard() {
                       ))}
                     </TableBody>
                   </Table>
+                  <TablePagination page={currentPage} pageCount={pageCount} onPageChange={setCurrentPage} />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -898,14 +907,32 @@ export default function AdminDashboard() {
                             </Badge>
                           </TableCell>
                           <TableCell className="text-right">
-                            <Button variant="ghost" size="sm" className="h-8 px-2">
-                              Review
-                            </Button>
+                            {report.status === 'pending' && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 px-2"
+                                  onClick={() => handleReportAction(report.id, 'review')}
+                                >
+                                  Review
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 px-2 text-muted-foreground"
+                                  onClick={() => handleReportAction(report.id, 'dismiss')}
+                                >
+                                  Dismiss
+                                </Button>
+                              </>
+                            )}
                           </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
                   </Table>
+                  <TablePagination page={currentPage} pageCount={pageCount} onPageChange={setCurrentPage} />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -973,6 +1000,11 @@ export default function AdminDashboard() {
               </Card>
             </TabsContent>
 
+            {/* Taxonomy Tab */}
+            <TabsContent value="taxonomy" className="space-y-6">
+              <TaxonomyManager />
+            </TabsContent>
+
             {/* Settings Tab */}
             <TabsContent value="settings" className="space-y-6">
               <Card>
@@ -1085,11 +1117,27 @@ export default function AdminDashboard() {
                   <div className="grid grid-cols-2 gap-4 pt-4">
                     <div>
                       <p className="text-sm text-muted-foreground">Status</p>
-                      <p className="font-medium capitalize">{selectedUser.status}</p>
+                      <select
+                        value={selectedUser.status}
+                        onChange={(e) => handleUpdateUser(selectedUser.id, { status: e.target.value as User['status'] })}
+                        className="mt-1 h-9 w-full rounded-md border border-input bg-background px-2 text-sm capitalize"
+                      >
+                        <option value="active">Active</option>
+                        <option value="suspended">Suspended</option>
+                        <option value="banned">Banned</option>
+                      </select>
                     </div>
                     <div>
                       <p className="text-sm text-muted-foreground">Role</p>
-                      <p className="font-medium capitalize">{selectedUser.role}</p>
+                      <select
+                        value={selectedUser.role}
+                        onChange={(e) => handleUpdateUser(selectedUser.id, { role: e.target.value as User['role'] })}
+                        className="mt-1 h-9 w-full rounded-md border border-input bg-background px-2 text-sm capitalize"
+                      >
+                        <option value="reader">Reader</option>
+                        <option value="author">Author</option>
+                        <option value="admin">Admin</option>
+                      </select>
                     </div>
                     <div>
                       <p className="text-sm text-muted-foreground">Joined</p>
@@ -6,13 +6,77 @@ import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
 import { ChromeIcon } from "lucide-react"
 import { FloatingLabelInput } from "@/components/ui/floating-label-input" // Import new component
+import { useSession } from "@/hooks/use-session"
+import { loginSchema, signUpSchema } from "@/lib/auth-schema"
+import type { ZodIssue } from "zod"
 
 interface AuthFormProps {
-  onLoginSuccess: () => void
+  onLoginSuccess?: () => void
 }
 
+type AuthField = "username" | "email" | "password" | "confirmPassword"
+
 export default function AuthForm({ onLoginSuccess }: AuthFormProps) {
+  const { login, signUp } = useSession()
   const [isLogin, setIsLogin] = useState(true)
+  const [values, setValues] = useState<Record<AuthField, string>>({
+    username: "",
+    email: "",
+    password: "",
+    confirmPassword: "",
+  })
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<AuthField, string>>>({})
+  const [formError, setFormError] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleChange = (field: AuthField) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setValues((prev) => ({ ...prev, [field]: e.target.value }))
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }))
+  }
+
+  const switchMode = (login: boolean) => {
+    setIsLogin(login)
+    setFieldErrors({})
+    setFormError("")
+  }
+
+  const showIssues = (issues: ZodIssue[]) => {
+    const errors: Partial<Record<AuthField, string>> = {}
+    issues.forEach((issue) => {
+      const field = issue.path[0] as AuthField
+      errors[field] ??= issue.message
+    })
+    setFieldErrors(errors)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setFormError("")
+
+    let submit: () => Promise<unknown>
+    if (isLogin) {
+      const parsed = loginSchema.safeParse(values)
+      if (!parsed.success) return showIssues(parsed.error.issues)
+      submit = () => login(parsed.data)
+    } else {
+      const parsed = signUpSchema.safeParse(values)
+      if (!parsed.success) return showIssues(parsed.error.issues)
+      submit = () => signUp(parsed.data)
+    }
+
+    setIsSubmitting(true)
+    try {
+      await submit()
+      onLoginSuccess?.()
+    } catch (error) {
+      setFormError((error as Error).message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const renderError = (field: AuthField) =>
+    fieldErrors[field] && <p className="text-sm text-destructive mt-1">{fieldErrors[field]}</p>
 
   return (
     <Card className="w-full max-w-md mx-auto rounded-xl shadow-lg bg-card text-card-foreground">
@@ -23,17 +87,67 @@ export default function AuthForm({ onLoginSuccess }: AuthFormProps) {
         </CardDescription>
       </CardHeader>
       <CardContent className="grid gap-6">
-        <div className="grid gap-4">
-          <FloatingLabelInput id="email" label="Email" type="email" />
-          <FloatingLabelInput id="password" label="Password" type="password" />
-          {!isLogin && <FloatingLabelInput id="confirm-password" label="Confirm Password" type="password" />}
+        <form className="grid gap-4" onSubmit={handleSubmit} noValidate>
+          {formError && (
+            <div className="bg-destructive/10 border border-destructive/30 text-destructive p-3 rounded-md text-sm">
+              {formError}
+            </div>
+          )}
+          {!isLogin && (
+            <div>
+              <FloatingLabelInput
+                id="username"
+                label="Username"
+                autoComplete="username"
+                value={values.username}
+                onChange={handleChange("username")}
+              />
+              {renderError("username")}
+            </div>
+          )}
+          <div>
+            <FloatingLabelInput
+              id="email"
+              label="Email"
+              type="email"
+              autoComplete="email"
+              value={values.email}
+              onChange={handleChange("email")}
+            />
+            {renderError("email")}
+          </div>
+          <div>
+            <FloatingLabelInput
+              id="password"
+              label="Password"
+              type="password"
+              autoComplete={isLogin ? "current-password" : "new-password"}
+              value={values.password}
+              onChange={handleChange("password")}
+            />
+            {renderError("password")}
+          </div>
+          {!isLogin && (
+            <div>
+              <FloatingLabelInput
+                id="confirm-password"
+                label="Confirm Password"
+                type="password"
+                autoComplete="new-password"
+                value={values.confirmPassword}
+                onChange={handleChange("confirmPassword")}
+              />
+              {renderError("confirmPassword")}
+            </div>
+          )}
           <Button
+            type="submit"
+            disabled={isSubmitting}
             className="w-full rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground"
-            onClick={onLoginSuccess}
           >
-            {isLogin ? "Login" : "Sign Up"}
+            {isSubmitting ? "Please wait..." : isLogin ? "Login" : "Sign Up"}
           </Button>
-        </div>
+        </form>
         <div className="relative flex items-center justify-center text-xs uppercase">
           <Separator className="absolute inset-x-0 h-px bg-border" />
           <div className="relative z-10 bg-card px-2 text-muted-foreground">Or continue with</div>
@@ -50,14 +164,14 @@ export default function AuthForm({ onLoginSuccess }: AuthFormProps) {
         {isLogin ? (
           <>
             Don't have an account?{" "}
-            <Button variant="link" onClick={() => setIsLogin(false)} className="p-0 h-auto text-primary">
+            <Button variant="link" onClick={() => switchMode(false)} className="p-0 h-auto text-primary">
               Sign Up
             </Button>
           </>
         ) : (
           <>
             Already have an account?{" "}
-            <Button variant="link" onClick={() => setIsLogin(true)} className="p-0 h-auto text-primary">
+            <Button variant="link" onClick={() => switchMode(true)} className="p-0 h-auto text-primary">
               Login
             </Button>
           </>
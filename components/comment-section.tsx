@@ -0,0 +1,122 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { formatDistanceToNow } from "date-fns"
+import { Trash2Icon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/components/ui/use-toast"
+import { useSession } from "@/hooks/use-session"
+import { storiesApi } from "@/lib/api"
+import type { Comment, Episode, Story } from "@/lib/domain"
+
+interface CommentSectionProps {
+  story: Story
+  episode: Pick<Episode, "number" | "status">
+  // The story's author and admins may remove any comment
+  canModerate?: boolean
+}
+
+// An episode's comments, oldest first, with a box for signed-in readers to add their own
+export default function CommentSection({ story, episode, canModerate = false }: CommentSectionProps) {
+  const pathname = usePathname()
+  const { user } = useSession()
+  const { toast } = useToast()
+  const [comments, setComments] = useState<Comment[] | null>(null)
+  const [body, setBody] = useState("")
+  const [isPosting, setIsPosting] = useState(false)
+  const episodeNumber = episode.number
+  // Drafts and moderated stories take no comments
+  const isOpen = story.status === "published" && episode.status === "published"
+
+  useEffect(() => {
+    if (!isOpen) return
+    storiesApi.episodes.comments
+      .list(story.id, episodeNumber)
+      .then(setComments)
+      .catch(() => setComments([]))
+  }, [isOpen, story.id, episodeNumber])
+
+  const post = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsPosting(true)
+    try {
+      const comment = await storiesApi.episodes.comments.create(story.id, episodeNumber, { body })
+      setComments((previous) => [...(previous ?? []), comment])
+      setBody("")
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setIsPosting(false)
+    }
+  }
+
+  const remove = async (comment: Comment) => {
+    try {
+      await storiesApi.episodes.comments.remove(story.id, episodeNumber, comment.id)
+      setComments((previous) => previous?.filter((candidate) => candidate.id !== comment.id) ?? null)
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <section id="comments" className="space-y-4 scroll-mt-4">
+      <h3 className="text-xl font-serif font-semibold text-foreground">
+        Comments{comments && comments.length > 0 ? ` (${comments.length})` : ""}
+      </h3>
+      {comments?.length === 0 && <p className="text-sm text-muted-foreground">No comments yet.</p>}
+      <ul className="space-y-3">
+        {comments?.map((comment) => (
+          <li key={comment.id} className="rounded-lg border border-border p-3 text-left">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span>
+                <Link href={`/u/${comment.author}`} className="font-semibold text-foreground hover:underline">
+                  {comment.author}
+                </Link>
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                </span>
+              </span>
+              {(comment.userId === user?.id || canModerate) && (
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => remove(comment)}>
+                  <Trash2Icon className="h-4 w-4" />
+                  <span className="sr-only">Delete comment</span>
+                </Button>
+              )}
+            </div>
+            <p className="mt-1 whitespace-pre-wrap break-words text-sm text-foreground">{comment.body}</p>
+          </li>
+        ))}
+      </ul>
+      {user ? (
+        <form onSubmit={post} className="space-y-2">
+          <Textarea
+            value={body}
+            onChange={(event) => setBody(event.target.value)}
+            placeholder="Share your thoughts on this episode"
+            maxLength={2000}
+            rows={3}
+          />
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isPosting || !body.trim()}>
+              {isPosting ? "Posting..." : "Post Comment"}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          <Link href={`/login?next=${encodeURIComponent(pathname)}`} className="text-primary hover:underline">
+            Log in
+          </Link>{" "}
+          to comment.
+        </p>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,23 @@
+import { parseImageUrl } from "@/lib/domain"
+
+interface CoverImageProps {
+  // A story's imageUrl; blank shows the placeholder
+  src: string
+  alt: string
+  // Cards and other small slots take the thumbnail
+  size?: "thumbnail" | "large"
+  className?: string
+}
+
+// A story cover. Uploaded covers are served as WebP where the browser supports it, falling back to the
+// original; any other URL is shown as it is.
+export default function CoverImage({ src, alt, size = "large", className }: CoverImageProps) {
+  const variants = parseImageUrl(src)
+  if (!variants) return <img src={src || "/placeholder.svg"} alt={alt} loading="lazy" className={className} />
+  return (
+    <picture>
+      <source srcSet={size === "thumbnail" ? variants.thumbnailUrl : variants.webpUrl} type="image/webp" />
+      <img src={variants.url} alt={alt} loading="lazy" className={className} />
+    </picture>
+  )
+}
@@ -1,162 +1,90 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { SearchIcon, FilterIcon } from "lucide-react"
 import StoryCard from "@/components/story-card"
+import StorySortFilters, { publishedWithinOf } from "@/components/story-sort-filters"
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll"
+import { useInfiniteStories } from "@/hooks/use-stories"
+import { useSearch } from "@/hooks/use-search"
+import { useTaxonomy } from "@/hooks/use-taxonomy"
+import { matchTerm } from "@/lib/domain"
+import { isPublishedWithin, sortStories, type StorySort } from "@/lib/rankings"
+import type { HighlightSegment } from "@/lib/search"
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </>
+  )
+}
 
 interface DiscoverViewProps {
   initialGenre?: string
 }
 
 export default function DiscoverView({ initialGenre }: DiscoverViewProps) {
+  const router = useRouter()
   const [searchTerm, setSearchTerm] = useState("")
-  const [selectedGenre, setSelectedGenre] = useState(initialGenre || "")
-  const [selectedPopularity, setSelectedPopularity] = useState("")
+  const { genres } = useTaxonomy()
+  // Holds a genre slug; older links may still carry a display name, which resolves once genres load
+  const [genreParam, setGenreParam] = useState(initialGenre || "")
+  const selectedGenre = (genreParam && matchTerm(genres, genreParam)?.slug) || genreParam
+  const [selectedPopularity, setSelectedPopularity] = useState<StorySort | "">("")
+  // "All Time" is a selectable option, so the label is tracked rather than the window
   const [selectedUploadDate, setSelectedUploadDate] = useState("")
-  const [storiesToShow, setStoriesToShow] = useState(8) // Initial number of stories to show
 
-  // Dummy data for stories (same as in app/page.tsx for consistency)
-  const allStories = [
-    {
-      title: "The Whispering Woods",
-      author: "Elara Vance",
-      readTime: "15 min",
-      imageUrl:
-        "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
-      content: `...`,
-      genre: "Fantasy",
-      popularity: "Trending",
-      uploadDate: "Today",
-    },
-    {
-      title: "Echoes of Starlight",
-      author: "Kaelen Thorne",
-      readTime: "20 min",
-      imageUrl:
-        "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
-      content: `...`,
-      genre: "Sci-Fi",
-      popularity: "Most Read",
-      uploadDate: "This Week",
-    },
-    {
-      title: "City of Forgotten Dreams",
-      author: "Seraphina Nightshade",
-      readTime: "10 min",
-      imageUrl:
-        "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
-      content: `...`,
-      genre: "Mystery",
-      popularity: "Top Rated",
-      uploadDate: "This Month",
-    },
-    {
-      title: "The Last Alchemist's Secret",
-      author: "Rowan Blackwood",
-      readTime: "25 min",
-      imageUrl:
-        "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
-      content: `...`,
-      genre: "Fantasy",
-      popularity: "Trending",
-      uploadDate: "All Time",
-    },
-    {
-      title: "Beneath the Crimson Sky",
-      author: "Lyra Dawn",
-      readTime: "12 min",
-      imageUrl:
-        "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
-      content: `...`,
-      genre: "Sci-Fi",
-      popularity: "Most Read",
-      uploadDate: "Today",
-    },
-    {
-      title: "Chronicles of the Azure Sea",
-      author: "Finnian Storm",
-      readTime: "18 min",
-      imageUrl:
-        "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
-      content: `...`,
-      genre: "Fantasy",
-      popularity: "Top Rated",
-      uploadDate: "This Week",
-    },
-    {
-      title: "The Dragon's Roar",
-      author: "Anya Sharma",
-      readTime: "30 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-      content: `...`,
-      genre: "Fantasy",
-      popularity: "Trending",
-      uploadDate: "This Month",
-    },
-    {
-      title: "Stars Beyond Reach",
-      author: "Zoe Chen",
-      readTime: "22 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-      content: `...`,
-      genre: "Sci-Fi",
-      popularity: "Most Read",
-      uploadDate: "All Time",
-    },
-    {
-      title: "Love in the Time of AI",
-      author: "Samira Khan",
-      readTime: "17 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-      content: `...`,
-      genre: "Romance",
-      popularity: "Trending",
-      uploadDate: "Today",
-    },
-    {
-      title: "The Silent Witness",
-      author: "David Lee",
-      readTime: "28 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-      content: `...`,
-      genre: "Thriller",
-      popularity: "Top Rated",
-      uploadDate: "This Week",
-    },
-  ]
+  const sort = selectedPopularity || undefined
+  const publishedWithin = publishedWithinOf(selectedUploadDate)
+  // The catalogue is filtered and ranked by the API; the genre filter matches the URL
+  const {
+    stories: allStories,
+    hasMore,
+    isLoading,
+    loadMore,
+  } = useInfiniteStories({ genre: selectedGenre || undefined, sort, publishedWithin })
 
-  // Update selectedGenre when initialGenre prop changes
+  // Follow ?genre= when it changes through links or the back button
   useEffect(() => {
-    if (initialGenre) {
-      setSelectedGenre(initialGenre)
-    }
+    setGenreParam(initialGenre || "")
   }, [initialGenre])
 
-  const availableGenres = ["Fantasy", "Sci-Fi", "Romance", "Thriller", "Mystery", "Horror", "Young Adult", "Historical"]
-  const popularityOptions = ["Trending", "Most Read", "Top Rated"]
-  const uploadDateOptions = ["Today", "This Week", "This Month", "All Time"]
-
-  // Dummy filtering logic
-  const filteredStories = allStories.filter((story) => {
-    const matchesGenre = selectedGenre ? story.genre === selectedGenre : true
-    const matchesPopularity = selectedPopularity ? story.popularity === selectedPopularity : true
-    const matchesUploadDate = selectedUploadDate ? story.uploadDate === selectedUploadDate : true
-    const matchesSearchTerm = searchTerm
-      ? story.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        story.author.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        story.genre.toLowerCase().includes(searchTerm.toLowerCase())
-      : true
-    return matchesGenre && matchesPopularity && matchesUploadDate && matchesSearchTerm
-  })
-
-  const displayedStories = filteredStories.slice(0, storiesToShow)
+  // Keep the selected genre in the URL so filtered views can be shared and bookmarked
+  const selectGenre = (genre: string) => {
+    setGenreParam(genre)
+    router.replace(genre ? `/discover?genre=${genre}` : "/discover", { scroll: false })
+  }
 
-  const handleLoadMore = () => {
-    setStoriesToShow((prev) => prev + 8) // Load 8 more stories
+  // A search replaces the catalogue with matches in relevance order; the same filters and sorts
+  // are applied to them locally
+  const { results, isSearching } = useSearch(searchTerm)
+  const isSearchActive = searchTerm.trim() !== ""
+  const snippets = new Map(results.map((result) => [result.story.id, result.snippet]))
+  let filteredStories = allStories
+  if (isSearchActive) {
+    filteredStories = results
+      .map((result) => result.story)
+      .filter((story) => !selectedGenre || story.genre === selectedGenre)
+      .filter((story) => !publishedWithin || isPublishedWithin(story, publishedWithin))
+    if (sort) filteredStories = sortStories(filteredStories, sort)
   }
 
+  // Fetch the next page of the catalogue when the end of the grid scrolls into view
+  const canLoadMore = !isSearchActive && hasMore
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(canLoadMore, loadMore)
+
   return (
     <div className="container mx-auto py-8 px-4 md:px-8 max-w-5xl">
       <div className="space-y-8">
@@ -171,7 +99,7 @@ export default function DiscoverView({ initialGenre }: DiscoverViewProps) {
             <SearchIcon className="absolute left-7 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
             <input
               type="search"
-              placeholder="Search by title, author, genre, or tags..."
+              placeholder="Search titles, authors, tags and story text..."
               className="w-full pl-10 pr-3 py-3 rounded-full border border-input bg-background shadow-md focus:outline-none focus:ring-2 focus:ring-primary transition-all"
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
@@ -195,63 +123,29 @@ export default function DiscoverView({ initialGenre }: DiscoverViewProps) {
               <div>
                 <h4 className="font-semibold mb-2 text-foreground">Genres</h4>
                 <div className="flex flex-wrap gap-2">
-                  {availableGenres.map((genre) => (
-                    <Button
-                      key={genre}
-                      variant={selectedGenre === genre ? "default" : "outline"}
-                      size="sm"
-                      onClick={() => setSelectedGenre(selectedGenre === genre ? "" : genre)}
-                      className={
-                        selectedGenre === genre
-                          ? "bg-primary text-primary-foreground hover:bg-primary/90 rounded-full"
-                          : "rounded-full bg-transparent border-border text-foreground hover:bg-muted"
-                      }
-                    >
-                      {genre}
-                    </Button>
-                  ))}
-                </div>
-              </div>
-              <div>
-                <h4 className="font-semibold mb-2 text-foreground">Popularity</h4>
-                <div className="flex flex-wrap gap-2">
-                  {popularityOptions.map((pop) => (
-                    <Button
-                      key={pop}
-                      variant={selectedPopularity === pop ? "default" : "outline"}
-                      size="sm"
-                      onClick={() => setSelectedPopularity(selectedPopularity === pop ? "" : pop)}
-                      className={
-                        selectedPopularity === pop
-                          ? "bg-primary text-primary-foreground hover:bg-primary/90 rounded-full"
-                          : "rounded-full bg-transparent border-border text-foreground hover:bg-muted"
-                      }
-                    >
-                      {pop}
-                    </Button>
-                  ))}
-                </div>
-              </div>
-              <div>
-                <h4 className="font-semibold mb-2 text-foreground">Upload Date</h4>
-                <div className="flex flex-wrap gap-2">
-                  {uploadDateOptions.map((date) => (
+                  {genres.map(({ slug, name }) => (
                     <Button
-                      key={date}
-                      variant={selectedUploadDate === date ? "default" : "outline"}
+                      key={slug}
+                      variant={selectedGenre === slug ? "default" : "outline"}
                       size="sm"
-                      onClick={() => setSelectedUploadDate(selectedUploadDate === date ? "" : date)}
+                      onClick={() => selectGenre(selectedGenre === slug ? "" : slug)}
                       className={
-                        selectedUploadDate === date
+                        selectedGenre === slug
                           ? "bg-primary text-primary-foreground hover:bg-primary/90 rounded-full"
                           : "rounded-full bg-transparent border-border text-foreground hover:bg-muted"
                       }
                     >
-                      {date}
+                      {name}
                     </Button>
                   ))}
                 </div>
               </div>
+              <StorySortFilters
+                popularity={selectedPopularity}
+                onPopularityChange={setSelectedPopularity}
+                uploadDate={selectedUploadDate}
+                onUploadDateChange={setSelectedUploadDate}
+              />
             </CardContent>
           </Card>
         </section>
@@ -264,22 +158,29 @@ export default function DiscoverView({ initialGenre }: DiscoverViewProps) {
               : "All Stories"}
           </h3>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {displayedStories.length > 0 ? (
-              displayedStories.map((story, index) => <StoryCard key={index} {...story} />)
+            {filteredStories.length > 0 ? (
+              filteredStories.map((story) => {
+                const snippet = snippets.get(story.id)
+                return (
+                  <div key={story.id} className="space-y-2">
+                    <StoryCard {...story} />
+                    {isSearchActive && snippet && snippet.length > 0 && (
+                      <p className="text-sm text-muted-foreground line-clamp-3">
+                        <Highlighted segments={snippet} />
+                      </p>
+                    )}
+                  </div>
+                )
+              })
             ) : (
               <p className="text-muted-foreground col-span-full text-center py-8">
-                No stories found for the current selection.
+                {isSearching || isLoading ? "Searching..." : "No stories found for the current selection."}
               </p>
             )}
           </div>
-          {filteredStories.length > storiesToShow && (
-            <div className="text-center mt-8">
-              <Button
-                onClick={handleLoadMore}
-                className="rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground"
-              >
-                Load More Stories
-              </Button>
+          {canLoadMore && (
+            <div ref={sentinelRef} className="min-h-8 text-center text-muted-foreground mt-8">
+              {isLoading ? "Loading more stories..." : null}
             </div>
           )}
         </section>
@@ -0,0 +1,78 @@
+"use client"
+
+import { Fragment } from "react"
+import { DownloadIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { Story } from "@/lib/domain"
+import type { ExportFormat } from "@/lib/export"
+import { exportHref } from "@/lib/routes"
+import { cn } from "@/lib/utils"
+
+interface DownloadMenuProps {
+  story: Story
+  // The episode being read
+  episodeNumber: number
+  // Episodes the viewer can read; a one-episode story offers only the whole story
+  episodeCount: number
+  canEdit?: boolean
+  className?: string
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "epub", label: "EPUB (e-readers)" },
+  { format: "pdf", label: "PDF (print)" },
+]
+
+// Download button offering the episode or the whole series as EPUB or PDF. Shown to the story's editors,
+// and to readers when the author allows downloads.
+export default function DownloadMenu({
+  story,
+  episodeNumber,
+  episodeCount,
+  canEdit = false,
+  className,
+}: DownloadMenuProps) {
+  if (!canEdit && !story.allowDownloads) return null
+
+  const groups =
+    episodeCount > 1
+      ? [
+          { label: "This episode", episode: episodeNumber },
+          { label: "Whole series", episode: undefined },
+        ]
+      : [{ label: "Download", episode: undefined }]
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className={cn("rounded-full", className)}>
+          <DownloadIcon className="h-5 w-5" />
+          <span className="sr-only">Download</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        {groups.map(({ label, episode }, i) => (
+          <Fragment key={label}>
+            {i > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{label}</DropdownMenuLabel>
+            {FORMATS.map(({ format, label }) => (
+              <DropdownMenuItem key={format} asChild>
+                <a href={exportHref(story.id, format, episode)} download>
+                  {label}
+                </a>
+              </DropdownMenuItem>
+            ))}
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
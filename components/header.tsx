@@ -1,72 +1,72 @@
 "use client"
 
 import Link from "next/link"
+import { usePathname, useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
-// Removed SunIcon, MoonIcon imports
-// Removed useTheme import
+import { useSession } from "@/hooks/use-session"
+import { isActiveRoute } from "@/lib/routes"
 
-interface HeaderProps {
-  isAuthenticated: boolean
-  onLoginClick: () => void
-  onNavigate: (page: string) => void
-  currentPage: string // Added to highlight active link
-}
-
-export default function Header({ isAuthenticated, onLoginClick, onNavigate, currentPage }: HeaderProps) {
-  // Removed useTheme state and useEffect for mounting
-  // const { theme, setTheme } = useTheme()
-  // const [isMounted, setIsMounted] = useState(false)
-  // useEffect(() => { setIsMounted(true) }, [])
-  // if (!isMounted) { return null }
+export default function Header() {
+  const pathname = usePathname()
+  const router = useRouter()
+  const { user, logout } = useSession()
 
-  const navLinkClass = (page: string) =>
-    `text-foreground hover:text-primary ${currentPage === page ? "font-bold text-primary" : ""}`
+  const navLinkClass = (href: string) =>
+    `text-foreground hover:text-primary ${isActiveRoute(pathname, href) ? "font-bold text-primary" : ""}`
 
   return (
     <header className="flex items-center justify-between p-4 md:px-8 border-b border-border bg-background">
       <h1 className="text-2xl font-serif font-bold text-primary">
-        <Link href="#" onClick={() => onNavigate("home")}>
-          Sunega Novel
-        </Link>
+        <Link href="/">Sunega Novel</Link>
       </h1>
       <nav className="hidden md:flex items-center gap-6">
-        <Button variant="link" onClick={() => onNavigate("home")} className={navLinkClass("home")}>
-          Home
+        <Button variant="link" asChild className={navLinkClass("/")}>
+          <Link href="/">Home</Link>
         </Button>
-        <Button variant="link" onClick={() => onNavigate("discover")} className={navLinkClass("discover")}>
-          Discover
+        <Button variant="link" asChild className={navLinkClass("/discover")}>
+          <Link href="/discover">Discover</Link>
         </Button>
-        {isAuthenticated && (
+        {user && (
           <>
-            <Button variant="link" onClick={() => onNavigate("library")} className={navLinkClass("library")}>
-              Library
+            <Button variant="link" asChild className={navLinkClass("/library")}>
+              <Link href="/library">Library</Link>
             </Button>
-            <Button
-              variant="link"
-              onClick={() => onNavigate("notifications")}
-              className={navLinkClass("notifications")}
-            >
-              Notifications
+            <Button variant="link" asChild className={navLinkClass("/notifications")}>
+              <Link href="/notifications">Notifications</Link>
+            </Button>
+            <Button variant="link" asChild className={navLinkClass("/write")}>
+              <Link href="/write">Write</Link>
             </Button>
           </>
         )}
       </nav>
       <div className="flex items-center gap-4">
-        {/* Removed theme toggle button */}
-        {isAuthenticated ? (
-          <Button
-            variant="outline"
-            className="rounded-lg hidden md:inline-flex bg-transparent border-border text-foreground hover:bg-muted"
-            onClick={() => onNavigate("profile")}
-          >
-            Profile
-          </Button>
+        {user ? (
+          <>
+            <Button
+              variant="outline"
+              asChild
+              className="rounded-lg hidden md:inline-flex bg-transparent border-border text-foreground hover:bg-muted"
+            >
+              <Link href={`/u/${user.username}`}>Profile</Link>
+            </Button>
+            <Button
+              variant="ghost"
+              className="rounded-lg hidden md:inline-flex text-muted-foreground hover:bg-muted"
+              onClick={async () => {
+                await logout()
+                router.push("/")
+              }}
+            >
+              Logout
+            </Button>
+          </>
         ) : (
           <Button
-            onClick={onLoginClick}
+            asChild
             className="rounded-lg hidden md:inline-flex bg-primary hover:bg-primary/90 text-primary-foreground"
           >
-            Login
+            <Link href={`/login?next=${encodeURIComponent(pathname)}`}>Login</Link>
           </Button>
         )}
       </div>
@@ -0,0 +1,376 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import {
+  ChevronDownIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ChevronUpIcon,
+  MessageSquareIcon,
+  PauseIcon,
+  PencilIcon,
+  PlayIcon,
+  RotateCcwIcon,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import CommentSection from "@/components/comment-section"
+import DownloadMenu from "@/components/download-menu"
+import LikeButton from "@/components/like-button"
+import ShelfMenu from "@/components/shelf-menu"
+import StarRating from "@/components/star-rating"
+import StoryPanel from "@/components/story-panel"
+import type { EpisodeSummary } from "@/components/story-reader"
+import { useRecordView } from "@/hooks/use-record-view"
+import { useSession } from "@/hooks/use-session"
+import { blockFromHash, useVisibleBlocks } from "@/hooks/use-visible-blocks"
+import { progressApi } from "@/lib/api"
+import type { Episode, ReadingProgress, Story } from "@/lib/domain"
+import { readerHref, writeHref } from "@/lib/routes"
+import { panelReadingMs } from "@/lib/text"
+
+interface ImageStoryReaderProps {
+  story: Story
+  // An episode with panels
+  episode: Episode
+  // Table of contents, in reading order
+  episodes: EpisodeSummary[]
+  canEdit?: boolean
+  // Where the signed-in reader stopped in this episode last time; `paragraph` is the panel index
+  savedProgress?: ReadingProgress | null
+}
+
+const AUTOPLAY_KEY = "reader:autoplay"
+
+const episodeLabel = ({ number, title }: Pick<Episode, "number" | "title">) =>
+  title ? `Episode ${number}: ${title}` : `Episode ${number}`
+
+// Image stories read one full-screen panel at a time. Panels snap into place as the reader scrolls or swipes
+// vertically, or steps with the arrow keys; autoplay moves on by itself. The last panel is followed by an
+// end screen, never by the first panel again.
+export default function ImageStoryReader({
+  story,
+  episode,
+  episodes,
+  canEdit = false,
+  savedProgress = null,
+}: ImageStoryReaderProps) {
+  const router = useRouter()
+  const { user } = useSession()
+  const panels = episode.storyContent
+  // The end screen sits after the panels, at index panels.length
+  const endIndex = panels.length
+  const [autoplay, setAutoplay] = useState(false)
+  const [resumeAt, setResumeAt] = useState(
+    savedProgress && savedProgress.percent < 100 && savedProgress.paragraph > 0 ? savedProgress.paragraph : null,
+  )
+  const scrollerRef = useRef<HTMLDivElement>(null)
+  const sections = useRef<(HTMLElement | null)[]>([])
+  // The panel filling most of the screen is the current one, however the reader got there
+  const index = useVisibleBlocks(scrollerRef, episode.id, { asRoot: true, threshold: 0.6 })?.first ?? 0
+  // Fill of the current panel's progress segment, moved every frame during autoplay without re-rendering
+  const fillRef = useRef<HTMLDivElement>(null)
+  // Opening an episode must not overwrite saved progress; only moving through it counts as reading
+  const hasMoved = useRef(false)
+
+  useRecordView(story)
+
+  const goTo = (target: number, behavior: ScrollBehavior = "smooth") => {
+    const next = Math.max(0, Math.min(target, endIndex))
+    hasMoved.current = true
+    sections.current[next]?.scrollIntoView({ behavior, block: "start" })
+  }
+
+  // Swiping or scrolling through the panels counts as moving too, not just the keys and buttons above
+  useEffect(() => {
+    const scroller = scrollerRef.current
+    if (!scroller) return
+    const markMoved = () => {
+      hasMoved.current = true
+    }
+    scroller.addEventListener("scroll", markMoved, { once: true, passive: true })
+    return () => scroller.removeEventListener("scroll", markMoved)
+  }, [episode.id])
+
+  useEffect(() => {
+    setAutoplay(localStorage.getItem(AUTOPLAY_KEY) === "on")
+    // Resume links point at #p-<panel>
+    const panel = blockFromHash()
+    if (panel !== null) {
+      sections.current[Math.min(panel, endIndex)]?.scrollIntoView({ block: "start" })
+      setResumeAt(null)
+    }
+  }, [endIndex])
+
+  useEffect(() => {
+    if (index > 0) setResumeAt(null)
+  }, [index])
+
+  useEffect(() => {
+    if (!autoplay || index >= endIndex) return
+    // Autoplay keeps the pace behind the story's estimated reading time
+    const duration = panelReadingMs(panels[index])
+    let elapsed = 0
+    let last = performance.now()
+    let frame = requestAnimationFrame(function tick(now) {
+      // A hidden tab gets no frames; capping the step keeps the panel from skipping ahead when it comes back
+      elapsed += Math.min(now - last, 100)
+      last = now
+      if (fillRef.current) fillRef.current.style.width = `${Math.min(elapsed / duration, 1) * 100}%`
+      if (elapsed >= duration) {
+        goTo(index + 1)
+        return
+      }
+      frame = requestAnimationFrame(tick)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [autoplay, index, panels])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave keys alone where they already mean something, like Space on a focused button
+      const target = e.target as HTMLElement
+      if (e.defaultPrevented || target.isContentEditable) return
+      if (/^(INPUT|TEXTAREA|SELECT|BUTTON|A)$/.test(target.tagName)) return
+      const targets: Record<string, number> = {
+        ArrowDown: index + 1,
+        PageDown: index + 1,
+        " ": index + 1,
+        ArrowUp: index - 1,
+        PageUp: index - 1,
+        Home: 0,
+        End: endIndex,
+      }
+      if (!(e.key in targets)) return
+      e.preventDefault()
+      goTo(targets[e.key])
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [index, endIndex])
+
+  // Persist the panel once the reader settles on it
+  useEffect(() => {
+    if (!user || !hasMoved.current || panels.length === 0) return
+    const timer = setTimeout(() => {
+      progressApi
+        .save(story.id, {
+          episodeNumber: episode.number,
+          paragraph: Math.min(index, panels.length - 1),
+          percent: Math.round((Math.min(index + 1, panels.length) / panels.length) * 100),
+        })
+        .catch(() => undefined) // Progress is best-effort; reading carries on either way
+    }, 1000)
+    return () => clearTimeout(timer)
+  }, [user, story.id, episode.number, index, panels.length])
+
+  const toggleAutoplay = () => {
+    localStorage.setItem(AUTOPLAY_KEY, autoplay ? "off" : "on")
+    setAutoplay(!autoplay)
+  }
+
+  const exit = () => {
+    if (window.history.length > 1) router.back()
+    else router.push("/")
+  }
+
+  const episodeIndex = episodes.findIndex((entry) => entry.number === episode.number)
+  const previousEpisode = episodeIndex > 0 ? episodes[episodeIndex - 1] : null
+  const nextEpisode = episodeIndex >= 0 && episodeIndex < episodes.length - 1 ? episodes[episodeIndex + 1] : null
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black text-white">
+      <div className="absolute inset-x-0 top-0 z-10 space-y-2 bg-gradient-to-b from-black/70 to-transparent p-2 pb-6">
+        <div
+          className="flex gap-1"
+          role="progressbar"
+          aria-label="Panels read"
+          aria-valuemin={0}
+          aria-valuemax={panels.length}
+          aria-valuenow={Math.min(index + 1, panels.length)}
+        >
+          {panels.map((panel, i) => (
+            <div key={panel.id} className="h-1 flex-1 overflow-hidden rounded-full bg-white/30">
+              <div
+                ref={i === index ? fillRef : undefined}
+                className="h-full bg-white"
+                style={{ width: i < index || (i === index && !autoplay) ? "100%" : "0%" }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 rounded-full text-white hover:bg-white/20 hover:text-white"
+            onClick={exit}
+          >
+            <ChevronLeftIcon className="h-5 w-5" />
+            <span className="sr-only">Close reader</span>
+          </Button>
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-semibold">{story.title}</p>
+            <p className="truncate text-xs text-white/70">{episodeLabel(episode)}</p>
+          </div>
+          {canEdit && (
+            <Button
+              asChild
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 rounded-full text-white hover:bg-white/20 hover:text-white"
+            >
+              <Link href={writeHref(story.id, episode.number)}>
+                <PencilIcon className="h-4 w-4" />
+                <span className="sr-only">Edit episode</span>
+              </Link>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            aria-pressed={autoplay}
+            className="rounded-full text-white hover:bg-white/20 hover:text-white"
+            onClick={toggleAutoplay}
+          >
+            {autoplay ? <PauseIcon className="h-4 w-4 mr-1" /> : <PlayIcon className="h-4 w-4 mr-1" />}
+            Autoplay
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollerRef}
+        className="h-full snap-y snap-mandatory overflow-y-auto overscroll-contain"
+        style={{ scrollbarWidth: "none" }}
+      >
+        {panels.map((panel, i) => (
+          <section
+            key={panel.id}
+            ref={(element) => {
+              sections.current[i] = element
+            }}
+            data-block={i}
+            aria-label={`Panel ${i + 1} of ${panels.length}`}
+            className="flex h-full snap-start snap-always items-center justify-center"
+          >
+            {panel.type === "image" ? (
+              <div className="max-h-full w-full max-w-md overflow-y-auto">
+                <StoryPanel panel={panel} alt={`Panel ${i + 1}`} />
+              </div>
+            ) : (
+              <p className="max-w-md whitespace-pre-wrap p-8 text-center text-lg leading-relaxed">{panel.content}</p>
+            )}
+          </section>
+        ))}
+
+        <section
+          ref={(element) => {
+            sections.current[endIndex] = element
+          }}
+          data-block={endIndex}
+          aria-label="End of episode"
+          className="flex h-full snap-start snap-always items-center justify-center bg-background p-6 text-foreground"
+        >
+          <div className="w-full max-w-sm space-y-6 text-center">
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">End of {episodeLabel(episode)}</p>
+              <h2 className="text-3xl font-serif font-bold text-primary">{story.title}</h2>
+              <p className="text-muted-foreground">By {story.author}</p>
+            </div>
+            {nextEpisode ? (
+              <Button asChild className="w-full rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground">
+                <Link href={readerHref(story.id, nextEpisode.number)}>
+                  Next: {episodeLabel(nextEpisode)}
+                  <ChevronRightIcon className="h-4 w-4 ml-2" />
+                </Link>
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground">You&apos;re all caught up.</p>
+            )}
+            <div className="flex items-center justify-center gap-2">
+              <LikeButton story={story} />
+              {story.status === "published" && episode.status === "published" && (
+                <Sheet>
+                  <SheetTrigger asChild>
+                    <Button variant="outline" className="rounded-full bg-transparent">
+                      <MessageSquareIcon className="h-4 w-4 mr-2" />
+                      Comment
+                    </Button>
+                  </SheetTrigger>
+                  <SheetContent side="right" className="z-[60] w-full overflow-y-auto sm:max-w-md">
+                    <SheetHeader>
+                      <SheetTitle className="font-serif">{episodeLabel(episode)}</SheetTitle>
+                    </SheetHeader>
+                    <div className="py-4">
+                      <CommentSection story={story} episode={episode} canModerate={canEdit} />
+                    </div>
+                  </SheetContent>
+                </Sheet>
+              )}
+              <ShelfMenu storyId={story.id} className="rounded-full" />
+              <DownloadMenu
+                story={story}
+                episodeNumber={episode.number}
+                episodeCount={episodes.length}
+                canEdit={canEdit}
+              />
+            </div>
+            <StarRating story={story} />
+            <div className="flex justify-center gap-2">
+              {previousEpisode && (
+                <Button asChild variant="ghost" size="sm">
+                  <Link href={readerHref(story.id, previousEpisode.number)}>
+                    <ChevronLeftIcon className="h-4 w-4 mr-1" />
+                    Previous Episode
+                  </Link>
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => goTo(0)}>
+                <RotateCcwIcon className="h-4 w-4 mr-1" />
+                Read Again
+              </Button>
+            </div>
+          </div>
+        </section>
+      </div>
+
+      <div className="absolute right-4 top-1/2 z-10 hidden -translate-y-1/2 flex-col gap-2 md:flex">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full bg-black/50 text-white hover:bg-black/70 hover:text-white"
+          disabled={index === 0}
+          onClick={() => goTo(index - 1)}
+        >
+          <ChevronUpIcon className="h-5 w-5" />
+          <span className="sr-only">Previous panel</span>
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full bg-black/50 text-white hover:bg-black/70 hover:text-white"
+          disabled={index >= endIndex}
+          onClick={() => goTo(index + 1)}
+        >
+          <ChevronDownIcon className="h-5 w-5" />
+          <span className="sr-only">Next panel</span>
+        </Button>
+      </div>
+
+      {resumeAt !== null && (
+        <Button
+          className="absolute bottom-6 left-1/2 z-10 -translate-x-1/2 rounded-full shadow-lg"
+          onClick={() => {
+            goTo(resumeAt, "auto")
+            setResumeAt(null)
+          }}
+        >
+          Resume at panel {resumeAt + 1}
+        </Button>
+      )}
+    </div>
+  )
+}
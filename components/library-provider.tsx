@@ -0,0 +1,75 @@
+"use client"
+
+import * as React from "react"
+import { libraryApi } from "@/lib/api"
+import type { LibraryShelf } from "@/lib/library"
+import { useSession } from "@/hooks/use-session"
+
+export interface LibraryContextValue {
+  // Empty for visitors
+  shelves: LibraryShelf[]
+  isLoading: boolean
+  isOnShelf: (shelfId: string, storyId: string) => boolean
+  toggleStory: (shelfId: string, storyId: string) => Promise<void>
+  createShelf: (name: string) => Promise<void>
+  renameShelf: (shelfId: string, name: string) => Promise<void>
+  moveShelf: (shelfId: string, position: number) => Promise<void>
+  reorderShelf: (shelfId: string, storyIds: string[]) => Promise<void>
+  deleteShelf: (shelfId: string) => Promise<void>
+  refresh: () => Promise<void>
+}
+
+export const LibraryContext = React.createContext<LibraryContextValue | null>(null)
+
+// Shares one copy of the signed-in user's shelves between every bookmark button on the page
+export function LibraryProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useSession()
+  const [shelves, setShelves] = React.useState<LibraryShelf[]>([])
+  const [isLoading, setIsLoading] = React.useState(false)
+
+  const refresh = React.useCallback(async () => {
+    if (!user) {
+      setShelves([])
+      return
+    }
+    setIsLoading(true)
+    try {
+      setShelves(await libraryApi.list())
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user])
+
+  React.useEffect(() => {
+    refresh().catch(() => setShelves([]))
+  }, [refresh])
+
+  const value = React.useMemo<LibraryContextValue>(() => {
+    // Every change re-reads the library so shelves always match the server
+    const mutate =
+      <Args extends unknown[]>(action: (...args: Args) => Promise<unknown>) =>
+      async (...args: Args) => {
+        await action(...args)
+        await refresh()
+      }
+    const isOnShelf = (shelfId: string, storyId: string) =>
+      shelves.some((shelf) => shelf.id === shelfId && shelf.storyIds.includes(storyId))
+
+    return {
+      shelves,
+      isLoading,
+      isOnShelf,
+      toggleStory: mutate((shelfId: string, storyId: string) =>
+        isOnShelf(shelfId, storyId) ? libraryApi.removeStory(shelfId, storyId) : libraryApi.addStory(shelfId, storyId),
+      ),
+      createShelf: mutate((name: string) => libraryApi.createShelf({ name })),
+      renameShelf: mutate((shelfId: string, name: string) => libraryApi.updateShelf(shelfId, { name })),
+      moveShelf: mutate((shelfId: string, position: number) => libraryApi.updateShelf(shelfId, { position })),
+      reorderShelf: mutate((shelfId: string, storyIds: string[]) => libraryApi.updateShelf(shelfId, { storyIds })),
+      deleteShelf: mutate((shelfId: string) => libraryApi.removeShelf(shelfId)),
+      refresh,
+    }
+  }, [shelves, isLoading, refresh])
+
+  return <LibraryContext.Provider value={value}>{children}</LibraryContext.Provider>
+}
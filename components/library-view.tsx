@@ -1,61 +1,220 @@
 "use client"
 
+import { useState } from "react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import StoryCard from "@/components/story-card"
-import { BookmarkIcon, BookOpenIcon, CheckCircleIcon } from "lucide-react"
+import {
+  ArrowDownIcon,
+  ArrowLeftIcon,
+  ArrowRightIcon,
+  ArrowUpIcon,
+  BookmarkIcon,
+  BookOpenIcon,
+  CheckCircleIcon,
+  LibraryIcon,
+  PencilIcon,
+  Trash2Icon,
+  XIcon,
+} from "lucide-react"
 import { Progress } from "@/components/ui/progress"
+import { useToast } from "@/components/ui/use-toast"
+import { useLibrary } from "@/hooks/use-library"
+import { useReadingProgress } from "@/hooks/use-reading-progress"
+import type { LibraryShelf } from "@/lib/library"
+import { resumeHref } from "@/lib/routes"
 
-type LibraryViewProps = {}
-
-export default function LibraryView({}: LibraryViewProps) {
-  // Dummy data for library sections
-  const bookmarkedStories = [
-    {
-      title: "The Whispering Woods",
-      author: "Elara Vance",
-      readTime: "15 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-    },
-    {
-      title: "Echoes of Starlight",
-      author: "Kaelen Thorne",
-      readTime: "20 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-    },
-  ]
-
-  const inProgressStories = [
-    {
-      title: "City of Forgotten Dreams",
-      author: "Seraphina Nightshade",
-      readTime: "10 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-      progress: 60,
-    },
-    {
-      title: "The Last Alchemist's Secret",
-      author: "Rowan Blackwood",
-      readTime: "25 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-      progress: 30,
-    },
-  ]
-
-  const completedStories = [
-    {
-      title: "Beneath the Crimson Sky",
-      author: "Lyra Dawn",
-      readTime: "12 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-    },
-    {
-      title: "Chronicles of the Azure Sea",
-      author: "Finnian Storm",
-      readTime: "18 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-    },
-  ]
+// Surfaces failed library actions as a toast instead of an unhandled rejection
+function useLibraryAction() {
+  const { toast } = useToast()
+  return (action: () => Promise<void>) =>
+    action().catch((error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }))
+}
+
+interface ShelfGridProps {
+  shelf: LibraryShelf | undefined
+  emptyMessage: string
+}
+
+// A shelf's stories with controls to reorder them or take them off the shelf
+function ShelfGrid({ shelf, emptyMessage }: ShelfGridProps) {
+  const { reorderShelf, toggleStory } = useLibrary()
+  const run = useLibraryAction()
+
+  if (!shelf || shelf.stories.length === 0) {
+    return <p className="text-muted-foreground text-center py-8">{emptyMessage}</p>
+  }
+
+  const move = (index: number, offset: number) => {
+    const storyIds = shelf.stories.map((story) => story.id)
+    const [storyId] = storyIds.splice(index, 1)
+    storyIds.splice(index + offset, 0, storyId)
+    // Hidden stories are not displayed but keep their place at the end of the shelf
+    const hidden = shelf.storyIds.filter((id) => !storyIds.includes(id))
+    run(() => reorderShelf(shelf.id, [...storyIds, ...hidden]))
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+      {shelf.stories.map((story, index) => (
+        <div key={story.id} className="space-y-2">
+          <StoryCard {...story} />
+          <div className="flex justify-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={index === 0}
+              onClick={() => move(index, -1)}
+              className="rounded-full"
+            >
+              <ArrowLeftIcon className="h-4 w-4" />
+              <span className="sr-only">Move earlier</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={index === shelf.stories.length - 1}
+              onClick={() => move(index, 1)}
+              className="rounded-full"
+            >
+              <ArrowRightIcon className="h-4 w-4" />
+              <span className="sr-only">Move later</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => run(() => toggleStory(shelf.id, story.id))}
+              className="rounded-full text-muted-foreground hover:text-destructive"
+            >
+              <XIcon className="h-4 w-4" />
+              <span className="sr-only">Remove from {shelf.name}</span>
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function CustomShelves({ shelves }: { shelves: LibraryShelf[] }) {
+  const { createShelf, renameShelf, moveShelf, deleteShelf } = useLibrary()
+  const run = useLibraryAction()
+  const [newName, setNewName] = useState("")
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null)
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newName.trim()) return
+    run(async () => {
+      await createShelf(newName.trim())
+      setNewName("")
+    })
+  }
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing?.name.trim()) return
+    run(async () => {
+      await renameShelf(editing.id, editing.name.trim())
+      setEditing(null)
+    })
+  }
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={handleCreate} className="flex gap-2 max-w-md">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder='New shelf, e.g. "Summer reads"'
+          maxLength={40}
+          className="rounded-lg"
+        />
+        <Button type="submit" className="rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground">
+          Create
+        </Button>
+      </form>
+
+      {shelves.length === 0 && (
+        <p className="text-muted-foreground text-center py-8">Create a shelf to group stories your own way.</p>
+      )}
+
+      {shelves.map((shelf, index) => (
+        <section key={shelf.id} className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            {editing?.id === shelf.id ? (
+              <form onSubmit={handleRename} className="flex gap-2 flex-1 max-w-md">
+                <Input
+                  autoFocus
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  maxLength={40}
+                  className="rounded-lg"
+                />
+                <Button type="submit" size="sm" className="rounded-lg">
+                  Save
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+              </form>
+            ) : (
+              <h3 className="text-2xl font-serif font-semibold text-foreground">{shelf.name}</h3>
+            )}
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={index === 0}
+                onClick={() => run(() => moveShelf(shelf.id, index - 1))}
+              >
+                <ArrowUpIcon className="h-4 w-4" />
+                <span className="sr-only">Move shelf up</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={index === shelves.length - 1}
+                onClick={() => run(() => moveShelf(shelf.id, index + 1))}
+              >
+                <ArrowDownIcon className="h-4 w-4" />
+                <span className="sr-only">Move shelf down</span>
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setEditing({ id: shelf.id, name: shelf.name })}>
+                <PencilIcon className="h-4 w-4" />
+                <span className="sr-only">Rename shelf</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-destructive"
+                onClick={() => run(() => deleteShelf(shelf.id))}
+              >
+                <Trash2Icon className="h-4 w-4" />
+                <span className="sr-only">Delete shelf</span>
+              </Button>
+            </div>
+          </div>
+          <ShelfGrid shelf={shelf} emptyMessage="Add stories with the bookmark button on any story." />
+        </section>
+      ))}
+    </div>
+  )
+}
+
+export default function LibraryView() {
+  const { shelves } = useLibrary()
+  const bookmarks = shelves.find((shelf) => shelf.kind === "bookmarks")
+  const completed = shelves.find((shelf) => shelf.kind === "completed")
+  const customShelves = shelves.filter((shelf) => shelf.kind === "custom")
+
+  const inProgressStories = useReadingProgress().entries.map(({ story, progress, percent }) => ({
+    ...story,
+    progress: percent,
+    href: resumeHref(progress),
+  }))
 
   return (
     <div className="container mx-auto py-8 px-4 md:px-8 max-w-5xl">
@@ -64,7 +223,7 @@ export default function LibraryView({}: LibraryViewProps) {
           <h2 className="text-3xl font-serif font-bold text-primary mb-6">My Library</h2>
 
           <Tabs defaultValue="in-progress" className="w-full">
-            <TabsList className="grid w-full grid-cols-3 rounded-lg bg-muted/50 p-1 mb-6">
+            <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 h-auto rounded-lg bg-muted/50 p-1 mb-6">
               <TabsTrigger
                 value="in-progress"
                 className="rounded-md data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
@@ -83,14 +242,20 @@ export default function LibraryView({}: LibraryViewProps) {
               >
                 <CheckCircleIcon className="h-4 w-4 mr-2" /> Completed
               </TabsTrigger>
+              <TabsTrigger
+                value="shelves"
+                className="rounded-md data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+              >
+                <LibraryIcon className="h-4 w-4 mr-2" /> My Shelves
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="in-progress" className="mt-4">
               <h3 className="text-2xl font-serif font-semibold mb-4 text-foreground">Currently Reading</h3>
               {inProgressStories.length > 0 ? (
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {inProgressStories.map((story, index) => (
-                    <div key={index} className="relative">
+                  {inProgressStories.map((story) => (
+                    <div key={story.id} className="relative">
                       <StoryCard {...story} />
                       <div className="absolute bottom-0 left-0 right-0 p-2 bg-card/80 backdrop-blur-sm rounded-b-xl">
                         <Progress value={story.progress} className="h-2 bg-muted" indicatorColor="bg-primary" />
@@ -106,32 +271,16 @@ export default function LibraryView({}: LibraryViewProps) {
 
             <TabsContent value="bookmarked" className="mt-4">
               <h3 className="text-2xl font-serif font-semibold mb-4 text-foreground">Bookmarked Stories</h3>
-              {bookmarkedStories.length > 0 ? (
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {bookmarkedStories.map((story, index) => (
-                    <StoryCard key={index} {...story} />
-                  ))}
-                </div>
-              ) : (
-                <p className="text-muted-foreground text-center py-8">
-                  No bookmarked stories yet. Discover something new!
-                </p>
-              )}
+              <ShelfGrid shelf={bookmarks} emptyMessage="No bookmarked stories yet. Discover something new!" />
             </TabsContent>
 
             <TabsContent value="completed" className="mt-4">
               <h3 className="text-2xl font-serif font-semibold mb-4 text-foreground">Completed Reads</h3>
-              {completedStories.length > 0 ? (
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {completedStories.map((story, index) => (
-                    <StoryCard key={index} {...story} />
-                  ))}
-                </div>
-              ) : (
-                <p className="text-muted-foreground text-center py-8">
-                  You haven't completed any stories yet. Keep reading!
-                </p>
-              )}
+              <ShelfGrid shelf={completed} emptyMessage="You haven't completed any stories yet. Keep reading!" />
+            </TabsContent>
+
+            <TabsContent value="shelves" className="mt-4">
+              <CustomShelves shelves={customShelves} />
             </TabsContent>
           </Tabs>
         </CardContent>
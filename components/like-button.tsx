@@ -0,0 +1,61 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { HeartIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/components/ui/use-toast"
+import { useSession } from "@/hooks/use-session"
+import { storiesApi } from "@/lib/api"
+import type { Story } from "@/lib/domain"
+import { cn } from "@/lib/utils"
+
+interface LikeButtonProps {
+  story: Story
+  className?: string
+}
+
+// A story's like count, which signed-in readers other than its author can toggle
+export default function LikeButton({ story, className }: LikeButtonProps) {
+  const { user } = useSession()
+  const { toast } = useToast()
+  const [likes, setLikes] = useState(story.likes)
+  const [liked, setLiked] = useState(false)
+  const canLike = Boolean(user && user.id !== story.authorId)
+
+  useEffect(() => {
+    if (!canLike) return
+    storiesApi.like
+      .get(story.id)
+      .then(setLiked)
+      .catch(() => undefined)
+  }, [canLike, story.id])
+
+  const toggle = async () => {
+    const previous = { liked, likes }
+    setLiked(!liked)
+    setLikes(likes + (liked ? -1 : 1))
+    try {
+      const result = await storiesApi.like.set(story.id, { liked: !liked })
+      setLikes(result.likes)
+    } catch (error) {
+      setLiked(previous.liked)
+      setLikes(previous.likes)
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      disabled={!canLike}
+      aria-pressed={liked}
+      onClick={toggle}
+      className={cn("rounded-full bg-transparent", className)}
+    >
+      <HeartIcon className={cn("h-4 w-4 mr-2", liked && "fill-red-500 text-red-500")} />
+      {likes.toLocaleString()}
+      <span className="sr-only">{liked ? "Unlike story" : "Like story"}</span>
+    </Button>
+  )
+}
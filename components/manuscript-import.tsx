@@ -0,0 +1,201 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDownIcon, ChevronUpIcon, FileUpIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { useToast } from "@/components/ui/use-toast"
+import RichText from "@/components/rich-text"
+import { manuscriptsApi } from "@/lib/api"
+import type { ImportedEpisode, Manuscript } from "@/lib/manuscript"
+import { stripMarkup } from "@/lib/rich-text"
+import { cn } from "@/lib/utils"
+
+export interface ManuscriptImportProps {
+  // Creates the kept episodes as drafts, in order; the dialog stays open if this throws
+  onImport: (manuscript: { title: string; episodes: Pick<ImportedEpisode, "title" | "content">[] }) => Promise<void>
+}
+
+// Picks a manuscript file, shows the episodes found in it and creates the ones the author keeps as drafts
+export default function ManuscriptImport({ onImport }: ManuscriptImportProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [manuscript, setManuscript] = useState<Manuscript | null>(null)
+  // Per episode, in file order
+  const [titles, setTitles] = useState<string[]>([])
+  const [kept, setKept] = useState<boolean[]>([])
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+
+  const reset = () => {
+    setManuscript(null)
+    setExpanded(null)
+    setUploadProgress(null)
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setUploadProgress(0)
+    try {
+      const parsed = await manuscriptsApi.parse(file, setUploadProgress)
+      setManuscript(parsed)
+      setTitles(parsed.episodes.map((episode) => episode.title))
+      setKept(parsed.episodes.map(() => true))
+    } catch (error) {
+      toast({ title: "Import Failed", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setUploadProgress(null)
+    }
+  }
+
+  const keptCount = kept.filter(Boolean).length
+
+  const handleCreate = async () => {
+    if (!manuscript) return
+    setIsCreating(true)
+    try {
+      await onImport({
+        title: manuscript.title,
+        episodes: manuscript.episodes
+          .map((episode, i) => ({ title: titles[i].trim(), content: episode.content }))
+          .filter((_, i) => kept[i]),
+      })
+      toast({
+        title: "Manuscript Imported!",
+        description: `${keptCount} draft episode${keptCount === 1 ? "" : "s"} created.`,
+      })
+      setOpen(false)
+      reset()
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (isCreating) return
+        setOpen(next)
+        if (!next) reset()
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileUpIcon className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Manuscript</DialogTitle>
+          <DialogDescription>
+            {manuscript
+              ? `${manuscript.episodes.length} episode${manuscript.episodes.length === 1 ? "" : "s"} found in ` +
+                `"${manuscript.title}". Untick any you do not want, then create them as drafts.`
+              : "Markdown, plain text or Word (.docx). Chapter headings start new episodes; bold, italics " +
+                "and scene breaks are kept."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!manuscript ? (
+          <label
+            className={cn(
+              "flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg py-10",
+              "cursor-pointer text-muted-foreground hover:border-primary",
+            )}
+          >
+            <FileUpIcon className="h-8 w-8" />
+            {uploadProgress === null ? (
+              <span>Choose a .md, .txt or .docx file</span>
+            ) : (
+              <div className="w-48 space-y-1 text-center text-sm">
+                <span>Reading manuscript…</span>
+                <Progress value={uploadProgress * 100} className="h-1" />
+              </div>
+            )}
+            <input
+              type="file"
+              accept=".md,.markdown,.txt,.docx"
+              className="sr-only"
+              disabled={uploadProgress !== null}
+              onChange={(e) => {
+                handleFile(e.target.files?.[0])
+                e.target.value = ""
+              }}
+            />
+          </label>
+        ) : (
+          <ol className="space-y-2 overflow-y-auto min-h-0 pr-1">
+            {manuscript.episodes.map((episode, i) => (
+              <li key={i} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    checked={kept[i]}
+                    onCheckedChange={(checked) =>
+                      setKept((prev) => prev.map((value, j) => (j === i ? checked === true : value)))
+                    }
+                    aria-label={`Import episode ${i + 1}`}
+                  />
+                  <Input
+                    value={titles[i]}
+                    onChange={(e) => setTitles((prev) => prev.map((title, j) => (j === i ? e.target.value : title)))}
+                    placeholder={`Episode ${i + 1} (untitled)`}
+                    aria-label={`Title of episode ${i + 1}`}
+                    className="h-8"
+                  />
+                  <span className="shrink-0 text-sm text-muted-foreground tabular-nums">
+                    {episode.words.toLocaleString()} words
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    aria-expanded={expanded === i}
+                    onClick={() => setExpanded(expanded === i ? null : i)}
+                  >
+                    {expanded === i ? <ChevronUpIcon className="h-4 w-4" /> : <ChevronDownIcon className="h-4 w-4" />}
+                    <span className="sr-only">Preview episode {i + 1}</span>
+                  </Button>
+                </div>
+                {expanded === i ? (
+                  <div className="prose prose-sm max-w-none text-foreground max-h-64 overflow-y-auto border-t pt-2">
+                    <RichText content={episode.content} />
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground line-clamp-2">{stripMarkup(episode.content)}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <DialogFooter className="gap-2">
+          {manuscript && (
+            <Button type="button" variant="ghost" className="sm:mr-auto" disabled={isCreating} onClick={reset}>
+              Choose Another File
+            </Button>
+          )}
+          <Button type="button" disabled={!manuscript || keptCount === 0 || isCreating} onClick={handleCreate}>
+            {isCreating ? "Creating…" : `Create ${keptCount} Draft${keptCount === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,14 +3,10 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { BellIcon, BookOpenIcon, UserPlusIcon, MessageSquareIcon, StarIcon } from "lucide-react"
 import { Separator } from "@/components/ui/separator"
+import { formatDistanceToNow } from "date-fns"
+import type { Notification, NotificationType } from "@/lib/domain"
 
-interface Notification {
-  id: string
-  type: "new_story" | "follow" | "comment" | "like"
-  message: string
-  timestamp: string
-  read: boolean
-}
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString()
 
 export default function NotificationsView() {
   // Dummy notification data
@@ -19,40 +15,40 @@ export default function NotificationsView() {
       id: "n1",
       type: "new_story",
       message: "New story 'The Whispering Woods' by Elara Vance is out!",
-      timestamp: "2 hours ago",
       read: false,
+      createdAt: hoursAgo(2),
     },
     {
       id: "n2",
       type: "follow",
       message: "Kaelen Thorne started following you.",
-      timestamp: "5 hours ago",
       read: false,
+      createdAt: hoursAgo(5),
     },
     {
       id: "n3",
       type: "comment",
       message: "Seraphina Nightshade commented on 'City of Forgotten Dreams'.",
-      timestamp: "1 day ago",
       read: true,
+      createdAt: hoursAgo(24),
     },
     {
       id: "n4",
       type: "like",
       message: "Your story 'The Last Alchemist's Secret' received 10 new likes!",
-      timestamp: "2 days ago",
       read: true,
+      createdAt: hoursAgo(48),
     },
     {
       id: "n5",
       type: "new_story",
       message: "Lyra Dawn published 'Beneath the Crimson Sky'.",
-      timestamp: "3 days ago",
       read: true,
+      createdAt: hoursAgo(72),
     },
   ]
 
-  const getNotificationIcon = (type: Notification["type"]) => {
+  const getNotificationIcon = (type: NotificationType) => {
     switch (type) {
       case "new_story":
         return <BookOpenIcon className="h-5 w-5 text-misty-blue" />
@@ -85,7 +81,9 @@ export default function NotificationsView() {
                     >
                       {notification.message}
                     </p>
-                    <p className="text-xs text-muted-foreground mt-1">{notification.timestamp}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
                   </div>
                   {!notification.read && <span className="w-2 h-2 bg-blush-pink rounded-full flex-shrink-0 mt-2" />}
                 </div>
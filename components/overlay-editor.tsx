@@ -0,0 +1,346 @@
+"use client"
+
+import { useEffect, useRef, useState, type KeyboardEvent, type PointerEvent } from "react"
+import { MessageCircleIcon, Trash2Icon, TypeIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Textarea } from "@/components/ui/textarea"
+import StoryPanel, { OVERLAY_FONTS, PanelOverlay } from "@/components/story-panel"
+import type { PanelOverlay as Overlay, StoryContentItem } from "@/lib/domain"
+import { cn } from "@/lib/utils"
+
+interface OverlayEditorProps {
+  // The image panel whose overlays are edited; null closes the editor
+  panel: StoryContentItem | null
+  onClose: () => void
+  onSave: (overlays: Overlay[]) => void
+}
+
+const MAX_OVERLAYS = 20
+// How far one arrow key press moves the selected overlay, as a fraction of the panel
+const NUDGE = 0.01
+
+const newOverlay = (kind: Overlay["kind"]): Overlay =>
+  kind === "caption"
+    ? {
+        id: crypto.randomUUID(),
+        kind,
+        text: "Caption",
+        x: 0.5,
+        y: 0.12,
+        width: 0.8,
+        font: "sans",
+        fontSize: 4,
+        color: "#ffffff",
+        background: "#000000",
+        tail: "none",
+      }
+    : {
+        id: crypto.randomUUID(),
+        kind,
+        text: "…",
+        x: 0.5,
+        y: 0.3,
+        width: 0.45,
+        font: "comic",
+        fontSize: 4.5,
+        color: "#111111",
+        background: "#ffffff",
+        tail: "left",
+      }
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+// Captions and speech bubbles over one image panel. Overlays are dragged into place on the picture (or moved
+// with the arrow keys once focused) and styled from the side panel; nothing changes until Save.
+export default function OverlayEditor({ panel, onClose, onSave }: OverlayEditorProps) {
+  const [overlays, setOverlays] = useState<Overlay[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const stageRef = useRef<HTMLDivElement>(null)
+  // Where the pointer grabbed the overlay, relative to its centre, so it does not jump on the first move
+  const drag = useRef<{ id: string; offsetX: number; offsetY: number } | null>(null)
+
+  // Start from the saved overlays each time a panel is opened, not whenever the board re-renders it
+  useEffect(() => {
+    setOverlays(panel?.overlays ?? [])
+    setSelectedId(panel?.overlays?.[0]?.id ?? null)
+  }, [panel?.id])
+
+  const selected = overlays.find((overlay) => overlay.id === selectedId) ?? null
+
+  const update = (id: string, patch: Partial<Overlay>) =>
+    setOverlays((prev) => prev.map((overlay) => (overlay.id === id ? { ...overlay, ...patch } : overlay)))
+
+  const add = (kind: Overlay["kind"]) => {
+    const overlay = newOverlay(kind)
+    setOverlays((prev) => [...prev, overlay])
+    setSelectedId(overlay.id)
+  }
+
+  const remove = (id: string) => {
+    setOverlays((prev) => prev.filter((overlay) => overlay.id !== id))
+    setSelectedId(null)
+  }
+
+  const pointerPosition = (e: PointerEvent) => {
+    const rect = stageRef.current!.getBoundingClientRect()
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height }
+  }
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>, overlay: Overlay) => {
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    e.currentTarget.focus()
+    setSelectedId(overlay.id)
+    const { x, y } = pointerPosition(e)
+    drag.current = { id: overlay.id, offsetX: x - overlay.x, offsetY: y - overlay.y }
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!drag.current) return
+    const { x, y } = pointerPosition(e)
+    update(drag.current.id, { x: clamp(x - drag.current.offsetX), y: clamp(y - drag.current.offsetY) })
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>, overlay: Overlay) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-NUDGE, 0],
+      ArrowRight: [NUDGE, 0],
+      ArrowUp: [0, -NUDGE],
+      ArrowDown: [0, NUDGE],
+    }
+    if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault()
+      remove(overlay.id)
+      return
+    }
+    if (!moves[e.key]) return
+    e.preventDefault()
+    const [dx, dy] = moves[e.key]
+    update(overlay.id, { x: clamp(overlay.x + dx), y: clamp(overlay.y + dy) })
+  }
+
+  return (
+    <Dialog open={Boolean(panel)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Text Overlays</DialogTitle>
+          <DialogDescription>
+            Drag captions and speech bubbles into place, or focus one and use the arrow keys.
+          </DialogDescription>
+        </DialogHeader>
+
+        {panel && (
+          <div className="grid gap-6 md:grid-cols-[1fr_18rem]">
+            <div ref={stageRef} className="self-start">
+              <StoryPanel panel={panel} alt="Panel being edited" className="rounded-lg">
+                {overlays.map((overlay) => (
+                  <PanelOverlay
+                    key={overlay.id}
+                    overlay={overlay}
+                    tabIndex={0}
+                    role="button"
+                    aria-label={`${overlay.kind === "caption" ? "Caption" : "Speech bubble"}: ${overlay.text}`}
+                    aria-pressed={overlay.id === selectedId}
+                    onPointerDown={(e) => handlePointerDown(e, overlay)}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => (drag.current = null)}
+                    onKeyDown={(e) => handleKeyDown(e, overlay)}
+                    onFocus={() => setSelectedId(overlay.id)}
+                    className={cn(
+                      "cursor-move touch-none focus-visible:outline-none",
+                      overlay.id === selectedId && "outline outline-2 outline-offset-2 outline-primary",
+                    )}
+                  />
+                ))}
+              </StoryPanel>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={overlays.length >= MAX_OVERLAYS}
+                  onClick={() => add("caption")}
+                >
+                  <TypeIcon className="h-4 w-4 mr-1" />
+                  Caption
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={overlays.length >= MAX_OVERLAYS}
+                  onClick={() => add("speech")}
+                >
+                  <MessageCircleIcon className="h-4 w-4 mr-1" />
+                  Speech Bubble
+                </Button>
+              </div>
+
+              {selected ? (
+                <div className="space-y-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="overlay-text">Text</Label>
+                    <Textarea
+                      id="overlay-text"
+                      value={selected.text}
+                      maxLength={500}
+                      onChange={(e) => update(selected.id, { text: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="grid gap-2">
+                      <Label>Style</Label>
+                      <Select
+                        value={selected.kind}
+                        onValueChange={(kind) => update(selected.id, { kind: kind as Overlay["kind"] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="caption">Caption</SelectItem>
+                          <SelectItem value="speech">Speech bubble</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid gap-2">
+                      <Label>Font</Label>
+                      <Select
+                        value={selected.font}
+                        onValueChange={(font) => update(selected.id, { font: font as Overlay["font"] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(OVERLAY_FONTS).map(([font, { label }]) => (
+                            <SelectItem key={font} value={font}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label>Text size</Label>
+                    <Slider
+                      min={1}
+                      max={12}
+                      step={0.5}
+                      value={[selected.fontSize]}
+                      onValueChange={([fontSize]) => update(selected.id, { fontSize })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label>Width</Label>
+                    <Slider
+                      min={10}
+                      max={100}
+                      step={1}
+                      value={[Math.round(selected.width * 100)]}
+                      onValueChange={([width]) => update(selected.id, { width: width / 100 })}
+                    />
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <Label className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={selected.color}
+                        onChange={(e) => update(selected.id, { color: e.target.value })}
+                        className="h-8 w-8 cursor-pointer rounded border bg-transparent"
+                      />
+                      Text
+                    </Label>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="overlay-box"
+                        checked={selected.background !== null}
+                        onCheckedChange={(checked) =>
+                          update(selected.id, { background: checked === true ? "#ffffff" : null })
+                        }
+                      />
+                      <Label htmlFor="overlay-box">Box</Label>
+                      {selected.background !== null && (
+                        <input
+                          type="color"
+                          aria-label="Box color"
+                          value={selected.background}
+                          onChange={(e) => update(selected.id, { background: e.target.value })}
+                          className="h-8 w-8 cursor-pointer rounded border bg-transparent"
+                        />
+                      )}
+                    </div>
+                  </div>
+                  {selected.kind === "speech" && (
+                    <div className="grid gap-2">
+                      <Label>Tail</Label>
+                      <Select
+                        value={selected.tail}
+                        onValueChange={(tail) => update(selected.id, { tail: tail as Overlay["tail"] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="left">Bottom left</SelectItem>
+                          <SelectItem value="right">Bottom right</SelectItem>
+                          <SelectItem value="none">None</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => remove(selected.id)}
+                  >
+                    <Trash2Icon className="h-4 w-4 mr-1" />
+                    Remove Overlay
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {overlays.length > 0 ? "Select an overlay to style it." : "Add a caption or a speech bubble."}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => {
+              // Empty overlays would only show as blank boxes
+              onSave(overlays.filter((overlay) => overlay.text.trim()))
+              onClose()
+            }}
+          >
+            Save Overlays
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,425 @@
+"use client"
+
+import { useEffect, useRef, useState, type DragEvent, type KeyboardEvent } from "react"
+import {
+  CopyIcon,
+  GripVerticalIcon,
+  ImageIcon,
+  MessageSquareIcon,
+  PlusIcon,
+  TextIcon,
+  Trash2Icon,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import { Textarea } from "@/components/ui/textarea"
+import OverlayEditor from "@/components/overlay-editor"
+import PanelImage from "@/components/panel-image"
+import type { PanelUpload } from "@/hooks/use-panel-uploads"
+import type { StoryContentItem } from "@/lib/domain"
+import { duplicatePanel, insertPanels, movePanel, removePanels, updatePanel } from "@/lib/panels"
+import { cn } from "@/lib/utils"
+
+interface PanelBoardProps {
+  panels: StoryContentItem[]
+  onChange: (panels: StoryContentItem[]) => void
+  // Image panels still uploading or failed, by panel id
+  uploads: Record<string, PanelUpload>
+  onRetryUpload: (panelId: string) => void
+  // Picked or dropped image files, to become panels starting at `index`
+  onAddImages: (files: File[], index: number) => void
+  // Follows onChange when panels are deleted, so their pending uploads can be dropped
+  onRemove: (panelIds: string[]) => void
+}
+
+const newId = () => crypto.randomUUID()
+
+interface InsertPointProps {
+  index: number
+  // Where a dragged panel or file would land
+  isDropTarget: boolean
+  onAddText: (index: number) => void
+  onAddImages: (index: number) => void
+}
+
+// The gap between two panels: shows where a drag will drop, and reveals insert buttons on hover or focus
+function InsertPoint({ index, isDropTarget, onAddText, onAddImages }: InsertPointProps) {
+  return (
+    <div className="group relative flex h-6 items-center justify-center">
+      <div className={cn("absolute inset-x-0 h-0.5 rounded-full", isDropTarget ? "bg-primary" : "bg-transparent")} />
+      <div className="relative flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => onAddText(index)}
+        >
+          <PlusIcon className="h-3 w-3 mr-1" />
+          Text
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => onAddImages(index)}
+        >
+          <PlusIcon className="h-3 w-3 mr-1" />
+          Image
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// The image story editor: panels in reading order, reordered by dragging or with the arrow keys on a panel's
+// handle. Text panels are edited in place; any panel can be duplicated, and several deleted at once.
+export default function PanelBoard({
+  panels,
+  onChange,
+  uploads,
+  onRetryUpload,
+  onAddImages,
+  onRemove,
+}: PanelBoardProps) {
+  const [selected, setSelected] = useState<string[]>([])
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+  // Read out by screen readers after a keyboard move or a bulk delete
+  const [announcement, setAnnouncement] = useState("")
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const imageInsertIndex = useRef(0)
+  const rows = useRef(new Map<string, HTMLLIElement>())
+  const handles = useRef(new Map<string, HTMLButtonElement>())
+  const textAreas = useRef(new Map<string, HTMLTextAreaElement>())
+  // Moving a row in the DOM drops its focus, so the element to focus is picked up after the render
+  const [focusTarget, setFocusTarget] = useState<{ id: string; kind: "handle" | "text" } | null>(null)
+  const [overlayPanelId, setOverlayPanelId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!focusTarget) return
+    const element = (focusTarget.kind === "handle" ? handles : textAreas).current.get(focusTarget.id)
+    element?.focus()
+    setFocusTarget(null)
+  }, [focusTarget, panels])
+
+  // Selection only ever names panels that still exist
+  const selectedIds = selected.filter((id) => panels.some((panel) => panel.id === id))
+  const allSelected = panels.length > 0 && selectedIds.length === panels.length
+
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelected((prev) => (checked ? [...prev, id] : prev.filter((selectedId) => selectedId !== id)))
+
+  const addText = (index: number) => {
+    const id = newId()
+    onChange(insertPanels(panels, index, [{ id, type: "text", content: "", order: index }]))
+    setFocusTarget({ id, kind: "text" })
+  }
+
+  const pickImages = (index: number) => {
+    imageInsertIndex.current = index
+    fileInputRef.current?.click()
+  }
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= panels.length || to === from) return
+    const panel = panels[from]
+    onChange(movePanel(panels, from, to))
+    setFocusTarget({ id: panel.id, kind: "handle" })
+    setAnnouncement(`Panel moved to position ${to + 1} of ${panels.length}`)
+  }
+
+  const remove = (ids: string[]) => {
+    onChange(removePanels(panels, ids))
+    onRemove(ids)
+    setSelected((prev) => prev.filter((id) => !ids.includes(id)))
+    setAnnouncement(`${ids.length} panel${ids.length === 1 ? "" : "s"} deleted`)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const targets: Record<string, number> = {
+      ArrowUp: index - 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: panels.length - 1,
+    }
+    if (!(e.key in targets)) return
+    e.preventDefault()
+    move(index, targets[e.key])
+  }
+
+  // Dropping on the upper half of a panel lands before it, on the lower half after it
+  const handleDragOver = (e: DragEvent<HTMLLIElement>, index: number) => {
+    const carriesFiles = e.dataTransfer.types.includes("Files")
+    if (!draggingId && !carriesFiles) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = carriesFiles ? "copy" : "move"
+    const { top, height } = e.currentTarget.getBoundingClientRect()
+    setDropIndex(e.clientY > top + height / 2 ? index + 1 : index)
+  }
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault()
+    const index = dropIndex ?? panels.length
+    const files = Array.from(e.dataTransfer.files).filter((file) => file.type.startsWith("image/"))
+    if (draggingId) {
+      const from = panels.findIndex((panel) => panel.id === draggingId)
+      // Taking the panel out first shifts everything after it up by one
+      if (from !== -1) onChange(movePanel(panels, from, index > from ? index - 1 : index))
+    } else if (files.length > 0) {
+      onAddImages(files, index)
+    }
+    setDraggingId(null)
+    setDropIndex(null)
+  }
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={(e) => {
+          onAddImages(Array.from(e.target.files ?? []), imageInsertIndex.current)
+          e.target.value = ""
+        }}
+        accept="image/*"
+        multiple
+        className="hidden"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" onClick={() => pickImages(panels.length)}>
+          <ImageIcon className="h-4 w-4 mr-2" />
+          Add Image
+        </Button>
+        <Button type="button" variant="outline" onClick={() => addText(panels.length)}>
+          <TextIcon className="h-4 w-4 mr-2" />
+          Add Text
+        </Button>
+        {panels.length > 0 && (
+          <div className="ml-auto flex items-center gap-2 text-sm text-muted-foreground">
+            <Checkbox
+              id="select-all-panels"
+              checked={allSelected ? true : selectedIds.length > 0 ? "indeterminate" : false}
+              onCheckedChange={(checked) => setSelected(checked === true ? panels.map((panel) => panel.id) : [])}
+            />
+            <label htmlFor="select-all-panels">
+              {selectedIds.length > 0 ? `${selectedIds.length} selected` : "Select all"}
+            </label>
+            {selectedIds.length > 0 && (
+              <Button type="button" variant="destructive" size="sm" onClick={() => remove(selectedIds)}>
+                <Trash2Icon className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <p id="panel-board-help" className="sr-only">
+        Press the arrow keys on a panel&apos;s handle to move it up or down, or Home and End to move it to the start
+        or end.
+      </p>
+      <div aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      {panels.length === 0 ? (
+        <div
+          className={cn(
+            "text-center py-8 text-muted-foreground border-2 border-dashed rounded-lg",
+            dropIndex !== null && "border-primary",
+          )}
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes("Files")) return
+            e.preventDefault()
+            setDropIndex(0)
+          }}
+          onDragLeave={() => setDropIndex(null)}
+          onDrop={handleDrop}
+        >
+          <p>No panels yet</p>
+          <p className="text-sm">Click &apos;Add Image&apos; or &apos;Add Text&apos;, or drop images here</p>
+        </div>
+      ) : (
+        <ol
+          onDrop={handleDrop}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropIndex(null)
+          }}
+        >
+          {panels.map((panel, index) => {
+            const upload = uploads[panel.id]
+            return (
+              <li
+                key={panel.id}
+                ref={(element) => {
+                  if (element) rows.current.set(panel.id, element)
+                  else rows.current.delete(panel.id)
+                }}
+                onDragOver={(e) => handleDragOver(e, index)}
+              >
+                <InsertPoint
+                  index={index}
+                  isDropTarget={dropIndex === index}
+                  onAddText={addText}
+                  onAddImages={pickImages}
+                />
+                <div
+                  className={cn(
+                    "border rounded-lg p-2 flex items-start gap-2 bg-card",
+                    draggingId === panel.id && "opacity-50",
+                    selectedIds.includes(panel.id) && "border-primary",
+                  )}
+                >
+                  <Checkbox
+                    className="mt-3"
+                    checked={selectedIds.includes(panel.id)}
+                    onCheckedChange={(checked) => toggleSelected(panel.id, checked === true)}
+                    aria-label={`Select panel ${index + 1}`}
+                  />
+                  <button
+                    type="button"
+                    draggable
+                    ref={(element) => {
+                      if (element) handles.current.set(panel.id, element)
+                      else handles.current.delete(panel.id)
+                    }}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move"
+                      const row = rows.current.get(panel.id)
+                      if (row) e.dataTransfer.setDragImage(row, 16, 16)
+                      setDraggingId(panel.id)
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null)
+                      setDropIndex(null)
+                    }}
+                    onKeyDown={(e) => handleKeyDown(e, index)}
+                    aria-label={`Panel ${index + 1} of ${panels.length}. Drag or use the arrow keys to reorder.`}
+                    aria-describedby="panel-board-help"
+                    className={cn(
+                      "mt-2 cursor-grab rounded p-1 text-muted-foreground hover:bg-muted active:cursor-grabbing",
+                      "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                    )}
+                  >
+                    <GripVerticalIcon className="h-4 w-4" />
+                  </button>
+                  <span className="mt-2.5 w-6 text-sm text-muted-foreground tabular-nums">{index + 1}</span>
+
+                  {panel.type === "image" ? (
+                    <div className="flex flex-1 items-center gap-3 min-w-0">
+                      <div className="w-16 h-16 shrink-0 bg-muted rounded overflow-hidden">
+                        {upload ? (
+                          <img src={upload.previewUrl} alt="" className="w-full h-full object-cover opacity-60" />
+                        ) : (
+                          <PanelImage
+                            content={panel.content}
+                            alt={`Panel ${index + 1}`}
+                            size="thumbnail"
+                            className="w-full h-full object-cover"
+                          />
+                        )}
+                      </div>
+                      {upload?.status === "failed" ? (
+                        <div className="flex items-center gap-2 text-sm min-w-0">
+                          <span className="text-destructive truncate">{upload.error}</span>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-7"
+                            onClick={() => onRetryUpload(panel.id)}
+                          >
+                            Retry
+                          </Button>
+                        </div>
+                      ) : upload ? (
+                        <div className="w-40 space-y-1">
+                          <span className="text-sm text-muted-foreground">
+                            Uploading… {Math.round(upload.progress * 100)}%
+                          </span>
+                          <Progress value={upload.progress * 100} className="h-1" />
+                        </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Image</span>
+                      )}
+                    </div>
+                  ) : (
+                    <Textarea
+                      ref={(element) => {
+                        if (element) textAreas.current.set(panel.id, element)
+                        else textAreas.current.delete(panel.id)
+                      }}
+                      value={panel.content}
+                      onChange={(e) => onChange(updatePanel(panels, panel.id, { content: e.target.value }))}
+                      placeholder="Caption or dialogue"
+                      aria-label={`Text of panel ${index + 1}`}
+                      className="flex-1 min-h-[60px]"
+                    />
+                  )}
+
+                  <div className="flex shrink-0">
+                    {panel.type === "image" && !upload && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 px-2"
+                        onClick={() => setOverlayPanelId(panel.id)}
+                      >
+                        <MessageSquareIcon className="h-4 w-4" />
+                        {panel.overlays?.length ? (
+                          <span className="ml-1 tabular-nums">{panel.overlays.length}</span>
+                        ) : null}
+                        <span className="sr-only">Edit text overlays of panel {index + 1}</span>
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={Boolean(upload)}
+                      onClick={() => onChange(duplicatePanel(panels, panel.id, newId()))}
+                    >
+                      <CopyIcon className="h-4 w-4" />
+                      <span className="sr-only">Duplicate panel {index + 1}</span>
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => remove([panel.id])}
+                    >
+                      <Trash2Icon className="h-4 w-4" />
+                      <span className="sr-only">Delete panel {index + 1}</span>
+                    </Button>
+                  </div>
+                </div>
+                {index === panels.length - 1 && (
+                  <InsertPoint
+                    index={panels.length}
+                    isDropTarget={dropIndex === panels.length}
+                    onAddText={addText}
+                    onAddImages={pickImages}
+                  />
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+
+      <OverlayEditor
+        panel={panels.find((panel) => panel.id === overlayPanelId) ?? null}
+        onClose={() => setOverlayPanelId(null)}
+        onSave={(overlays) => {
+          if (overlayPanelId) onChange(updatePanel(panels, overlayPanelId, { overlays }))
+        }}
+      />
+    </div>
+  )
+}
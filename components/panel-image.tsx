@@ -0,0 +1,22 @@
+import { panelImageUrls } from "@/lib/domain"
+
+interface PanelImageProps {
+  // An image panel's content: the uploaded image's id
+  content: string
+  alt: string
+  size?: "thumbnail" | "large"
+  className?: string
+}
+
+// The picture of an image-story panel, as WebP where the browser supports it. Panels from before uploads
+// hold a data URL, which is shown as it is.
+export default function PanelImage({ content, alt, size = "large", className }: PanelImageProps) {
+  const variants = panelImageUrls(content)
+  if (!variants) return <img src={content} alt={alt} loading="lazy" className={className} />
+  return (
+    <picture>
+      <source srcSet={size === "thumbnail" ? variants.thumbnailUrl : variants.webpUrl} type="image/webp" />
+      <img src={variants.url} alt={alt} loading="lazy" className={className} />
+    </picture>
+  )
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { format, isSameDay } from "date-fns"
+import { CalendarClockIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { scheduleApi } from "@/lib/api"
+import type { ScheduledRelease } from "@/lib/episodes"
+import { writeHref } from "@/lib/routes"
+
+const episodeLabel = ({ episodeNumber, episodeTitle }: ScheduledRelease) =>
+  episodeTitle ? `Episode ${episodeNumber}: ${episodeTitle}` : `Episode ${episodeNumber}`
+
+// The signed-in author's scheduled episodes on a month calendar, with the upcoming list beside it
+export default function ReleaseCalendar() {
+  const { toast } = useToast()
+  const [releases, setReleases] = useState<ScheduledRelease[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  // Narrows the list to one day; cleared to show everything upcoming
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>()
+
+  useEffect(() => {
+    scheduleApi
+      .list()
+      .then(setReleases)
+      .catch((error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }))
+      .finally(() => setIsLoading(false))
+  }, [toast])
+
+  const releaseDays = releases.map((release) => new Date(release.scheduledFor))
+  const shown = selectedDay
+    ? releases.filter((release) => isSameDay(new Date(release.scheduledFor), selectedDay))
+    : releases
+
+  // Grouped by local day, in order
+  const byDay = new Map<string, ScheduledRelease[]>()
+  shown.forEach((release) => {
+    const day = format(new Date(release.scheduledFor), "EEEE d MMMM yyyy")
+    byDay.set(day, [...(byDay.get(day) ?? []), release])
+  })
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-8 max-w-5xl">
+      <Card className="rounded-xl shadow-lg bg-card text-card-foreground">
+        <CardHeader>
+          <CardTitle className="text-3xl font-serif font-bold text-primary">Release Calendar</CardTitle>
+          <CardDescription>
+            Episodes you have scheduled. Each one is published automatically at its time, along with its story if
+            that is still a draft.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-8 md:grid-cols-[auto_1fr]">
+          <div>
+            <Calendar
+              mode="single"
+              selected={selectedDay}
+              onSelect={setSelectedDay}
+              modifiers={{ scheduled: releaseDays }}
+              modifiersClassNames={{ scheduled: "font-bold text-primary underline underline-offset-4" }}
+              className="rounded-lg border border-border"
+            />
+            {selectedDay && (
+              <Button variant="link" className="px-0" onClick={() => setSelectedDay(undefined)}>
+                Show all upcoming
+              </Button>
+            )}
+          </div>
+          <div className="space-y-6">
+            {isLoading && <p className="text-muted-foreground">Loading schedule...</p>}
+            {!isLoading && shown.length === 0 && (
+              <p className="text-muted-foreground">
+                {selectedDay
+                  ? "Nothing is scheduled for this day."
+                  : "Nothing is scheduled. Use Schedule in the editor to publish an episode later."}
+              </p>
+            )}
+            {[...byDay].map(([day, dayReleases]) => (
+              <section key={day}>
+                <h3 className="font-semibold text-foreground mb-2">{day}</h3>
+                <ul className="space-y-2">
+                  {dayReleases.map((release) => (
+                    <li
+                      key={`${release.storyId}-${release.episodeNumber}`}
+                      className="flex items-center gap-4 rounded-lg border border-border p-3"
+                    >
+                      <span className="text-sm font-medium tabular-nums text-primary">
+                        {format(new Date(release.scheduledFor), "HH:mm")}
+                      </span>
+                      <div className="min-w-0 flex-1">
+                        <Link
+                          href={`/story/${release.storyId}/${release.episodeNumber}`}
+                          className="font-serif font-semibold hover:text-primary"
+                        >
+                          {release.storyTitle}
+                        </Link>
+                        <p className="text-sm text-muted-foreground">{episodeLabel(release)}</p>
+                      </div>
+                      {/* The editor's Schedule button moves or cancels the release */}
+                      <Button asChild variant="outline" size="sm">
+                        <Link href={writeHref(release.storyId, release.episodeNumber)}>
+                          <CalendarClockIcon className="h-4 w-4 mr-2" />
+                          Reschedule
+                        </Link>
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { GitCompareIcon, HistoryIcon, RotateCcwIcon } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { useToast } from "@/components/ui/use-toast"
+import { storiesApi } from "@/lib/api"
+import { diffLines, type DiffSegment } from "@/lib/diff"
+import type { Revision } from "@/lib/domain"
+import { cn } from "@/lib/utils"
+
+const formatTime = (revision: Revision) => format(new Date(revision.createdAt), "d MMM yyyy, HH:mm")
+
+// What the diff compares: the episode text, then an image story's panels, one line each
+const revisionText = ({ content, storyContent }: Revision) =>
+  [content, ...storyContent.map((item) => (item.type === "text" ? item.content : "[Image]"))]
+    .filter(Boolean)
+    .join("\n")
+
+function WordDelta({ revision, previous }: { revision: Revision; previous?: Revision }) {
+  if (!previous) return <span className="text-muted-foreground">first version</span>
+  const delta = revision.wordCount - previous.wordCount
+  if (delta === 0) return <span className="text-muted-foreground">±0</span>
+  return (
+    <span className={delta > 0 ? "text-green-600 dark:text-green-400" : "text-destructive"}>
+      {delta > 0 ? `+${delta}` : `−${-delta}`}
+    </span>
+  )
+}
+
+function Segments({ segments, tone }: { segments: DiffSegment[] | null; tone: "removed" | "added" }) {
+  if (!segments) return null
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <span
+          key={index}
+          className={cn(
+            segment.changed && (tone === "removed" ? "bg-red-500/25 line-through" : "bg-green-500/25"),
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </>
+  )
+}
+
+// Older revision on the left, newer on the right, aligned line by line
+function RevisionDiff({ before, after }: { before: Revision; after: Revision }) {
+  const rows = diffLines(revisionText(before), revisionText(after))
+  const changes = rows.filter((row) => row.kind !== "same").length
+
+  return (
+    <div className="space-y-3">
+      {before.title !== after.title && (
+        <p className="text-sm">
+          Episode title: <span className="line-through text-destructive">{before.title}</span> → {after.title}
+        </p>
+      )}
+      {changes === 0 && <p className="text-sm text-muted-foreground">The text is identical.</p>}
+      <div className="grid grid-cols-2 gap-x-2 text-sm font-serif">
+        <div className="font-sans font-semibold pb-2">{formatTime(before)}</div>
+        <div className="font-sans font-semibold pb-2">{formatTime(after)}</div>
+        {rows.map((row, index) => (
+          <div key={index} className="contents">
+            <div
+              className={cn(
+                "px-2 py-1 whitespace-pre-wrap break-words",
+                row.kind !== "same" && row.before && "bg-red-500/10",
+              )}
+            >
+              <Segments segments={row.before} tone="removed" />
+            </div>
+            <div
+              className={cn(
+                "px-2 py-1 whitespace-pre-wrap break-words",
+                row.kind !== "same" && row.after && "bg-green-500/10",
+              )}
+            >
+              <Segments segments={row.after} tone="added" />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface RevisionHistoryProps {
+  storyId: string
+  episodeNumber: number
+  // Loads the revision into the editor; nothing is saved until the author saves
+  onRestore: (revision: Revision) => void
+}
+
+// History panel for one episode: every saved version with its word-count change, a diff of any two,
+// and restore
+export default function RevisionHistory({ storyId, episodeNumber, onRestore }: RevisionHistoryProps) {
+  const { toast } = useToast()
+  const [isOpen, setIsOpen] = useState(false)
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
+  const [isComparing, setIsComparing] = useState(false)
+
+  // Reload on every open, so saves made since show up
+  useEffect(() => {
+    if (!isOpen) return
+    setIsLoading(true)
+    setSelected([])
+    storiesApi.episodes
+      .revisions(storyId, episodeNumber)
+      .then(setRevisions)
+      .catch((error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }))
+      .finally(() => setIsLoading(false))
+  }, [isOpen, storyId, episodeNumber, toast])
+
+  // At most two are compared; picking a third replaces the earlier pick
+  const toggle = (id: string) =>
+    setSelected((current) =>
+      current.includes(id) ? current.filter((selectedId) => selectedId !== id) : [...current, id].slice(-2),
+    )
+
+  // Revisions are newest first, so the later index is the older one
+  const compared = revisions.filter((revision) => selected.includes(revision.id)).reverse()
+
+  const restore = (revision: Revision) => {
+    onRestore(revision)
+    setIsOpen(false)
+    toast({
+      title: "Revision restored",
+      description: `The version from ${formatTime(revision)} is in the editor. Save to keep it.`,
+    })
+  }
+
+  return (
+    <>
+      <Sheet open={isOpen} onOpenChange={setIsOpen}>
+        <SheetTrigger asChild>
+          <Button variant="outline">
+            <HistoryIcon className="h-4 w-4 mr-2" />
+            History
+          </Button>
+        </SheetTrigger>
+        <SheetContent side="right" className="bg-card text-card-foreground overflow-y-auto sm:max-w-md">
+          <SheetHeader>
+            <SheetTitle className="font-serif text-2xl">Revision History</SheetTitle>
+          </SheetHeader>
+          <div className="py-4 space-y-4">
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={compared.length !== 2}
+              onClick={() => setIsComparing(true)}
+            >
+              <GitCompareIcon className="h-4 w-4 mr-2" />
+              Compare selected
+            </Button>
+            {isLoading && <p className="text-sm text-muted-foreground">Loading revisions...</p>}
+            {!isLoading && revisions.length === 0 && (
+              <p className="text-sm text-muted-foreground">No revisions yet. One is kept every time you save.</p>
+            )}
+            <ul className="space-y-2">
+              {revisions.map((revision, index) => (
+                <li key={revision.id} className="flex items-center gap-3 rounded-lg border border-border p-3">
+                  <Checkbox
+                    checked={selected.includes(revision.id)}
+                    onCheckedChange={() => toggle(revision.id)}
+                    aria-label={`Compare the version from ${formatTime(revision)}`}
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{formatTime(revision)}</span>
+                      {revision.status === "published" && <Badge variant="secondary">Published</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {revision.wordCount} words · <WordDelta revision={revision} previous={revisions[index + 1]} />
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => restore(revision)}>
+                    <RotateCcwIcon className="h-4 w-4" />
+                    <span className="sr-only">Restore this version</span>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <Dialog open={isComparing} onOpenChange={setIsComparing}>
+        <DialogContent className="sm:max-w-5xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Compare revisions</DialogTitle>
+            {compared.length === 2 && (
+              <DialogDescription>
+                {compared[0].wordCount} → {compared[1].wordCount} words
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {compared.length === 2 && <RevisionDiff before={compared[0]} after={compared[1]} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,189 @@
+"use client"
+
+import { useEffect, useLayoutEffect, useRef, useState } from "react"
+import {
+  BoldIcon,
+  EyeIcon,
+  Heading2Icon,
+  ItalicIcon,
+  PencilIcon,
+  SeparatorHorizontalIcon,
+  TextQuoteIcon,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import RichText from "@/components/rich-text"
+
+// Line prefixes that make a block; applying one replaces any other
+const BLOCK_PREFIX = /^(#{1,3}\s+|>\s?)/
+
+type Edit = { value: string; selectionStart: number; selectionEnd: number }
+
+// Wraps the selection in an inline marker, or unwraps it when the marker is already there
+function toggleInline(value: string, start: number, end: number, marker: string): Edit {
+  const size = marker.length
+  if (value.slice(start - size, start) === marker && value.slice(end, end + size) === marker) {
+    return {
+      value: value.slice(0, start - size) + value.slice(start, end) + value.slice(end + size),
+      selectionStart: start - size,
+      selectionEnd: end - size,
+    }
+  }
+  return {
+    value: value.slice(0, start) + marker + value.slice(start, end) + marker + value.slice(end),
+    selectionStart: start + size,
+    selectionEnd: end + size,
+  }
+}
+
+// Adds the prefix to every line the selection touches, or removes it when all of them have it
+function toggleBlock(value: string, start: number, end: number, prefix: string): Edit {
+  const lineStart = value.lastIndexOf("\n", start - 1) + 1
+  const nextBreak = value.indexOf("\n", end)
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak
+  const lines = value.slice(lineStart, lineEnd).split("\n")
+  const remove = lines.every((line) => line.startsWith(prefix))
+  const replaced = lines
+    .map((line) => (remove ? line.slice(prefix.length) : prefix + line.replace(BLOCK_PREFIX, "")))
+    .join("\n")
+  return {
+    value: value.slice(0, lineStart) + replaced + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + replaced.length,
+  }
+}
+
+// Puts a scene break on its own line after the current one
+function insertBreak(value: string, end: number): Edit {
+  const nextBreak = value.indexOf("\n", end)
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak
+  const insert = "\n* * *\n"
+  const cursor = lineEnd + insert.length
+  return {
+    value: value.slice(0, lineEnd) + insert + value.slice(lineEnd),
+    selectionStart: cursor,
+    selectionEnd: cursor,
+  }
+}
+
+type Command = "bold" | "italic" | "heading" | "quote" | "break"
+
+const COMMANDS: { command: Command; label: string; shortcut: string; icon: typeof BoldIcon }[] = [
+  { command: "bold", label: "Bold", shortcut: "B", icon: BoldIcon },
+  { command: "italic", label: "Italic", shortcut: "I", icon: ItalicIcon },
+  { command: "heading", label: "Heading", shortcut: "Alt+2", icon: Heading2Icon },
+  { command: "quote", label: "Block quote", shortcut: "Shift+9", icon: TextQuoteIcon },
+  { command: "break", label: "Scene break", shortcut: "Enter", icon: SeparatorHorizontalIcon },
+]
+
+// Keyboard shortcuts, matched on the physical key so Alt and Shift combinations work on every layout
+function commandFor(e: React.KeyboardEvent): Command | null {
+  if (!(e.metaKey || e.ctrlKey)) return null
+  if (e.code === "KeyB" && !e.shiftKey && !e.altKey) return "bold"
+  if (e.code === "KeyI" && !e.shiftKey && !e.altKey) return "italic"
+  if (e.code === "Digit2" && e.altKey) return "heading"
+  if (e.code === "Digit9" && e.shiftKey) return "quote"
+  if (e.key === "Enter") return "break"
+  return null
+}
+
+interface RichTextEditorProps {
+  id?: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+}
+
+// Formatting toolbar and shortcuts over a plain textarea holding the story's Markdown, with a preview
+// through the same renderer the reader uses
+export default function RichTextEditor({ id, value, onChange, placeholder }: RichTextEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  // Selection to restore once the edited value has rendered
+  const pendingSelection = useRef<[number, number] | null>(null)
+  const [isPreview, setIsPreview] = useState(false)
+  const [modifier, setModifier] = useState("Ctrl")
+
+  useEffect(() => {
+    if (/Mac|iPhone|iPad/.test(navigator.platform)) setModifier("⌘")
+  }, [])
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current
+    if (!textarea || !pendingSelection.current) return
+    textarea.focus()
+    textarea.setSelectionRange(...pendingSelection.current)
+    pendingSelection.current = null
+  }, [value])
+
+  const run = (command: Command) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    const { selectionStart: start, selectionEnd: end } = textarea
+    const edits: Record<Command, () => Edit> = {
+      bold: () => toggleInline(value, start, end, "**"),
+      italic: () => toggleInline(value, start, end, "*"),
+      heading: () => toggleBlock(value, start, end, "## "),
+      quote: () => toggleBlock(value, start, end, "> "),
+      break: () => insertBreak(value, end),
+    }
+    const edit = edits[command]()
+    pendingSelection.current = [edit.selectionStart, edit.selectionEnd]
+    onChange(edit.value)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const command = commandFor(e)
+    if (!command) return
+    e.preventDefault()
+    run(command)
+  }
+
+  return (
+    <div className="rounded-lg border border-input">
+      <div className="flex items-center gap-1 border-b border-input p-1" role="toolbar" aria-label="Formatting">
+        {COMMANDS.map(({ command, label, shortcut, icon: Icon }) => (
+          <Button
+            key={command}
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title={`${label} (${modifier}+${shortcut})`}
+            disabled={isPreview}
+            // Keeps the textarea's selection, which a focused button would clear
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => run(command)}
+          >
+            <Icon className="h-4 w-4" />
+            <span className="sr-only">{label}</span>
+          </Button>
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="ml-auto h-8"
+          onClick={() => setIsPreview(!isPreview)}
+        >
+          {isPreview ? <PencilIcon className="h-4 w-4 mr-2" /> : <EyeIcon className="h-4 w-4 mr-2" />}
+          {isPreview ? "Write" : "Preview"}
+        </Button>
+      </div>
+      {isPreview ? (
+        <div className="min-h-[200px] p-4 prose max-w-none">
+          {value.trim() ? <RichText content={value} /> : <p className="text-muted-foreground">Nothing to preview</p>}
+        </div>
+      ) : (
+        <Textarea
+          id={id}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          className="min-h-[200px] border-0 rounded-t-none focus-visible:ring-0 font-serif leading-relaxed"
+        />
+      )}
+    </div>
+  )
+}
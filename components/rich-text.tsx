@@ -0,0 +1,89 @@
+import type { HTMLAttributes } from "react"
+import { parseStoryText, type Block, type InlineNode } from "@/lib/rich-text"
+import { cn } from "@/lib/utils"
+
+type BlockProps = HTMLAttributes<HTMLElement> & { [attribute: `data-${string}`]: string | number }
+
+function Inline({ nodes }: { nodes: InlineNode[] }) {
+  return (
+    <>
+      {nodes.map((node, index) =>
+        node.type === "text" ? (
+          node.text
+        ) : node.type === "strong" ? (
+          <strong key={index}>
+            <Inline nodes={node.children} />
+          </strong>
+        ) : (
+          <em key={index}>
+            <Inline nodes={node.children} />
+          </em>
+        ),
+      )}
+    </>
+  )
+}
+
+function RichBlock({ block, className, ...props }: { block: Block } & BlockProps) {
+  switch (block.type) {
+    case "heading": {
+      const Heading = block.level === 1 ? "h3" : "h4"
+      return (
+        <Heading
+          {...props}
+          className={cn(
+            "font-serif font-semibold text-foreground mt-8 mb-4",
+            block.level === 1 ? "text-2xl" : "text-xl",
+            className,
+          )}
+        >
+          <Inline nodes={block.children} />
+        </Heading>
+      )
+    }
+    case "quote":
+      return (
+        <blockquote
+          {...props}
+          className={cn("mb-4 border-l-4 border-primary/40 pl-4 italic text-muted-foreground", className)}
+        >
+          <Inline nodes={block.children} />
+        </blockquote>
+      )
+    case "break":
+      return (
+        <div
+          {...props}
+          role="separator"
+          className={cn("my-8 text-center tracking-[1em] text-muted-foreground", className)}
+        >
+          * * *
+        </div>
+      )
+    case "blank":
+      return <p {...props} className={cn("mb-4", className)} />
+    default:
+      return (
+        <p {...props} className={cn("mb-4 leading-relaxed text-foreground", className)}>
+          <Inline nodes={block.children} />
+        </p>
+      )
+  }
+}
+
+interface RichTextProps {
+  content: string
+  // Extra attributes for each block, by line index; the reader uses them to track position
+  blockProps?: (index: number) => BlockProps
+}
+
+// Safe renderer for story text; see lib/rich-text for the syntax
+export default function RichText({ content, blockProps }: RichTextProps) {
+  return (
+    <>
+      {parseStoryText(content).map((block, index) => (
+        <RichBlock key={index} block={block} {...blockProps?.(index)} />
+      ))}
+    </>
+  )
+}
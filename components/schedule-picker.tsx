@@ -0,0 +1,89 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { format, startOfDay } from "date-fns"
+import { CalendarClockIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+export const formatSchedule = (scheduledFor: string) => format(new Date(scheduledFor), "EEE d MMM yyyy, HH:mm")
+
+interface SchedulePickerProps {
+  // The current schedule, if any
+  value: string | null
+  // Saves the episode with the new schedule; null unschedules it
+  onSchedule: (scheduledFor: string | null) => Promise<void>
+  disabled?: boolean
+}
+
+// Date and time picker for publishing an episode later, in the author's local time
+export default function SchedulePicker({ value, onSchedule, disabled }: SchedulePickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [day, setDay] = useState<Date | undefined>(value ? new Date(value) : undefined)
+  const [time, setTime] = useState(value ? format(new Date(value), "HH:mm") : "09:00")
+
+  const scheduledFor = (() => {
+    if (!day || !/^\d{2}:\d{2}$/.test(time)) return null
+    const [hours, minutes] = time.split(":").map(Number)
+    const date = new Date(day)
+    date.setHours(hours, minutes, 0, 0)
+    return date
+  })()
+  const isPast = scheduledFor !== null && scheduledFor.getTime() <= Date.now()
+
+  const submit = async (next: string | null) => {
+    await onSchedule(next)
+    setIsOpen(false)
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-full sm:w-auto" disabled={disabled}>
+          <CalendarClockIcon className="h-4 w-4 mr-2" />
+          {value ? "Reschedule" : "Schedule"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar mode="single" selected={day} onSelect={setDay} disabled={{ before: startOfDay(new Date()) }} />
+        <div className="space-y-3 border-t border-border p-3">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="schedule-time" className="text-sm">
+              Time
+            </Label>
+            <Input
+              id="schedule-time"
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              className="h-9 w-32"
+            />
+          </div>
+          {isPast && <p className="text-xs text-destructive">Pick a time in the future.</p>}
+          <div className="flex gap-2">
+            {value && (
+              <Button variant="ghost" size="sm" onClick={() => submit(null)}>
+                Unschedule
+              </Button>
+            )}
+            <Button
+              size="sm"
+              className="ml-auto"
+              disabled={!scheduledFor || isPast}
+              onClick={() => scheduledFor && submit(scheduledFor.toISOString())}
+            >
+              Schedule
+            </Button>
+          </div>
+          <Link href="/write/calendar" className="block text-xs text-muted-foreground hover:text-primary">
+            Open release calendar
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import * as React from "react"
+import { authApi } from "@/lib/api"
+import type { LoginInput, SignUpInput } from "@/lib/auth-schema"
+import type { User } from "@/lib/domain"
+
+export type SessionStatus = "loading" | "authenticated" | "unauthenticated"
+
+export interface SessionContextValue {
+  user: User | null
+  status: SessionStatus
+  login: (input: LoginInput) => Promise<User>
+  signUp: (input: SignUpInput) => Promise<User>
+  logout: () => Promise<void>
+  refresh: () => Promise<void>
+}
+
+export const SessionContext = React.createContext<SessionContextValue | null>(null)
+
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = React.useState<User | null>(null)
+  const [status, setStatus] = React.useState<SessionStatus>("loading")
+
+  const applyUser = React.useCallback((nextUser: User | null) => {
+    setUser(nextUser)
+    setStatus(nextUser ? "authenticated" : "unauthenticated")
+    return nextUser
+  }, [])
+
+  const refresh = React.useCallback(async () => {
+    try {
+      applyUser(await authApi.session())
+    } catch {
+      applyUser(null)
+    }
+  }, [applyUser])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const value = React.useMemo<SessionContextValue>(
+    () => ({
+      user,
+      status,
+      login: async (input) => applyUser(await authApi.login(input)) as User,
+      signUp: async (input) => applyUser(await authApi.signUp(input)) as User,
+      logout: async () => {
+        await authApi.logout()
+        applyUser(null)
+      },
+      refresh,
+    }),
+    [user, status, applyUser, refresh],
+  )
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>
+}
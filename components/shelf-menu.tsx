@@ -0,0 +1,71 @@
+"use client"
+
+import Link from "next/link"
+import { BookmarkIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/components/ui/use-toast"
+import { useLibrary } from "@/hooks/use-library"
+import { useSession } from "@/hooks/use-session"
+import { cn } from "@/lib/utils"
+
+interface ShelfMenuProps {
+  storyId: string
+  className?: string
+}
+
+// Bookmark button that adds a story to, or removes it from, any of the reader's shelves
+export default function ShelfMenu({ storyId, className }: ShelfMenuProps) {
+  const { user } = useSession()
+  const { shelves, isOnShelf, toggleStory } = useLibrary()
+  const { toast } = useToast()
+
+  if (!user) return null
+
+  const isBookmarked = isOnShelf("bookmarks", storyId)
+
+  const handleToggle = async (shelfId: string) => {
+    try {
+      await toggleStory(shelfId, storyId)
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className={cn("rounded-full", className)}>
+          <BookmarkIcon className={cn("h-5 w-5", isBookmarked && "fill-current text-primary")} />
+          <span className="sr-only">Save to library</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel>Save to library</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {shelves.map((shelf) => (
+          <DropdownMenuCheckboxItem
+            key={shelf.id}
+            checked={isOnShelf(shelf.id, storyId)}
+            onCheckedChange={() => handleToggle(shelf.id)}
+            onSelect={(e) => e.preventDefault()} // Keep the menu open to pick several shelves
+          >
+            {shelf.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/library">Manage shelves</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
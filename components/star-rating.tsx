@@ -0,0 +1,71 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { StarIcon } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useSession } from "@/hooks/use-session"
+import { storiesApi } from "@/lib/api"
+import type { Story } from "@/lib/domain"
+import { cn } from "@/lib/utils"
+
+interface StarRatingProps {
+  story: Story
+}
+
+// Shows a story's average rating and lets signed-in readers, other than its author, give 1-5 stars
+export default function StarRating({ story }: StarRatingProps) {
+  const { user } = useSession()
+  const { toast } = useToast()
+  const [summary, setSummary] = useState({ average: story.ratingAverage, count: story.ratingCount })
+  const [value, setValue] = useState(0)
+  const [hovered, setHovered] = useState(0)
+  const canRate = Boolean(user && user.id !== story.authorId)
+
+  useEffect(() => {
+    if (!canRate) return
+    storiesApi.rating
+      .get(story.id)
+      .then((rating) => setValue(rating?.value ?? 0))
+      .catch(() => undefined)
+  }, [canRate, story.id])
+
+  const rate = async (stars: number) => {
+    const previous = value
+    setValue(stars)
+    try {
+      const { story: updated } = await storiesApi.rating.set(story.id, { value: stars })
+      setSummary({ average: updated.ratingAverage, count: updated.ratingCount })
+    } catch (error) {
+      setValue(previous)
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  const shown = hovered || value
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-sm text-muted-foreground">
+      {canRate && (
+        <div className="flex" onMouseLeave={() => setHovered(0)}>
+          {[1, 2, 3, 4, 5].map((stars) => (
+            <button
+              key={stars}
+              type="button"
+              aria-label={`Rate ${stars} star${stars === 1 ? "" : "s"}`}
+              onClick={() => rate(stars)}
+              onMouseEnter={() => setHovered(stars)}
+              className="p-1"
+            >
+              <StarIcon className={cn("h-6 w-6", stars <= shown ? "fill-primary text-primary" : "text-muted")} />
+            </button>
+          ))}
+        </div>
+      )}
+      <span>
+        {summary.count > 0
+          ? `${summary.average.toFixed(1)} out of 5 · ${summary.count} rating${summary.count === 1 ? "" : "s"}`
+          : "No ratings yet"}
+      </span>
+    </div>
+  )
+}
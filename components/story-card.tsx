@@ -1,35 +1,53 @@
 "use client"
 
-import Image from "next/image"
+import Link from "next/link"
 import { Card, CardContent } from "@/components/ui/card"
+import CoverImage from "@/components/cover-image"
+import ShelfMenu from "@/components/shelf-menu"
+import TagChips from "@/components/tag-chips"
+import type { Story } from "@/lib/domain"
+import { formatReadingTime } from "@/lib/text"
 
-interface StoryCardProps {
-  title: string
-  author: string
-  readTime: string
-  imageUrl: string
+type StoryCardProps = Pick<
+  Story,
+  "id" | "title" | "author" | "readingSeconds" | "imageUrl" | "episodeCount" | "tags"
+> & {
+  // Defaults to the story's first episode
+  href?: string
 }
 
-export default function StoryCard({ title, author, readTime, imageUrl }: StoryCardProps) {
+export default function StoryCard({
+  id,
+  title,
+  author,
+  readingSeconds,
+  imageUrl,
+  episodeCount,
+  tags,
+  href,
+}: StoryCardProps) {
   return (
-    // Removed whileHover and transition props to remove bounce effect
-    <div className="cursor-pointer">
-      <Card className="w-full h-full rounded-xl overflow-hidden shadow-md bg-card text-card-foreground border-none">
+    // The shelf menu and tag links sit beside the story link rather than inside it, so using them never opens the story
+    <Card className="relative w-full h-full rounded-xl overflow-hidden shadow-md bg-card text-card-foreground border-none">
+      <Link href={href ?? `/story/${id}`} className="block cursor-pointer">
         <div className="relative w-full h-48 sm:h-56 md:h-64 lg:h-72">
-          <Image
-            src={imageUrl || "/placeholder.svg"}
+          <CoverImage
+            src={imageUrl}
             alt={title}
-            layout="fill"
-            objectFit="cover"
-            className="rounded-t-xl"
+            size="thumbnail"
+            className="absolute inset-0 w-full h-full object-cover rounded-t-xl"
           />
         </div>
-        <CardContent className="p-4 space-y-2">
+        <CardContent className="p-4 pb-2 space-y-2">
           <h3 className="text-xl font-serif font-semibold text-foreground line-clamp-2">{title}</h3>
           <p className="text-sm text-muted-foreground font-sans">By {author}</p>
-          <p className="text-xs text-muted-foreground font-sans">{readTime} read</p>
+          <p className="text-xs text-muted-foreground font-sans">
+            {episodeCount} {episodeCount === 1 ? "episode" : "episodes"} · {formatReadingTime(readingSeconds)} read
+          </p>
         </CardContent>
-      </Card>
-    </div>
+      </Link>
+      <TagChips tags={tags} limit={3} className="px-4 pb-4" />
+      <ShelfMenu storyId={id} className="absolute top-2 right-2 bg-card/80 backdrop-blur-sm hover:bg-card" />
+    </Card>
   )
 }
@@ -1,18 +1,42 @@
 "use client"
 
-import React, { useState, useRef, ChangeEvent, useEffect } from "react"
+import React, { useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card"
-import { UploadIcon, SaveIcon, XIcon, EyeIcon, ImageIcon, TextIcon } from "lucide-react"
+import { UploadIcon, SaveIcon, XIcon, EyeIcon, ImageIcon } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
 import { Input } from "@/components/ui/input"
-import { Textarea } from "@/components/ui/textarea"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { AspectRatio } from "@/components/ui/aspect-ratio"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import { cn } from "@/lib/utils"
 import StoryPreviewModal from "./story-preview-modal"
+import RevisionHistory from "./revision-history"
+import RichTextEditor from "./rich-text-editor"
+import SchedulePicker, { formatSchedule } from "./schedule-picker"
+import CoverImage from "./cover-image"
+import PanelBoard from "./panel-board"
+import ManuscriptImport, { type ManuscriptImportProps } from "./manuscript-import"
+import type { EditorState, EpisodeStatus, Revision, Story, StoryContentItem, StoryDraft } from "@/lib/domain"
+import { useTaxonomy } from "@/hooks/use-taxonomy"
+import { useAutosave, type AutosaveStatus } from "@/hooks/use-autosave"
+import { usePanelUploads } from "@/hooks/use-panel-uploads"
+import { mediaApi } from "@/lib/api"
+import { insertPanels } from "@/lib/panels"
+import { episodeReadingSeconds, episodeWordCount, formatReadingTime } from "@/lib/text"
+import TagInput from "./tag-input"
 
 // FloatingLabelInput component (simplified version)
 const FloatingLabelInput = React.forwardRef<HTMLInputElement, any>(({ id, label, ...props }, ref) => (
@@ -28,136 +52,249 @@ const FloatingLabelInput = React.forwardRef<HTMLInputElement, any>(({ id, label,
 ))
 FloatingLabelInput.displayName = "FloatingLabelInput"
 
-// FloatingLabelTextarea component (simplified version)
-const FloatingLabelTextarea = React.forwardRef<HTMLTextAreaElement, any>(({ id, label, ...props }, ref) => (
-  <div className="relative">
-    <Textarea id={id} ref={ref} {...props} className="min-h-[200px] pt-6" />
-    <Label 
-      htmlFor={id} 
-      className="absolute left-3 top-3 text-sm text-muted-foreground transition-all peer-focus:top-2 peer-focus:text-xs peer-focus:text-primary peer-[:not(:placeholder-shown)]:top-2 peer-[:not(:placeholder-shown)]:text-xs"
-    >
-      {label}
-    </Label>
-  </div>
-))
-FloatingLabelTextarea.displayName = "FloatingLabelTextarea"
+const savedAgo = (savedAt: string, now: number) => {
+  const seconds = Math.max(0, Math.round((now - new Date(savedAt).getTime()) / 1000))
+  if (seconds < 5) return "just now"
+  if (seconds < 60) return `${seconds}s ago`
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`
+  return `${Math.floor(seconds / 86400)}d ago`
+}
+
+// Live autosave state for the footer; re-renders every few seconds so "Saved 10s ago" keeps counting
+function AutosaveIndicator({
+  status,
+  savedAt,
+  error,
+  isDirty,
+}: {
+  status: AutosaveStatus;
+  savedAt: string | null;
+  error: string | null;
+  isDirty: boolean;
+}) {
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000)
+    return () => clearInterval(timer)
+  }, [])
+
+  let label = ""
+  if (status === "saving") label = "Saving…"
+  else if (status === "offline") label = "Offline · saved on this device"
+  else if (status === "error") label = `Not saved · ${error}`
+  else if (isDirty) label = "Unsaved changes"
+  else if (status === "saved" && savedAt) label = `Saved ${savedAgo(savedAt, now)}`
+  return <span aria-live="polite">{label}</span>
+}
 
 export interface StoryEditorProps {
   onClose: () => void;
-  story?: {
-    title: string;
+  // The story and episode being edited; omitted for a new story
+  story?: (Pick<Story, 'title'> &
+    Partial<Pick<Story, 'status' | 'genre' | 'tags' | 'imageUrl' | 'allowDownloads' | 'contentType'>> & {
     content: string;
-    status?: string;
-  } | null;
-  onSave?: (storyData: any) => void;
+    episodeNumber?: number;
+    episodeTitle?: string;
+    // The episode's panels, for an image story
+    storyContent?: StoryContentItem[];
+    // The episode's current status; saving keeps it unless the author publishes or unpublishes
+    episodeStatus?: EpisodeStatus;
+    scheduledFor?: string | null;
+  }) | null;
+  onSave?: (draft: StoryDraft) => void | Promise<void>;
+  // Names this editing session for autosave, e.g. "new-story" or "story-s1-episode-2"
+  autosaveKey: string;
+  // The saved episode being edited, whose revisions the history panel lists; null until the first save
+  revisionsOf?: { storyId: string; episodeNumber: number } | null;
+  // Creates imported episodes as drafts, with the story details filled in so far
+  onImport?: (
+    draft: Pick<StoryDraft, 'title' | 'genre' | 'tags' | 'imageUrl' | 'allowDownloads'> &
+      Pick<Parameters<ManuscriptImportProps['onImport']>[0], 'episodes'>,
+  ) => Promise<void>;
 }
 
-export default function StoryEditor({ onClose, story: initialStory, onSave }: StoryEditorProps) {
+export default function StoryEditor({
+  onClose,
+  story: initialStory,
+  onSave,
+  autosaveKey,
+  revisionsOf,
+  onImport,
+}: StoryEditorProps) {
   const [title, setTitle] = useState(initialStory?.title || "")
-  const [episodeNumber, setEpisodeNumber] = useState("")
+  const [episodeNumber, setEpisodeNumber] = useState(initialStory?.episodeNumber?.toString() || "")
+  const [episodeTitle, setEpisodeTitle] = useState(initialStory?.episodeTitle || "")
   const [content, setContent] = useState(initialStory?.content || "")
-  const [genre, setGenre] = useState("")
-  const [tags, setTags] = useState("")
-  const [coverImage, setCoverImage] = useState<File | null>(null)
-  const [contentType, setContentType] = useState<"text" | "image">("text")
-  const [storyContent, setStoryContent] = useState<{
-    id: string;
-    type: 'text' | 'image';
-    content: string;
-    order: number;
-  }[]>([])
-  const [currentText, setCurrentText] = useState("")
+  const { genres, tagName } = useTaxonomy()
+  // Genre and tags arrive as slugs; tags are edited by display name and resolved again on save
+  const [genre, setGenre] = useState(initialStory?.genre || "")
+  const [tags, setTags] = useState<string[]>((initialStory?.tags ?? []).map(tagName))
+  // Uploaded as soon as it is picked, so this is always a stable URL
+  const [imageUrl, setImageUrl] = useState(initialStory?.imageUrl || "")
+  const [isUploadingCover, setIsUploadingCover] = useState(false)
+  const [allowDownloads, setAllowDownloads] = useState(initialStory?.allowDownloads ?? false)
+  const [storyContent, setStoryContent] = useState<StoryContentItem[]>(initialStory?.storyContent ?? [])
+  // An episode with panels opens on them whatever the story says; stories made before the choice was saved are "text"
+  const [contentType, setContentType] = useState<"text" | "image">(
+    initialStory?.storyContent?.length ? "image" : (initialStory?.contentType ?? "text"),
+  )
   const [isSaving, setIsSaving] = useState(false)
   const [isPublishing, setIsPublishing] = useState(false)
-  const [autoSaveStatus, setAutoSaveStatus] = useState("Saved")
+  // The episode's status and when it is due to publish itself, as last saved
+  const [episodeStatus, setEpisodeStatus] = useState<EpisodeStatus>(initialStory?.episodeStatus ?? 'draft')
+  const [scheduledFor, setScheduledFor] = useState(initialStory?.scheduledFor ?? null)
   const [showPreview, setShowPreview] = useState(false)
   
-  const fileInputRef = useRef<HTMLInputElement>(null)
+  const coverInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
 
-  const handleCoverImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files?.[0]) {
-      setCoverImage(e.target.files[0])
-    }
-  }
+  const panelUploads = usePanelUploads((panelId, imageId) =>
+    setStoryContent((prev) => prev.map((item) => (item.id === panelId ? { ...item, content: imageId } : item))),
+  )
+  // Image panels get their content once the upload lands, and new text panels once typed in; until then they
+  // are left out of saves, autosaves and previews
+  const readyContent = storyContent
+    .filter((item) => item.content.trim())
+    .map((item, index) => ({ ...item, order: index }))
 
-  const handleAddImage = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
+  // Counted the way the server will count the saved episode
+  const wordCount = episodeWordCount({ content, storyContent: readyContent })
+  const readingSeconds = episodeReadingSeconds({ content, storyContent: readyContent })
 
-    const reader = new FileReader()
-    reader.onloadend = () => {
-      const newContent = {
-        id: Date.now().toString(),
-        type: 'image' as const,
-        content: reader.result as string,
-        order: storyContent.length
-      }
-      setStoryContent(prev => [...prev, newContent])
-    }
-    reader.readAsDataURL(file)
+  const editorState: EditorState = {
+    title,
+    episodeNumber,
+    episodeTitle,
+    genre,
+    tags,
+    imageUrl,
+    content,
+    contentType,
+    storyContent: readyContent,
   }
+  const autosave = useAutosave({
+    key: autosaveKey,
+    state: editorState,
+    onRestore: (state) => {
+      setTitle(state.title)
+      setEpisodeNumber(state.episodeNumber)
+      setGenre(state.genre)
+      setTags(state.tags)
+      // Copies autosaved before covers or episode titles existed have none
+      setImageUrl(state.imageUrl ?? "")
+      setEpisodeTitle(state.episodeTitle ?? "")
+      setContent(state.content)
+      setContentType(state.contentType)
+      setStoryContent(state.storyContent)
+    },
+  })
 
-  const handleAddText = () => {
-    if (!currentText.trim()) return
-    
-    const newContent = {
-      id: Date.now().toString(),
-      type: 'text' as const,
-      content: currentText.trim(),
-      order: storyContent.length
+  const handleCoverImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Lets the same file be picked again after a failed upload
+    e.target.value = ""
+    if (!file) return
+    setIsUploadingCover(true)
+    try {
+      setImageUrl((await mediaApi.upload(file, "cover")).url)
+    } catch (error) {
+      toast({ title: "Cover Upload Failed", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setIsUploadingCover(false)
     }
-    setStoryContent(prev => [...prev, newContent])
-    setCurrentText("")
   }
 
-  const removeContentItem = (id: string) => {
-    setStoryContent(prev => 
-      prev
-        .filter(item => item.id !== id)
-        .map((item, index) => ({ ...item, order: index }))
-    )
+  // Each image becomes a panel straight away and uploads in the background
+  const addImagePanels = (files: File[], index: number) => {
+    const added = files.map((file) => ({
+      file,
+      panel: { id: crypto.randomUUID(), type: 'image' as const, content: '', order: 0 },
+    }))
+    setStoryContent(prev => insertPanels(prev, index, added.map(({ panel }) => panel)))
+    added.forEach(({ file, panel }) => panelUploads.add(panel.id, file))
   }
 
-  const handleSave = (publish = false) => {
+  // Saves keep the episode's status; only Publish and Unpublish change it
+  const handleSave = async (publish = false, schedule = scheduledFor, unpublish = false) => {
     setIsSaving(true)
     setIsPublishing(publish)
+    // The copy to clear is the one this save began with; a first save may move autosaving to a new key
+    const clearAutosave = autosave.clear
     
-    // Simulate API call
-    setTimeout(() => {
-      if (onSave) {
-        onSave({
-          title,
-          content,
-          genre,
-          tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
-          status: publish ? 'published' : 'draft',
-          coverImage: coverImage ? URL.createObjectURL(coverImage) : null,
-          storyContent,
-          publishedAt: publish ? new Date().toISOString() : null
+    // Blank or invalid means "the next episode"
+    const parsedEpisodeNumber = Number.parseInt(episodeNumber, 10)
+    const status: EpisodeStatus = publish ? 'published' : unpublish ? 'draft' : episodeStatus
+    // Publishing now replaces any schedule
+    const nextSchedule = status === 'published' ? null : schedule
+
+    try {
+      await onSave?.({
+        title,
+        episodeNumber: parsedEpisodeNumber > 0 ? parsedEpisodeNumber : null,
+        episodeTitle,
+        content,
+        genre,
+        tags,
+        imageUrl,
+        contentType,
+        allowDownloads,
+        status,
+        publish,
+        scheduledFor: nextSchedule,
+        storyContent: readyContent,
+      })
+      // The story now holds these changes, so the autosaved copy would only offer them back
+      await clearAutosave()
+      setEpisodeStatus(status)
+      setScheduledFor(nextSchedule)
+      
+      if (nextSchedule && nextSchedule !== scheduledFor) {
+        toast({
+          title: "Episode Scheduled!",
+          description: `It will be published on ${formatSchedule(nextSchedule)}.`,
+        })
+      } else if (unpublish) {
+        toast({
+          title: "Episode Unpublished",
+          description: "Readers can no longer see this episode. It has been saved as a draft.",
+        })
+      } else {
+        toast({
+          title: publish ? "Story Published!" : status === 'published' ? "Changes Saved!" : "Draft Saved!",
+          description: publish 
+            ? "Your story has been published successfully." 
+            : status === 'published'
+              ? "Your changes are live."
+              : "Your changes have been saved as a draft.",
         })
       }
       
-      setIsSaving(false)
-      
-      toast({
-        title: publish ? "Story Published!" : "Draft Saved!",
-        description: publish 
-          ? "Your story has been published successfully." 
-          : "Your changes have been saved as a draft.",
-      })
-      
       if (publish) {
         onClose()
       }
-    }, 1000)
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setIsSaving(false)
+      setIsPublishing(false)
+    }
+  }
+
+  // Restoring only changes the draft; autosave picks it up and a real save makes it the latest revision
+  const handleRestoreRevision = (revision: Revision) => {
+    setEpisodeTitle(revision.title)
+    setContent(revision.content)
+    setStoryContent(revision.storyContent)
+    setContentType(revision.storyContent.length > 0 && !revision.content ? 'image' : 'text')
   }
 
   const handleSaveDraft = () => handleSave(false)
   const handlePublish = () => handleSave(true)
+  const handleUnpublish = () => handleSave(false, null, true)
 
   const handlePreview = () => {
-    if (!title || (contentType === 'text' ? !content : storyContent.length === 0)) {
+    if (!title || (contentType === 'text' ? !content : readyContent.length === 0)) {
       toast({
         title: "Cannot Preview",
         description: "Please add a title and some content to preview your story.",
@@ -168,21 +305,12 @@ export default function StoryEditor({ onClose, story: initialStory, onSave }: St
     setShowPreview(true)
   }
 
-  useEffect(() => {
-    const handler = setTimeout(() => {
-      if (title || content || storyContent.length > 0) {
-        setAutoSaveStatus("Saving...")
-        setTimeout(() => {
-          setAutoSaveStatus("Saved")
-        }, 500)
-      }
-    }, 1000)
-    
-    return () => clearTimeout(handler)
-  }, [title, content, storyContent])
+  const hasPreviewContent = contentType === 'text' ? content.trim() !== '' : readyContent.length > 0
 
   const isPublishDisabled = 
     isSaving ||
+    isUploadingCover ||
+    panelUploads.pending > 0 ||
     isPublishing ||
     !title ||
     !genre ||
@@ -198,10 +326,31 @@ export default function StoryEditor({ onClose, story: initialStory, onSave }: St
               {initialStory ? 'Edit Story' : 'Create New Story'}
             </CardTitle>
             <div className="flex gap-2">
+              {revisionsOf && (
+                <RevisionHistory
+                  storyId={revisionsOf.storyId}
+                  episodeNumber={revisionsOf.episodeNumber}
+                  onRestore={handleRestoreRevision}
+                />
+              )}
+              {onImport && (
+                <ManuscriptImport
+                  onImport={(manuscript) =>
+                    onImport({
+                      title: title || manuscript.title,
+                      genre,
+                      tags,
+                      imageUrl,
+                      allowDownloads,
+                      episodes: manuscript.episodes,
+                    })
+                  }
+                />
+              )}
               <Button 
                 variant="outline" 
                 onClick={handlePreview}
-                disabled={storyContent.length === 0}
+                disabled={!hasPreviewContent}
               >
                 <EyeIcon className="h-4 w-4 mr-2" />
                 Preview
@@ -214,13 +363,19 @@ export default function StoryEditor({ onClose, story: initialStory, onSave }: St
         </CardHeader>
         
         <CardContent className="space-y-6">
-          <div className="grid sm:grid-cols-2 gap-6">
+          <div className="grid sm:grid-cols-3 gap-6">
             <FloatingLabelInput 
               id="title" 
               label="Title" 
               value={title} 
               onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTitle(e.target.value)} 
             />
+            <FloatingLabelInput
+              id="episode-title"
+              label="Episode Title (Optional)"
+              value={episodeTitle}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEpisodeTitle(e.target.value)}
+            />
             <FloatingLabelInput
               id="episode-number"
               label="Episode No. (Optional)"
@@ -240,27 +395,81 @@ export default function StoryEditor({ onClose, story: initialStory, onSave }: St
                   <SelectValue placeholder="Select a genre" />
                 </SelectTrigger>
                 <SelectContent className="rounded-lg bg-card text-card-foreground border-border">
-                  <SelectItem value="fantasy">Fantasy</SelectItem>
-                  <SelectItem value="sci-fi">Science Fiction</SelectItem>
-                  <SelectItem value="romance">Romance</SelectItem>
-                  <SelectItem value="thriller">Thriller</SelectItem>
-                  <SelectItem value="mystery">Mystery</SelectItem>
-                  <SelectItem value="horror">Horror</SelectItem>
+                  {genres.map((option) => (
+                    <SelectItem key={option.slug} value={option.slug}>{option.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
             <div className="grid gap-2">
-              <FloatingLabelInput
+              <Label htmlFor="tags" className="text-lg text-foreground">
+                Tags
+              </Label>
+              <TagInput
                 id="tags"
-                label="Tags (comma-separated)"
                 value={tags}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTags(e.target.value)}
+                onChange={setTags}
                 placeholder="e.g., adventure, mystery, romance"
               />
             </div>
           </div>
 
+          <div className="grid gap-2">
+            <Label className="text-lg text-foreground">Cover Image</Label>
+            <div className="flex items-center gap-4">
+              <div className="w-24 h-32 shrink-0 rounded-lg overflow-hidden bg-muted flex items-center justify-center">
+                {imageUrl ? (
+                  <CoverImage
+                    src={imageUrl}
+                    alt="Story cover"
+                    size="thumbnail"
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <ImageIcon className="h-6 w-6 text-muted-foreground" />
+                )}
+              </div>
+              <div className="space-y-2">
+                <input
+                  type="file"
+                  ref={coverInputRef}
+                  onChange={handleCoverImageChange}
+                  accept="image/jpeg,image/png,image/webp"
+                  className="hidden"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => coverInputRef.current?.click()}
+                    disabled={isUploadingCover}
+                  >
+                    <UploadIcon className="h-4 w-4 mr-2" />
+                    {isUploadingCover ? 'Uploading...' : imageUrl ? 'Replace Cover' : 'Upload Cover'}
+                  </Button>
+                  {imageUrl && (
+                    <Button type="button" variant="ghost" onClick={() => setImageUrl("")} disabled={isUploadingCover}>
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">JPEG, PNG or WebP, up to 5 MB.</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="allow-downloads"
+              checked={allowDownloads}
+              onCheckedChange={(checked) => setAllowDownloads(checked === true)}
+            />
+            <Label htmlFor="allow-downloads" className="font-normal">
+              Let readers download this story as EPUB or PDF
+            </Label>
+          </div>
+
           <div className="space-y-4">
             <Tabs value={contentType} onValueChange={(value) => setContentType(value as 'text' | 'image')}>
               <TabsList className="grid w-full grid-cols-2">
@@ -270,88 +479,27 @@ export default function StoryEditor({ onClose, story: initialStory, onSave }: St
               
               <TabsContent value="text" className="mt-4">
                 <div className="space-y-4">
-                  <FloatingLabelTextarea
+                  <Label htmlFor="content" className="text-lg text-foreground">
+                    Your Story
+                  </Label>
+                  <RichTextEditor
                     id="content"
-                    label="Your Story"
                     value={content}
-                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setContent(e.target.value)}
+                    onChange={setContent}
+                    placeholder="Start writing. Use the toolbar or shortcuts for bold, italics, headings, quotes and scene breaks."
                   />
                 </div>
               </TabsContent>
               
               <TabsContent value="image" className="mt-4">
-                <div className="space-y-4">
-                  <div className="flex gap-2">
-                    <input
-                      type="file"
-                      ref={fileInputRef}
-                      onChange={handleAddImage}
-                      accept="image/*"
-                      className="hidden"
-                    />
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => fileInputRef.current?.click()}
-                    >
-                      <ImageIcon className="h-4 w-4 mr-2" />
-                      Add Image
-                    </Button>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => {
-                        const text = prompt("Enter your text:")
-                        if (text) {
-                          setCurrentText(text)
-                          handleAddText()
-                        }
-                      }}
-                    >
-                      <TextIcon className="h-4 w-4 mr-2" />
-                      Add Text
-                    </Button>
-                  </div>
-
-                  <div className="space-y-2">
-                    {storyContent.map((item) => (
-                      <div key={item.id} className="border rounded p-2 flex justify-between items-center">
-                        <div className="flex items-center space-x-2">
-                          {item.type === 'image' ? (
-                            <div className="w-12 h-12 bg-gray-100 rounded overflow-hidden">
-                              <img 
-                                src={item.content} 
-                                alt="Story content" 
-                                className="w-full h-full object-cover"
-                              />
-                            </div>
-                          ) : (
-                            <div className="w-12 h-12 bg-gray-100 rounded flex items-center justify-center">
-                              <TextIcon className="h-4 w-4 text-gray-500" />
-                            </div>
-                          )}
-                          <span className="text-sm truncate max-w-[200px]">
-                            {item.type === 'image' ? 'Image' : item.content.substring(0, 30) + (item.content.length > 30 ? '...' : '')}
-                          </span>
-                        </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8"
-                          onClick={() => removeContentItem(item.id)}
-                        >
-                          <XIcon className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    ))}
-                    {storyContent.length === 0 && (
-                      <div className="text-center py-8 text-gray-500">
-                        <p>No content added yet</p>
-                        <p className="text-sm">Click 'Add Image' or 'Add Text' to get started</p>
-                      </div>
-                    )}
-                  </div>
-                </div>
+                <PanelBoard
+                  panels={storyContent}
+                  onChange={setStoryContent}
+                  uploads={panelUploads.uploads}
+                  onRetryUpload={panelUploads.retry}
+                  onAddImages={addImagePanels}
+                  onRemove={(panelIds) => panelIds.forEach(panelUploads.remove)}
+                />
               </TabsContent>
             </Tabs>
           </div>
@@ -359,7 +507,20 @@ export default function StoryEditor({ onClose, story: initialStory, onSave }: St
         
         <CardFooter className="px-6 py-4 bg-gray-50 dark:bg-gray-800 flex flex-col sm:flex-row justify-between items-center gap-4">
           <div className="text-sm text-gray-500 dark:text-gray-400">
-            {autoSaveStatus}
+            <span>
+              {wordCount.toLocaleString()} {wordCount === 1 ? 'word' : 'words'} · {formatReadingTime(readingSeconds)} read
+            </span>
+            <span> · </span>
+            <AutosaveIndicator
+              status={autosave.status}
+              savedAt={autosave.savedAt}
+              error={autosave.error}
+              isDirty={autosave.isDirty}
+            />
+            {scheduledFor && <span> · Scheduled for {formatSchedule(scheduledFor)}</span>}
+            {panelUploads.pending > 0 && (
+              <span> · {panelUploads.pending} image{panelUploads.pending === 1 ? '' : 's'} not uploaded yet</span>
+            )}
           </div>
           <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
             <div className="md:hidden w-full">
@@ -367,7 +528,7 @@ export default function StoryEditor({ onClose, story: initialStory, onSave }: St
                 variant="outline" 
                 className="w-full"
                 onClick={handlePreview}
-                disabled={storyContent.length === 0}
+                disabled={!hasPreviewContent}
               >
                 <EyeIcon className="h-4 w-4 mr-2" />
                 Preview Story
@@ -380,34 +541,79 @@ export default function StoryEditor({ onClose, story: initialStory, onSave }: St
             >
               Cancel
             </Button>
-            <Button 
-              variant="default" 
-              className="w-full sm:w-auto"
-              onClick={handleSaveDraft}
-              disabled={isSaving || isPublishing}
-            >
-              {isSaving ? 'Saving...' : 'Save as Draft'}
-            </Button>
-            <Button 
-              variant="default" 
-              className="w-full sm:w-auto"
-              onClick={handlePublish}
-              disabled={isPublishDisabled}
-            >
-              {isPublishing ? 'Publishing...' : 'Publish'}
-            </Button>
+            {episodeStatus === 'published' ? (
+              <>
+                {/* A live episode is saved as it is; taking it down is its own action */}
+                <Button 
+                  variant="outline" 
+                  className="w-full sm:w-auto"
+                  onClick={handleUnpublish}
+                  disabled={isSaving || isPublishing || panelUploads.pending > 0}
+                >
+                  Unpublish
+                </Button>
+                <Button 
+                  variant="default" 
+                  className="w-full sm:w-auto"
+                  onClick={handleSaveDraft}
+                  disabled={isPublishDisabled}
+                >
+                  {isSaving ? 'Saving...' : 'Save Changes'}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button 
+                  variant="default" 
+                  className="w-full sm:w-auto"
+                  onClick={handleSaveDraft}
+                  disabled={isSaving || isPublishing || panelUploads.pending > 0}
+                >
+                  {isSaving ? 'Saving...' : 'Save as Draft'}
+                </Button>
+                <SchedulePicker
+                  value={scheduledFor}
+                  onSchedule={(schedule) => handleSave(false, schedule)}
+                  disabled={isPublishDisabled}
+                />
+                <Button 
+                  variant="default" 
+                  className="w-full sm:w-auto"
+                  onClick={handlePublish}
+                  disabled={isPublishDisabled}
+                >
+                  {isPublishing ? 'Publishing...' : 'Publish'}
+                </Button>
+              </>
+            )}
           </div>
         </CardFooter>
       </Card>
 
+      <AlertDialog open={Boolean(autosave.recovery)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Recover unsaved changes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {autosave.recovery &&
+                `This device kept changes from ${new Date(autosave.recovery.updatedAt).toLocaleString()} that never reached the server. They are newer than the autosaved copy.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={autosave.discardRecovery}>Discard</AlertDialogCancel>
+            <AlertDialogAction onClick={autosave.restoreRecovery}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {showPreview && (
         <StoryPreviewModal
           isOpen={showPreview}
           onClose={() => setShowPreview(false)}
           title={title}
           content={content}
-          coverImage={coverImage}
-          storyContent={storyContent}
+          contentType={contentType}
+          storyContent={readyContent}
         />
       )}
     </div>
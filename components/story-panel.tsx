@@ -0,0 +1,77 @@
+import type { CSSProperties, HTMLAttributes, ReactNode } from "react"
+import PanelImage from "@/components/panel-image"
+import type { PanelOverlay as Overlay, StoryContentItem } from "@/lib/domain"
+import { cn } from "@/lib/utils"
+
+export const OVERLAY_FONTS: Record<Overlay["font"], { label: string; family: string }> = {
+  sans: { label: "Sans", family: "ui-sans-serif, system-ui, sans-serif" },
+  serif: { label: "Serif", family: "ui-serif, Georgia, serif" },
+  comic: { label: "Comic", family: '"Comic Sans MS", "Comic Neue", "Chalkboard SE", cursive' },
+}
+
+// Sizes are in cqw, hundredths of the panel's width, so text scales with the picture
+function overlayStyle(overlay: Overlay): CSSProperties {
+  const boxed = overlay.background !== null
+  return {
+    left: `${overlay.x * 100}%`,
+    top: `${overlay.y * 100}%`,
+    width: `${overlay.width * 100}%`,
+    transform: "translate(-50%, -50%)",
+    fontFamily: OVERLAY_FONTS[overlay.font].family,
+    fontSize: `${overlay.fontSize}cqw`,
+    color: overlay.color,
+    background: overlay.background ?? undefined,
+    padding: boxed ? (overlay.kind === "speech" ? "0.6em 0.9em" : "0.4em 0.6em") : 0,
+    borderRadius: overlay.kind === "speech" ? "1.2em" : "0.25em",
+    // Unboxed text needs a halo to stay readable on busy pictures
+    textShadow: boxed ? undefined : "0 0 0.25em rgba(0, 0, 0, 0.85)",
+  }
+}
+
+type PanelOverlayProps = { overlay: Overlay } & HTMLAttributes<HTMLDivElement>
+
+// One overlay, absolutely placed within its StoryPanel. The editor passes handlers to select and drag it.
+export function PanelOverlay({ overlay, className, style, ...props }: PanelOverlayProps) {
+  const hasTail = overlay.kind === "speech" && overlay.background !== null && overlay.tail !== "none"
+  return (
+    <div
+      className={cn("absolute whitespace-pre-wrap break-words text-center leading-snug", className)}
+      style={{ ...overlayStyle(overlay), ...style }}
+      {...props}
+    >
+      {overlay.text}
+      {hasTail && (
+        <span
+          aria-hidden
+          className="absolute top-full"
+          style={{
+            [overlay.tail === "left" ? "left" : "right"]: "20%",
+            borderLeft: "0.5em solid transparent",
+            borderRight: "0.5em solid transparent",
+            borderTop: `0.8em solid ${overlay.background}`,
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+interface StoryPanelProps {
+  // An image panel
+  panel: StoryContentItem
+  alt?: string
+  className?: string
+  // Replaces the rendered overlays, for the overlay editor
+  children?: ReactNode
+}
+
+// An image panel as readers see it: the picture at its own aspect ratio with its overlays on top.
+// The preview, the reader and the overlay editor all draw panels through this, so they match exactly.
+export default function StoryPanel({ panel, alt = "", className, children }: StoryPanelProps) {
+  return (
+    <div className={cn("relative overflow-hidden", className)} style={{ containerType: "inline-size" }}>
+      <PanelImage content={panel.content} alt={alt} className="block w-full h-auto select-none" />
+      {children ?? panel.overlays?.map((overlay) => <PanelOverlay key={overlay.id} overlay={overlay} />)}
+    </div>
+  )
+}
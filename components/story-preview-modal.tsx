@@ -7,20 +7,17 @@ import Image from "next/image"
 import { cn } from "@/lib/utils"
 import { AspectRatio } from "@/components/ui/aspect-ratio"
 import { useState, useEffect } from "react"
-
-export interface StoryContentItem {
-  id: string;
-  type: 'text' | 'image';
-  content: string;
-  order: number;
-}
+import RichText from "@/components/rich-text"
+import StoryPanel from "@/components/story-panel"
+import type { StoryContentItem, StoryContentType } from "@/lib/domain"
 
 interface StoryPreviewModalProps {
   isOpen: boolean;
   onClose: () => void;
   title: string;
   content: string;
-  coverImage: File | null;
+  // Text stories preview as a page of formatted text, image stories as a slideshow
+  contentType?: StoryContentType;
   storyContent: StoryContentItem[];
 }
 
@@ -29,7 +26,7 @@ export default function StoryPreviewModal({
   onClose, 
   title, 
   content, 
-  coverImage, 
+  contentType = 'image',
   storyContent 
 }: StoryPreviewModalProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -61,6 +58,21 @@ export default function StoryPreviewModal({
     }
   }, [isOpen]);
 
+  if (contentType === 'text') {
+    return (
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-3xl font-serif font-bold text-primary">{title}</DialogTitle>
+          </DialogHeader>
+          <div className="prose max-w-none text-foreground">
+            <RichText content={content} />
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   if (storyContent.length === 0) return null;
 
   const currentItem = storyContent[currentIndex];
@@ -128,14 +140,13 @@ export default function StoryPreviewModal({
           <AspectRatio ratio={9/16} className="bg-black">
             <div className="relative w-full h-full flex items-center justify-center">
               {currentItem.type === 'image' ? (
-                <img
-                  src={currentItem.content}
-                  alt="Story content"
-                  className={cn(
-                    "w-full h-full object-cover transition-opacity duration-200",
-                    isTransitioning ? 'opacity-0' : 'opacity-100'
-                  )}
-                />
+                // Shown whole rather than cropped, so overlays sit where the writer placed them
+                <div className={cn(
+                  "w-full max-h-full overflow-y-auto transition-opacity duration-200",
+                  isTransitioning ? 'opacity-0' : 'opacity-100'
+                )}>
+                  <StoryPanel panel={currentItem} alt="Story content" />
+                </div>
               ) : (
                 <div className={cn(
                   "p-8 text-center text-white text-lg leading-relaxed transition-opacity duration-200",
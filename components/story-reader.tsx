@@ -1,26 +1,102 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Slider } from "@/components/ui/slider"
-import { BookOpenIcon, MinusIcon, PlusIcon, SettingsIcon } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import {
+  BookOpenIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ListIcon,
+  MinusIcon,
+  PencilIcon,
+  PlusIcon,
+  SettingsIcon,
+} from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet" // For settings drawer
+import CommentSection from "@/components/comment-section"
+import CoverImage from "@/components/cover-image"
+import DownloadMenu from "@/components/download-menu"
+import ShelfMenu from "@/components/shelf-menu"
+import StarRating from "@/components/star-rating"
+import TagChips from "@/components/tag-chips"
+import RichText from "@/components/rich-text"
+import { useRecordView } from "@/hooks/use-record-view"
+import { useSession } from "@/hooks/use-session"
+import { blockFromHash, useVisibleBlocks } from "@/hooks/use-visible-blocks"
+import { progressApi } from "@/lib/api"
+import type { Episode, ReadingProgress, Story } from "@/lib/domain"
+import { writeHref } from "@/lib/routes"
+
+export type EpisodeSummary = Pick<Episode, "number" | "title" | "status">
 
 interface StoryReaderProps {
-  story: {
-    title: string
-    author: string
-    content: string
-  }
+  story: Story
+  episode: Episode
+  // Table of contents, in reading order
+  episodes: EpisodeSummary[]
+  canEdit?: boolean
+  // Where the signed-in reader stopped in this episode last time
+  savedProgress?: ReadingProgress | null
 }
 
-export default function StoryReader({ story }: StoryReaderProps) {
+const episodeLabel = ({ number, title }: Pick<Episode, "number" | "title">) =>
+  title ? `Episode ${number}: ${title}` : `Episode ${number}`
+
+export default function StoryReader({
+  story,
+  episode,
+  episodes,
+  canEdit = false,
+  savedProgress = null,
+}: StoryReaderProps) {
+  const { user } = useSession()
   const [fontSize, setFontSize] = useState(16) // Default font size
-  const [progress, setProgress] = useState(30) // Simulate reading progress
   const [isZenMode, setIsZenMode] = useState(false) // Zen mode toggle
 
+  // One block per line of the episode; reading positions are block indexes
+  const paragraphs = episode.content.split("\n")
+  const contentRef = useRef<HTMLDivElement>(null)
+  // Topmost and bottommost paragraphs currently on screen
+  const position = useVisibleBlocks(contentRef, episode.id) ?? { first: savedProgress?.paragraph ?? 0, last: -1 }
+  const progress = Math.round(((position.last + 1) / paragraphs.length) * 100)
+  // Opening a story must not overwrite saved progress; only scrolling counts as reading
+  const hasScrolled = useRef(false)
+
+  const scrollToParagraph = (index: number) => {
+    contentRef.current?.querySelector(`#p-${index}`)?.scrollIntoView({ block: "start" })
+  }
+
+  useEffect(() => {
+    const markScrolled = () => {
+      hasScrolled.current = true
+    }
+    window.addEventListener("scroll", markScrolled, { once: true, passive: true })
+
+    // Resume links point at #p-<index>
+    const resumeAt = blockFromHash()
+    if (resumeAt !== null) scrollToParagraph(resumeAt)
+
+    return () => window.removeEventListener("scroll", markScrolled)
+  }, [episode.id])
+
+  useRecordView(story)
+
+  // Persist the position once the reader settles on it
+  useEffect(() => {
+    if (!user || !hasScrolled.current) return
+    const timer = setTimeout(() => {
+      progressApi
+        .save(story.id, { episodeNumber: episode.number, paragraph: position.first, percent: progress })
+        .catch(() => undefined) // Progress is best-effort; reading carries on either way
+    }, 1000)
+    return () => clearTimeout(timer)
+  }, [user, story.id, episode.number, position.first, progress])
+
   const handleFontSizeChange = (value: number[]) => {
     setFontSize(value[0])
   }
@@ -28,6 +104,11 @@ export default function StoryReader({ story }: StoryReaderProps) {
   const increaseFontSize = () => setFontSize((prev) => Math.min(prev + 2, 24))
   const decreaseFontSize = () => setFontSize((prev) => Math.max(prev - 2, 12))
 
+  const episodeIndex = episodes.findIndex((entry) => entry.number === episode.number)
+  const previousEpisode = episodeIndex > 0 ? episodes[episodeIndex - 1] : null
+  const nextEpisode = episodeIndex >= 0 && episodeIndex < episodes.length - 1 ? episodes[episodeIndex + 1] : null
+  const episodeHref = (number: number) => `/story/${story.id}/${number}`
+
   return (
     <div className="container mx-auto py-8 px-4 md:px-8 max-w-3xl">
       <Card className="rounded-xl shadow-lg bg-card text-card-foreground p-6 md:p-8">
@@ -35,6 +116,61 @@ export default function StoryReader({ story }: StoryReaderProps) {
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-4xl font-serif font-bold text-primary">{story.title}</h2>
             <div className="flex items-center gap-2">
+              <ShelfMenu storyId={story.id} />
+              <DownloadMenu
+                story={story}
+                episodeNumber={episode.number}
+                episodeCount={episodes.length}
+                canEdit={canEdit}
+              />
+              <Sheet>
+                <SheetTrigger asChild>
+                  <Button variant="ghost" size="icon" className="rounded-full">
+                    <ListIcon className="h-5 w-5" />
+                    <span className="sr-only">Table of Contents</span>
+                  </Button>
+                </SheetTrigger>
+                <SheetContent side="left" className="bg-card text-card-foreground overflow-y-auto">
+                  <SheetHeader>
+                    <SheetTitle className="font-serif text-2xl">Episodes</SheetTitle>
+                  </SheetHeader>
+                  <nav className="py-6 flex flex-col gap-1">
+                    {episodes.map((entry) => (
+                      <Link
+                        key={entry.number}
+                        href={episodeHref(entry.number)}
+                        className={cn(
+                          "rounded-md px-3 py-2 text-sm hover:bg-muted",
+                          entry.number === episode.number
+                            ? "bg-primary/10 font-semibold text-primary"
+                            : "text-foreground",
+                        )}
+                      >
+                        {episodeLabel(entry)}
+                        {entry.status === "draft" && (
+                          <span className="ml-2 text-xs text-muted-foreground">(Draft)</span>
+                        )}
+                      </Link>
+                    ))}
+                  </nav>
+                  {canEdit && (
+                    <div className="space-y-2">
+                      <Button asChild variant="outline" className="w-full rounded-lg">
+                        <Link href={writeHref(story.id, episode.number)}>
+                          <PencilIcon className="h-4 w-4 mr-2" />
+                          Edit This Episode
+                        </Link>
+                      </Button>
+                      <Button asChild variant="outline" className="w-full rounded-lg">
+                        <Link href={writeHref(story.id)}>
+                          <PlusIcon className="h-4 w-4 mr-2" />
+                          New Episode
+                        </Link>
+                      </Button>
+                    </div>
+                  )}
+                </SheetContent>
+              </Sheet>
               <Sheet>
                 <SheetTrigger asChild>
                   <Button variant="ghost" size="icon" className="rounded-full">
@@ -93,18 +229,54 @@ export default function StoryReader({ story }: StoryReaderProps) {
             </div>
           </div>
 
-          <p className="text-lg text-muted-foreground font-sans mb-8">By {story.author}</p>
+          <div className="flex items-center gap-4">
+            {story.imageUrl && (
+              <CoverImage
+                src={story.imageUrl}
+                alt={story.title}
+                size="thumbnail"
+                className="w-20 h-28 flex-shrink-0 rounded-lg object-cover shadow-md"
+              />
+            )}
+            <div className="space-y-2">
+              <p className="text-lg text-muted-foreground font-sans">By {story.author}</p>
+              <TagChips tags={story.tags} />
+            </div>
+          </div>
+          <h3 className="text-2xl font-serif font-semibold text-foreground mb-8">{episodeLabel(episode)}</h3>
 
           {/* Story Content */}
           <div
+            ref={contentRef}
             className={cn("prose max-w-none text-foreground")} // Ensure text color is foreground
             style={{ fontSize: `${fontSize}px` }}
           >
-            {story.content.split("\n").map((paragraph, index) => (
-              <p key={index} className="mb-4 leading-relaxed text-foreground">
-                {paragraph}
-              </p>
-            ))}
+            <RichText
+              content={episode.content}
+              blockProps={(index) => ({ id: `p-${index}`, "data-block": index, className: "scroll-mt-4" })}
+            />
+          </div>
+
+          {/* Episode Navigation */}
+          <div className="flex justify-between gap-4">
+            {previousEpisode ? (
+              <Button asChild variant="outline" className="rounded-lg bg-transparent">
+                <Link href={episodeHref(previousEpisode.number)}>
+                  <ChevronLeftIcon className="h-4 w-4 mr-2" />
+                  Previous Episode
+                </Link>
+              </Button>
+            ) : (
+              <span />
+            )}
+            {nextEpisode && (
+              <Button asChild className="rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground">
+                <Link href={episodeHref(nextEpisode.number)}>
+                  Next Episode
+                  <ChevronRightIcon className="h-4 w-4 ml-2" />
+                </Link>
+              </Button>
+            )}
           </div>
 
           {/* Reading Progress */}
@@ -113,19 +285,21 @@ export default function StoryReader({ story }: StoryReaderProps) {
               <span>Progress</span>
               <span>{progress}%</span>
             </div>
-            <Slider
-              value={[progress]}
-              onValueChange={(value) => setProgress(value[0])}
-              max={100}
-              step={1}
-              className="w-full"
-              disabled // Simulate progress tracking, not user-adjustable
-            />
-            <Button className="mt-4 w-full rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground">
-              <BookOpenIcon className="h-5 w-5 mr-2" />
-              Resume Reading ({progress}% complete)
-            </Button>
+            <Progress value={progress} className="h-2 bg-muted" indicatorColor="bg-primary" />
+            {savedProgress && (
+              <Button
+                onClick={() => scrollToParagraph(savedProgress.paragraph)}
+                className="mt-4 w-full rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground"
+              >
+                <BookOpenIcon className="h-5 w-5 mr-2" />
+                Resume Reading ({savedProgress.percent}% complete)
+              </Button>
+            )}
           </div>
+
+          <StarRating story={story} />
+
+          <CommentSection story={story} episode={episode} canModerate={canEdit} />
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,86 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import type { PublishedWithin, StorySort } from "@/lib/rankings"
+
+export const popularityOptions: { label: string; sort: StorySort }[] = [
+  { label: "Trending", sort: "trending" },
+  { label: "Most Read", sort: "most-read" },
+  { label: "Top Rated", sort: "top-rated" },
+]
+
+export const uploadDateOptions: { label: string; within?: PublishedWithin }[] = [
+  { label: "Today", within: "today" },
+  { label: "This Week", within: "week" },
+  { label: "This Month", within: "month" },
+  { label: "All Time" },
+]
+
+// The window selected by an upload date label; "All Time" and no selection both mean none
+export const publishedWithinOf = (label: string) => uploadDateOptions.find((option) => option.label === label)?.within
+
+interface FilterGroupProps {
+  title: string
+  options: { key: string; label: string }[]
+  selected: string
+  onSelect: (key: string) => void
+}
+
+// A row of toggle buttons; clicking the selected one clears it
+function FilterGroup({ title, options, selected, onSelect }: FilterGroupProps) {
+  return (
+    <div>
+      <h4 className="font-semibold mb-2 text-foreground">{title}</h4>
+      <div className="flex flex-wrap gap-2">
+        {options.map(({ key, label }) => (
+          <Button
+            key={key}
+            variant={selected === key ? "default" : "outline"}
+            size="sm"
+            onClick={() => onSelect(selected === key ? "" : key)}
+            className={
+              selected === key
+                ? "bg-primary text-primary-foreground hover:bg-primary/90 rounded-full"
+                : "rounded-full bg-transparent border-border text-foreground hover:bg-muted"
+            }
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface StorySortFiltersProps {
+  popularity: StorySort | ""
+  onPopularityChange: (sort: StorySort | "") => void
+  // An uploadDateOptions label, since "All Time" is selectable but has no window
+  uploadDate: string
+  onUploadDateChange: (label: string) => void
+}
+
+// Popularity and upload date filters shared by Discover and the tag pages
+export default function StorySortFilters({
+  popularity,
+  onPopularityChange,
+  uploadDate,
+  onUploadDateChange,
+}: StorySortFiltersProps) {
+  return (
+    <>
+      <FilterGroup
+        title="Popularity"
+        options={popularityOptions.map(({ label, sort }) => ({ key: sort, label }))}
+        selected={popularity}
+        onSelect={(key) => onPopularityChange(key as StorySort | "")}
+      />
+      <FilterGroup
+        title="Upload Date"
+        options={uploadDateOptions.map(({ label }) => ({ key: label, label }))}
+        selected={uploadDate}
+        onSelect={onUploadDateChange}
+      />
+    </>
+  )
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import Link from "next/link"
+import { badgeVariants } from "@/components/ui/badge"
+import { useTaxonomy } from "@/hooks/use-taxonomy"
+import { cn } from "@/lib/utils"
+
+interface TagChipsProps {
+  // Tag slugs as stored on a story
+  tags: string[]
+  // Chips beyond this are summarised as "+N"
+  limit?: number
+  className?: string
+}
+
+// A story's tags, each linking to its /tags page
+export default function TagChips({ tags, limit, className }: TagChipsProps) {
+  const { tagName } = useTaxonomy()
+  if (tags.length === 0) return null
+  const shown = limit ? tags.slice(0, limit) : tags
+
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)}>
+      {shown.map((slug) => (
+        <Link
+          key={slug}
+          href={`/tags/${slug}`}
+          className={cn(badgeVariants({ variant: "secondary" }), "font-normal hover:bg-primary/10")}
+        >
+          {tagName(slug)}
+        </Link>
+      ))}
+      {shown.length < tags.length && (
+        <span className="text-xs text-muted-foreground self-center">+{tags.length - shown.length}</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import { useState } from "react"
+import { XIcon } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { useTaxonomy } from "@/hooks/use-taxonomy"
+import { matchTerm, termKey, type Tag } from "@/lib/domain"
+import { cn } from "@/lib/utils"
+
+const MAX_SUGGESTIONS = 8
+
+interface TagInputProps {
+  id?: string
+  // Tag names as typed or picked; the API resolves them to slugs on save
+  value: string[]
+  onChange: (tags: string[]) => void
+  placeholder?: string
+}
+
+// Chip input for a story's tags. Suggestions come from the existing vocabulary, most used first, and match
+// synonyms as well as names; anything else is added as typed and becomes a new tag on save.
+export default function TagInput({ id, value, onChange, placeholder }: TagInputProps) {
+  const { tags, tagCounts } = useTaxonomy()
+  const [query, setQuery] = useState("")
+  const [isOpen, setIsOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+
+  // Slugs already chosen, so "Sci-Fi" and "science fiction" count as the same tag
+  const selectedKeys = new Set(value.map((name) => matchTerm(tags, name)?.slug ?? termKey(name)))
+  const key = termKey(query)
+  const suggestions = key
+    ? tags
+        .filter((tag) => !selectedKeys.has(tag.slug))
+        .filter((tag) => [tag.slug, tag.name, ...tag.synonyms].some((alias) => termKey(alias).includes(key)))
+        .sort((a, b) => (tagCounts[b.slug] ?? 0) - (tagCounts[a.slug] ?? 0) || a.name.localeCompare(b.name))
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+  const showSuggestions = isOpen && suggestions.length > 0
+
+  const add = (name: string) => {
+    const trimmed = name.trim()
+    setQuery("")
+    setHighlighted(0)
+    const known = matchTerm(tags, trimmed)
+    const tagKey = known?.slug ?? termKey(trimmed)
+    if (!tagKey || selectedKeys.has(tagKey)) return
+    onChange([...value, known?.name ?? trimmed])
+  }
+
+  const remove = (index: number) => onChange(value.filter((_, position) => position !== index))
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault()
+      if (showSuggestions) add(suggestions[highlighted].name)
+      else if (query.trim()) add(query)
+    } else if (e.key === "Backspace" && !query && value.length > 0) {
+      remove(value.length - 1)
+    } else if (e.key === "ArrowDown" && showSuggestions) {
+      e.preventDefault()
+      setHighlighted((highlighted + 1) % suggestions.length)
+    } else if (e.key === "ArrowUp" && showSuggestions) {
+      e.preventDefault()
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length)
+    } else if (e.key === "Escape") {
+      setIsOpen(false)
+    }
+  }
+
+  const countLabel = (tag: Tag) => {
+    const count = tagCounts[tag.slug] ?? 0
+    return `${count} ${count === 1 ? "story" : "stories"}`
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 min-h-12 rounded-lg border border-input bg-input px-3 py-2 focus-within:ring-2 focus-within:ring-primary">
+        {value.map((name, index) => (
+          <Badge key={name} variant="secondary" className="gap-1 font-normal">
+            {name}
+            <button type="button" onClick={() => remove(index)} className="rounded-full hover:text-destructive">
+              <XIcon className="h-3 w-3" />
+              <span className="sr-only">Remove {name}</span>
+            </button>
+          </Badge>
+        ))}
+        <input
+          id={id}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setHighlighted(0)
+            setIsOpen(true)
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          // Adds whatever was typed, after a suggestion click has had the chance to land
+          onBlur={() => {
+            setIsOpen(false)
+            if (query.trim()) add(query)
+          }}
+          placeholder={value.length === 0 ? placeholder : undefined}
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-autocomplete="list"
+          className="flex-1 min-w-[8rem] bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+      {showSuggestions && (
+        <ul
+          role="listbox"
+          className="absolute z-10 mt-1 w-full rounded-lg border border-border bg-card text-card-foreground shadow-md py-1"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.slug}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown fires before the input's blur, which would otherwise add the half-typed query
+              onMouseDown={(e) => {
+                e.preventDefault()
+                add(tag.name)
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                "flex justify-between gap-4 px-3 py-2 text-sm cursor-pointer",
+                index === highlighted && "bg-muted",
+              )}
+            >
+              <span>{tag.name}</span>
+              <span className="text-muted-foreground">{countLabel(tag)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import StoryCard from "@/components/story-card"
+import StorySortFilters, { publishedWithinOf } from "@/components/story-sort-filters"
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll"
+import { useInfiniteStories } from "@/hooks/use-stories"
+import type { Tag } from "@/lib/domain"
+import type { StorySort } from "@/lib/rankings"
+
+interface TagViewProps {
+  tag: Tag
+}
+
+// Published stories carrying one tag, with Discover's sort and date filters
+export default function TagView({ tag }: TagViewProps) {
+  const [selectedPopularity, setSelectedPopularity] = useState<StorySort | "">("")
+  const [selectedUploadDate, setSelectedUploadDate] = useState("")
+  const { stories, total, hasMore, isLoading, loadMore } = useInfiniteStories({
+    tag: tag.slug,
+    sort: selectedPopularity || undefined,
+    publishedWithin: publishedWithinOf(selectedUploadDate),
+  })
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(hasMore, loadMore)
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-8 max-w-5xl">
+      <div className="space-y-8">
+        <section className="text-center py-12 md:py-16 bg-gradient-to-br from-misty-blue/20 to-lavender/20 rounded-xl shadow-lg">
+          <p className="text-sm uppercase tracking-wide text-muted-foreground mb-2">Tag</p>
+          <h2 className="text-4xl sm:text-5xl font-serif font-bold mb-4 text-foreground drop-shadow-sm">{tag.name}</h2>
+          <p className="text-lg text-muted-foreground">
+            {isLoading && stories.length === 0 ? "Loading..." : `${total} ${total === 1 ? "story" : "stories"}`}
+          </p>
+        </section>
+
+        <section>
+          <Card className="rounded-xl shadow-lg bg-card text-card-foreground p-6 md:p-8">
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6 p-0">
+              <StorySortFilters
+                popularity={selectedPopularity}
+                onPopularityChange={setSelectedPopularity}
+                uploadDate={selectedUploadDate}
+                onUploadDateChange={setSelectedUploadDate}
+              />
+            </CardContent>
+          </Card>
+        </section>
+
+        <section>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {stories.length > 0 ? (
+              stories.map((story) => <StoryCard key={story.id} {...story} />)
+            ) : (
+              <p className="text-muted-foreground col-span-full text-center py-8">
+                {isLoading ? "Loading stories..." : "No stories with this tag match the current selection."}
+              </p>
+            )}
+          </div>
+          {hasMore && (
+            <div ref={sentinelRef} className="min-h-8 text-center text-muted-foreground mt-8">
+              {isLoading ? "Loading more stories..." : null}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,313 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowDownIcon, ArrowUpIcon, GitMergeIcon, PencilIcon, Trash2Icon } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { useTaxonomy } from "@/hooks/use-taxonomy"
+import type { Genre, Tag } from "@/lib/domain"
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+function useTaxonomyAction() {
+  const { toast } = useToast()
+  return (action: () => Promise<void>) =>
+    action().catch((error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }))
+}
+
+interface TermFormProps {
+  initial?: Genre | Tag
+  submitLabel: string
+  onSubmit: (values: { name: string; synonyms: string[] }) => Promise<void>
+  onCancel?: () => void
+}
+
+// Name plus comma-separated synonyms; used both to add a term and to edit one in place
+function TermForm({ initial, submitLabel, onSubmit, onCancel }: TermFormProps) {
+  const run = useTaxonomyAction()
+  const [name, setName] = useState(initial?.name ?? "")
+  const [synonyms, setSynonyms] = useState(initial?.synonyms.join(", ") ?? "")
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+    run(async () => {
+      await onSubmit({ name: name.trim(), synonyms: splitList(synonyms) })
+      if (!initial) {
+        setName("")
+        setSynonyms("")
+      }
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+      <Input
+        autoFocus={Boolean(initial)}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name"
+        maxLength={40}
+        className="rounded-lg sm:max-w-[12rem]"
+      />
+      <Input
+        value={synonyms}
+        onChange={(e) => setSynonyms(e.target.value)}
+        placeholder="Synonyms, comma-separated"
+        className="rounded-lg"
+      />
+      <Button type="submit" size="sm" className="rounded-lg h-10">
+        {submitLabel}
+      </Button>
+      {onCancel && (
+        <Button type="button" size="sm" variant="ghost" className="h-10" onClick={onCancel}>
+          Cancel
+        </Button>
+      )}
+    </form>
+  )
+}
+
+function Synonyms({ term }: { term: Genre | Tag }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {term.synonyms.map((synonym) => (
+        <Badge key={synonym} variant="outline" className="text-xs">
+          {synonym}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+function GenreTable() {
+  const { genres, createGenre, updateGenre, deleteGenre } = useTaxonomy()
+  const run = useTaxonomyAction()
+  const [editing, setEditing] = useState<string | null>(null)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Genres</CardTitle>
+        <CardDescription>
+          The fixed list shown in the editor, the Discover filters and the home page, in this order. Deleting a genre
+          leaves its stories without one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <TermForm submitLabel="Add Genre" onSubmit={(values) => createGenre(values)} />
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Slug</TableHead>
+              <TableHead>Synonyms</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {genres.map((genre, index) =>
+              editing === genre.slug ? (
+                <TableRow key={genre.slug}>
+                  <TableCell colSpan={4}>
+                    <TermForm
+                      initial={genre}
+                      submitLabel="Save"
+                      onSubmit={async (values) => {
+                        await updateGenre(genre.slug, values)
+                        setEditing(null)
+                      }}
+                      onCancel={() => setEditing(null)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <TableRow key={genre.slug}>
+                  <TableCell className="font-medium">{genre.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{genre.slug}</TableCell>
+                  <TableCell>
+                    <Synonyms term={genre} />
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === 0}
+                      onClick={() => run(() => updateGenre(genre.slug, { position: index - 1 }))}
+                    >
+                      <ArrowUpIcon className="h-4 w-4" />
+                      <span className="sr-only">Move genre up</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === genres.length - 1}
+                      onClick={() => run(() => updateGenre(genre.slug, { position: index + 1 }))}
+                    >
+                      <ArrowDownIcon className="h-4 w-4" />
+                      <span className="sr-only">Move genre down</span>
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setEditing(genre.slug)}>
+                      <PencilIcon className="h-4 w-4" />
+                      <span className="sr-only">Edit genre</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive"
+                      onClick={() => run(() => deleteGenre(genre.slug))}
+                    >
+                      <Trash2Icon className="h-4 w-4" />
+                      <span className="sr-only">Delete genre</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ),
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
+
+function TagTable() {
+  const { tags, createTag, updateTag, deleteTag, mergeTag } = useTaxonomy()
+  const run = useTaxonomyAction()
+  const [editing, setEditing] = useState<string | null>(null)
+  const [merging, setMerging] = useState<{ slug: string; into: string } | null>(null)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tags</CardTitle>
+        <CardDescription>
+          Authors&apos; tags are matched against names and synonyms; new ones are added here automatically. Merging a
+          tag retags its stories and keeps the old name as a synonym.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <TermForm submitLabel="Add Tag" onSubmit={(values) => createTag(values)} />
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Slug</TableHead>
+              <TableHead>Synonyms</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tags.map((tag) => {
+              if (editing === tag.slug) {
+                return (
+                  <TableRow key={tag.slug}>
+                    <TableCell colSpan={4}>
+                      <TermForm
+                        initial={tag}
+                        submitLabel="Save"
+                        onSubmit={async (values) => {
+                          await updateTag(tag.slug, values)
+                          setEditing(null)
+                        }}
+                        onCancel={() => setEditing(null)}
+                      />
+                    </TableCell>
+                  </TableRow>
+                )
+              }
+              if (merging?.slug === tag.slug) {
+                return (
+                  <TableRow key={tag.slug}>
+                    <TableCell className="font-medium">{tag.name}</TableCell>
+                    <TableCell colSpan={3}>
+                      <div className="flex gap-2 justify-end">
+                        <Select value={merging.into} onValueChange={(into) => setMerging({ ...merging, into })}>
+                          <SelectTrigger className="rounded-lg max-w-[14rem]">
+                            <SelectValue placeholder="Merge into..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {tags
+                              .filter((target) => target.slug !== tag.slug)
+                              .map((target) => (
+                                <SelectItem key={target.slug} value={target.slug}>
+                                  {target.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          size="sm"
+                          className="h-10"
+                          disabled={!merging.into}
+                          onClick={() =>
+                            run(async () => {
+                              await mergeTag(tag.slug, merging.into)
+                              setMerging(null)
+                            })
+                          }
+                        >
+                          Merge
+                        </Button>
+                        <Button size="sm" variant="ghost" className="h-10" onClick={() => setMerging(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              }
+              return (
+                <TableRow key={tag.slug}>
+                  <TableCell className="font-medium">{tag.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{tag.slug}</TableCell>
+                  <TableCell>
+                    <Synonyms term={tag} />
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="icon" onClick={() => setMerging({ slug: tag.slug, into: "" })}>
+                      <GitMergeIcon className="h-4 w-4" />
+                      <span className="sr-only">Merge tag</span>
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setEditing(tag.slug)}>
+                      <PencilIcon className="h-4 w-4" />
+                      <span className="sr-only">Edit tag</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive"
+                      onClick={() => run(() => deleteTag(tag.slug))}
+                    >
+                      <Trash2Icon className="h-4 w-4" />
+                      <span className="sr-only">Delete tag</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Admin editor for the genre list and the tag vocabulary
+export default function TaxonomyManager() {
+  return (
+    <div className="space-y-6">
+      <GenreTable />
+      <TagTable />
+    </div>
+  )
+}
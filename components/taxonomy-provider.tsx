@@ -0,0 +1,82 @@
+"use client"
+
+import * as React from "react"
+import { taxonomyApi } from "@/lib/api"
+import type { Genre, Tag } from "@/lib/domain"
+import type { GenreUpdate, TagUpdate, TermInput } from "@/lib/taxonomy"
+
+export interface TaxonomyContextValue {
+  genres: Genre[]
+  tags: Tag[]
+  // Published stories per tag slug
+  tagCounts: Record<string, number>
+  isLoading: boolean
+  // Display names for stored slugs; unknown slugs are shown as they are
+  genreName: (slug: string) => string
+  tagName: (slug: string) => string
+  // Admin-only edits
+  createGenre: (input: TermInput) => Promise<void>
+  updateGenre: (slug: string, patch: GenreUpdate) => Promise<void>
+  deleteGenre: (slug: string) => Promise<void>
+  createTag: (input: TermInput) => Promise<void>
+  updateTag: (slug: string, patch: TagUpdate) => Promise<void>
+  deleteTag: (slug: string) => Promise<void>
+  mergeTag: (slug: string, into: string) => Promise<void>
+  refresh: () => Promise<void>
+}
+
+export const TaxonomyContext = React.createContext<TaxonomyContextValue | null>(null)
+
+// Loads the genre and tag vocabulary once for every view that labels or filters stories
+export function TaxonomyProvider({ children }: { children: React.ReactNode }) {
+  const [genres, setGenres] = React.useState<Genre[]>([])
+  const [tags, setTags] = React.useState<Tag[]>([])
+  const [tagCounts, setTagCounts] = React.useState<Record<string, number>>({})
+  const [isLoading, setIsLoading] = React.useState(true)
+
+  const refresh = React.useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const taxonomy = await taxonomyApi.get()
+      setGenres(taxonomy.genres)
+      setTags(taxonomy.tags)
+      setTagCounts(taxonomy.tagCounts)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    refresh().catch(() => undefined)
+  }, [refresh])
+
+  const value = React.useMemo<TaxonomyContextValue>(() => {
+    const mutate =
+      <Args extends unknown[]>(action: (...args: Args) => Promise<unknown>) =>
+      async (...args: Args) => {
+        await action(...args)
+        await refresh()
+      }
+    const nameOf = (terms: (Genre | Tag)[]) => (slug: string) =>
+      terms.find((term) => term.slug === slug)?.name ?? slug
+
+    return {
+      genres,
+      tags,
+      tagCounts,
+      isLoading,
+      genreName: nameOf(genres),
+      tagName: nameOf(tags),
+      createGenre: mutate(taxonomyApi.genres.create),
+      updateGenre: mutate(taxonomyApi.genres.update),
+      deleteGenre: mutate(taxonomyApi.genres.remove),
+      createTag: mutate(taxonomyApi.tags.create),
+      updateTag: mutate(taxonomyApi.tags.update),
+      deleteTag: mutate(taxonomyApi.tags.remove),
+      mergeTag: mutate(taxonomyApi.tags.merge),
+      refresh,
+    }
+  }, [genres, tags, tagCounts, isLoading, refresh])
+
+  return <TaxonomyContext.Provider value={value}>{children}</TaxonomyContext.Provider>
+}
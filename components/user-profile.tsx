@@ -9,55 +9,34 @@ import { EditIcon, MailIcon, UsersIcon, BookOpenIcon, PenToolIcon } from "lucide
 import { useState } from "react"
 import { FloatingLabelInput } from "@/components/ui/floating-label-input"
 import { FloatingLabelTextarea } from "@/components/ui/floating-label-textarea"
+import { useStories } from "@/hooks/use-stories"
+import type { User } from "@/lib/domain"
+import type { WritingStats } from "@/lib/stories"
+import { formatReadingTime } from "@/lib/text"
 
 interface UserProfileProps {
-  isPublicView?: boolean // To simulate public vs. private view
+  profile: User
+  // Only for the author's own profile
+  stats?: WritingStats | null
+  isPublicView?: boolean // Hides editing and private stats when viewing someone else's page
 }
 
-export default function UserProfile({ isPublicView = false }: UserProfileProps) {
-  // Dummy user data
+export default function UserProfile({ profile, stats = null, isPublicView = false }: UserProfileProps) {
+  // Profile details beyond the account record are still placeholders
   const [user, setUser] = useState({
-    name: "Anya Sharma",
-    username: "anya_writes",
+    name: profile.username,
+    username: profile.username,
     bio: "Passionate storyteller weaving tales of magic and mystery. Lover of coffee, cats, and compelling narratives.",
     avatarUrl: "/placeholder.svg?height=150&width=150",
     followers: 0,
     following: 0,
-    storiesAuthored: 25,
     storiesRead: 10,
-    totalWordsWritten: "10",
   })
   const [isEditingProfile, setIsEditingProfile] = useState(false)
   const [editedName, setEditedName] = useState(user.name)
   const [editedBio, setEditedBio] = useState(user.bio)
 
-  // Dummy authored stories
-  const authoredStories = [
-    {
-      title: "The Crystal Labyrinth",
-      author: user.username,
-      readTime: "20 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-    },
-    {
-      title: "Whispers of the Forgotten Star",
-      author: user.username,
-      readTime: "15 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-    },
-    {
-      title: "Chronicles of the Shadow Realm",
-      author: user.username,
-      readTime: "30 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-    },
-    {
-      title: "The Clockwork Heart",
-      author: user.username,
-      readTime: "18 min",
-      imageUrl: "/placeholder.svg?height=300&width=400",
-    },
-  ]
+  const { stories: authoredStories } = useStories({ authorId: profile.id })
 
   const handleSaveProfile = () => {
     setUser((prev) => ({ ...prev, name: editedName, bio: editedBio }))
@@ -144,7 +123,7 @@ export default function UserProfile({ isPublicView = false }: UserProfileProps)
               <p className="text-sm text-muted-foreground">Following</p>
             </div>
             <div className="p-4 rounded-lg bg-muted/50 shadow-sm">
-              <p className="text-2xl font-bold text-primary">{user.storiesAuthored}</p>
+              <p className="text-2xl font-bold text-primary">{authoredStories.length}</p>
               <p className="text-sm text-muted-foreground">Stories Authored</p>
             </div>
             <div className="p-4 rounded-lg bg-muted/50 shadow-sm">
@@ -180,7 +159,7 @@ export default function UserProfile({ isPublicView = false }: UserProfileProps)
               <h3 className="text-2xl font-serif font-semibold mb-4 text-foreground">Authored Stories</h3>
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
                 {authoredStories.length > 0 ? (
-                  authoredStories.map((story, index) => <StoryCard key={index} {...story} />)
+                  authoredStories.map((story) => <StoryCard key={story.id} {...story} />)
                 ) : (
                   <p className="text-muted-foreground col-span-full text-center py-8">
                     No stories authored yet. Start writing your first masterpiece!
@@ -201,9 +180,13 @@ export default function UserProfile({ isPublicView = false }: UserProfileProps)
                 <h3 className="text-2xl font-serif font-semibold mb-4 text-foreground">Writing & Reading Stats</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <Card className="p-4 rounded-lg bg-muted/50 shadow-sm">
-                    <p className="text-xl font-bold text-primary">{user.totalWordsWritten}</p>
+                    <p className="text-xl font-bold text-primary">{(stats?.wordCount ?? 0).toLocaleString()}</p>
                     <p className="text-sm text-muted-foreground">Total Words Written</p>
                   </Card>
+                  <Card className="p-4 rounded-lg bg-muted/50 shadow-sm">
+                    <p className="text-xl font-bold text-primary">{formatReadingTime(stats?.readingSeconds ?? 0)}</p>
+                    <p className="text-sm text-muted-foreground">Reading Time of Your Published Stories</p>
+                  </Card>
                   <Card className="p-4 rounded-lg bg-muted/50 shadow-sm">
                     <p className="text-xl font-bold text-primary">{user.storiesRead}</p>
                     <p className="text-sm text-muted-foreground">Stories Completed</p>
@@ -0,0 +1,99 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { useRouter } from "next/navigation"
+import StoryEditor from "@/components/story-editor"
+import { storiesApi } from "@/lib/api"
+import { episodeAutosaveKey, type Episode, type Story } from "@/lib/domain"
+import { samePanels } from "@/lib/panels"
+
+interface WriteViewProps {
+  // Set when writing a new episode of an existing story
+  series?: Pick<Story, "id" | "title" | "genre" | "tags" | "imageUrl" | "allowDownloads" | "contentType"> & {
+    nextEpisode: number
+  }
+  // Set when editing one of the series' episodes rather than adding the next
+  episode?: Pick<Episode, "number" | "title" | "content" | "storyContent" | "status" | "scheduledFor">
+}
+
+export default function WriteView({ series, episode }: WriteViewProps) {
+  const router = useRouter()
+  // The first save creates the story and episode unless they already exist; later saves update them
+  const storyId = useRef(series?.id ?? null)
+  const episodeNumber = useRef(episode?.number ?? null)
+  // The panels as last saved, so unchanged ones are not sent again
+  const savedPanels = useRef(episode?.storyContent ?? null)
+  // Mirrors the refs once the episode exists, so the editor can show its revisions
+  const [saved, setSaved] = useState(series && episode ? { storyId: series.id, episodeNumber: episode.number } : null)
+
+  return (
+    <StoryEditor
+      onClose={() => router.push(storyId.current ? `/story/${storyId.current}` : "/")}
+      story={
+        series
+          ? {
+              title: series.title,
+              genre: series.genre,
+              tags: series.tags,
+              imageUrl: series.imageUrl,
+              allowDownloads: series.allowDownloads,
+              contentType: series.contentType,
+              content: episode?.content ?? "",
+              episodeNumber: episode?.number ?? series.nextEpisode,
+              episodeTitle: episode?.title,
+              storyContent: episode?.storyContent,
+              episodeStatus: episode?.status,
+              scheduledFor: episode?.scheduledFor,
+            }
+          : undefined
+      }
+      revisionsOf={saved}
+      // Once saved, edits autosave under the episode they belong to. The editor clears the "new-story" copy the
+      // first save began with, so it is not offered again to the next new story.
+      autosaveKey={
+        saved
+          ? episodeAutosaveKey(saved.storyId, saved.episodeNumber)
+          : series
+            ? episodeAutosaveKey(series.id, episode?.number ?? series.nextEpisode)
+            : "new-story"
+      }
+      onSave={async (draft) => {
+        const { title, genre, tags, imageUrl, contentType, allowDownloads, status, publish, scheduledFor } = draft
+        const details = { title, genre, tags, imageUrl, contentType, allowDownloads }
+        if (!storyId.current) {
+          storyId.current = (await storiesApi.create({ ...details, status })).id
+        } else {
+          // Publishing any episode publishes the story; no other save changes the story's status
+          await storiesApi.update(storyId.current, publish ? { ...details, status: "published" } : details)
+        }
+        const changes = {
+          title: draft.episodeTitle,
+          content: draft.content,
+          status,
+          scheduledFor,
+          number: draft.episodeNumber ?? undefined,
+        }
+        episodeNumber.current = episodeNumber.current
+          ? (
+              await storiesApi.episodes.update(storyId.current, episodeNumber.current, {
+                ...changes,
+                ...(savedPanels.current && samePanels(draft.storyContent, savedPanels.current)
+                  ? {}
+                  : { storyContent: draft.storyContent }),
+              })
+            ).number
+          : (await storiesApi.episodes.create(storyId.current, { ...changes, storyContent: draft.storyContent })).number
+        savedPanels.current = draft.storyContent
+        setSaved({ storyId: storyId.current, episodeNumber: episodeNumber.current })
+      }}
+      onImport={async ({ episodes, ...details }) => {
+        if (!storyId.current) storyId.current = (await storiesApi.create({ ...details, status: "draft" })).id
+        // One at a time, so the episodes are numbered in manuscript order
+        for (const { title, content } of episodes) {
+          await storiesApi.episodes.create(storyId.current, { title, content, status: "draft" })
+        }
+        router.push(`/story/${storyId.current}`)
+      }}
+    />
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useSession } from "@/hooks/use-session"
+import { ApiError, autosaveApi } from "@/lib/api"
+import type { EditorState } from "@/lib/domain"
+import { localDrafts, type LocalDraft } from "@/lib/local-drafts"
+
+// "offline" means the latest state only reached this device's IndexedDB; "error" that the server refused it
+export type AutosaveStatus = "loading" | "idle" | "saving" | "saved" | "offline" | "error"
+
+interface UseAutosaveOptions {
+  // Names the editing session; see autosaveKeySchema
+  key: string
+  state: EditorState
+  // Replaces the editor's state with a copy found when the editor opens, or one the author chose to recover
+  onRestore: (state: EditorState) => void
+  delay?: number
+}
+
+// Debounced autosave of the story editor to the server, falling back to IndexedDB while offline.
+// On open the server copy is restored; a newer copy left on this device is offered as `recovery`.
+export function useAutosave({ key, state, onRestore, delay = 1500 }: UseAutosaveOptions) {
+  const { user } = useSession()
+  const localId = user ? `${user.id}:${key}` : null
+  const [status, setStatus] = useState<AutosaveStatus>("loading")
+  const [savedAt, setSavedAt] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [recovery, setRecovery] = useState<LocalDraft | null>(null)
+
+  const serialized = JSON.stringify(state)
+  const current = useRef(serialized)
+  current.current = serialized
+  // The state last stored anywhere; only changes from it are saved
+  const lastSaved = useRef(serialized)
+  const restore = useRef(onRestore)
+  restore.current = onRestore
+
+  useEffect(() => {
+    if (!localId) return
+    let cancelled = false
+    setStatus("loading")
+    Promise.all([autosaveApi.get(key).catch(() => null), localDrafts.get(localId)]).then(([server, local]) => {
+      if (cancelled) return
+      if (server) {
+        lastSaved.current = JSON.stringify(server.state)
+        restore.current(server.state)
+        setSavedAt(server.updatedAt)
+      }
+      if (local && (!server || local.updatedAt > server.updatedAt)) setRecovery(local)
+      else if (local) localDrafts.remove(localId)
+      setStatus(server ? "saved" : "idle")
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [key, localId])
+
+  const save = useCallback(
+    async (snapshot: string) => {
+      if (!localId || snapshot === lastSaved.current) return
+      const state = JSON.parse(snapshot) as EditorState
+      const updatedAt = new Date().toISOString()
+      lastSaved.current = snapshot
+      setStatus("saving")
+      setError(null)
+      try {
+        if (!navigator.onLine) throw new Error("Offline")
+        await autosaveApi.save(key, { state, updatedAt })
+        // Anything kept on the device while offline is now older than the server copy
+        await localDrafts.remove(localId)
+        setStatus("saved")
+        setSavedAt(updatedAt)
+      } catch (err) {
+        // Only a failed connection is worth retrying. A refused save, like an oversized or invalid state, would
+        // fail the same way again, so it waits for the next edit instead.
+        if (err instanceof ApiError) {
+          // Server faults leave a device copy, so the edit survives a closed tab
+          if (err.status >= 500) await localDrafts.put({ id: localId, state, updatedAt })
+          setError(err.message)
+          setStatus("error")
+          return
+        }
+        await localDrafts.put({ id: localId, state, updatedAt })
+        setStatus("offline")
+        setSavedAt(updatedAt)
+      }
+    },
+    [key, localId],
+  )
+
+  // Nothing is saved while loading or while a recovered copy awaits a decision, so neither can be overwritten
+  const isReady = status !== "loading" && !recovery
+  useEffect(() => {
+    if (!isReady || serialized === lastSaved.current) return
+    const timer = setTimeout(() => save(serialized), delay)
+    return () => clearTimeout(timer)
+  }, [isReady, serialized, save, delay])
+
+  // Push the device copy to the server as soon as the connection returns
+  useEffect(() => {
+    if (status !== "offline") return
+    const retry = () => {
+      lastSaved.current = ""
+      save(current.current)
+    }
+    window.addEventListener("online", retry)
+    return () => window.removeEventListener("online", retry)
+  }, [status, save])
+
+  // Edits still inside the debounce window go to IndexedDB when the tab closes or the editor unmounts
+  useEffect(() => {
+    if (!localId) return
+    const flush = () => {
+      if (current.current === lastSaved.current) return
+      localDrafts.put({ id: localId, state: JSON.parse(current.current), updatedAt: new Date().toISOString() })
+    }
+    window.addEventListener("pagehide", flush)
+    return () => {
+      window.removeEventListener("pagehide", flush)
+      flush()
+    }
+  }, [localId])
+
+  const restoreRecovery = useCallback(() => {
+    if (!recovery) return
+    restore.current(recovery.state)
+    setRecovery(null)
+  }, [recovery])
+
+  const discardRecovery = useCallback(() => {
+    if (localId) localDrafts.remove(localId)
+    setRecovery(null)
+  }, [localId])
+
+  // Call once the editor's content is saved for real; the autosaved copies are then obsolete
+  const clear = useCallback(async () => {
+    lastSaved.current = current.current
+    setSavedAt(null)
+    setStatus("idle")
+    if (!localId) return
+    await Promise.all([autosaveApi.remove(key).catch(() => undefined), localDrafts.remove(localId)])
+  }, [key, localId])
+
+  return {
+    status,
+    savedAt,
+    // Why the server refused the latest save, while status is "error"
+    error,
+    // True while edits are waiting for the debounce
+    isDirty: serialized !== lastSaved.current,
+    recovery,
+    restoreRecovery,
+    discardRecovery,
+    clear,
+  }
+}
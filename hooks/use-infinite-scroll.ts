@@ -0,0 +1,20 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+// Calls loadMore whenever the returned sentinel element comes within 400px of the viewport
+export function useInfiniteScroll<T extends HTMLElement>(enabled: boolean, loadMore: () => void) {
+  const sentinelRef = useRef<T>(null)
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !enabled) return
+    const observer = new IntersectionObserver(([entry]) => entry.isIntersecting && loadMore(), {
+      rootMargin: "400px",
+    })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [enabled, loadMore])
+
+  return sentinelRef
+}
@@ -0,0 +1,12 @@
+"use client"
+
+import { useContext } from "react"
+import { LibraryContext } from "@/components/library-provider"
+
+export function useLibrary() {
+  const context = useContext(LibraryContext)
+  if (!context) {
+    throw new Error("useLibrary must be used within a LibraryProvider")
+  }
+  return context
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { ApiError, mediaApi } from "@/lib/api"
+import { downscaleImage } from "@/lib/image-resize"
+
+export interface PanelUpload {
+  // Object URL of the picked file, shown until the upload lands
+  previewUrl: string
+  // 0 to 1
+  progress: number
+  status: "uploading" | "failed"
+  error: string | null
+}
+
+// Network and server errors are retried this many times in all before the panel shows as failed;
+// a rejected file (wrong type, too large) fails straight away
+const MAX_ATTEMPTS = 3
+const RETRY_DELAY_MS = 1000
+
+const isRetryable = (error: unknown) => !(error instanceof ApiError) || error.status === 0 || error.status >= 500
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Uploads image-story panels in the background, each with its own progress and retry. `onUploaded` gets the
+// image id to store in the panel once the server has it; until then the panel is listed in `uploads`.
+export function usePanelUploads(onUploaded: (panelId: string, imageId: string) => void) {
+  const [uploads, setUploads] = useState<Record<string, PanelUpload>>({})
+  // Files still to upload, already downscaled, so a retry does not redo the work. A panel missing from
+  // here has been removed, and anything still in flight for it is dropped.
+  const files = useRef(new Map<string, File>())
+  const previews = useRef(new Map<string, string>())
+  const uploaded = useRef(onUploaded)
+  uploaded.current = onUploaded
+
+  const update = (panelId: string, patch: Partial<PanelUpload>) =>
+    setUploads((prev) => (prev[panelId] ? { ...prev, [panelId]: { ...prev[panelId], ...patch } } : prev))
+
+  const forget = useCallback((panelId: string) => {
+    files.current.delete(panelId)
+    const preview = previews.current.get(panelId)
+    if (preview) URL.revokeObjectURL(preview)
+    previews.current.delete(panelId)
+    setUploads(({ [panelId]: _removed, ...rest }) => rest)
+  }, [])
+
+  const retry = useCallback(
+    async (panelId: string) => {
+      const file = files.current.get(panelId)
+      if (!file) return
+      update(panelId, { status: "uploading", progress: 0, error: null })
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const image = await mediaApi.upload(file, "panel", (progress) => update(panelId, { progress }))
+          if (!files.current.has(panelId)) return
+          uploaded.current(panelId, image.id)
+          forget(panelId)
+          return
+        } catch (error) {
+          if (!files.current.has(panelId)) return
+          if (attempt >= MAX_ATTEMPTS || !isRetryable(error)) {
+            update(panelId, { status: "failed", error: (error as Error).message })
+            return
+          }
+          await wait(RETRY_DELAY_MS * attempt)
+        }
+      }
+    },
+    [forget],
+  )
+
+  const add = useCallback(
+    async (panelId: string, file: File) => {
+      const previewUrl = URL.createObjectURL(file)
+      previews.current.set(panelId, previewUrl)
+      files.current.set(panelId, file)
+      setUploads((prev) => ({ ...prev, [panelId]: { previewUrl, progress: 0, status: "uploading", error: null } }))
+      const downscaled = await downscaleImage(file)
+      if (!files.current.has(panelId)) return
+      files.current.set(panelId, downscaled)
+      await retry(panelId)
+    },
+    [retry],
+  )
+
+  useEffect(() => {
+    const pending = files.current
+    const urls = previews.current
+    return () => {
+      pending.clear()
+      urls.forEach((url) => URL.revokeObjectURL(url))
+    }
+  }, [])
+
+  return { uploads, add, retry, remove: forget, pending: Object.keys(uploads).length }
+}
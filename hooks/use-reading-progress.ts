@@ -0,0 +1,37 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { progressApi } from "@/lib/api"
+import type { InProgressEntry } from "@/lib/progress"
+import { useSession } from "@/hooks/use-session"
+
+// Stories the signed-in reader has started, most recent first; empty for visitors
+export function useReadingProgress() {
+  const { user } = useSession()
+  const [entries, setEntries] = useState<InProgressEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setEntries([])
+      setIsLoading(false)
+      return
+    }
+    setIsLoading(true)
+    try {
+      setEntries(await progressApi.list())
+      setError(null)
+    } catch (err) {
+      setError(err as Error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { entries, isLoading, error, refresh }
+}
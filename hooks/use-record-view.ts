@@ -0,0 +1,15 @@
+"use client"
+
+import { useEffect } from "react"
+import { storiesApi } from "@/lib/api"
+import type { Story } from "@/lib/domain"
+
+// Counts one view per story per browser session, however many episodes are opened
+export function useRecordView(story: Pick<Story, "id" | "status">) {
+  useEffect(() => {
+    const key = `viewed:${story.id}`
+    if (story.status !== "published" || sessionStorage.getItem(key)) return
+    sessionStorage.setItem(key, "1")
+    storiesApi.recordView(story.id).catch(() => undefined)
+  }, [story.id, story.status])
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { searchApi } from "@/lib/api"
+import type { SearchResult } from "@/lib/search"
+
+// Full-text search that waits for typing to pause before querying, and drops stale responses
+export function useSearch(query: string, delay = 300) {
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (!trimmed) {
+      setResults([])
+      setIsSearching(false)
+      return
+    }
+    setIsSearching(true)
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        setResults(await searchApi.search(trimmed, { signal: controller.signal }))
+        setError(null)
+      } catch (err) {
+        if ((err as Error).name !== "AbortError") setError(err as Error)
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false)
+      }
+    }, delay)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query, delay])
+
+  return { results, isSearching, error }
+}
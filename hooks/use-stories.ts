@@ -0,0 +1,101 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { storiesApi } from "@/lib/api"
+import type { StoryFilters } from "@/lib/stories"
+import type { Story } from "@/lib/domain"
+
+export function useStories(filters: StoryFilters = {}) {
+  const [stories, setStories] = useState<Story[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+  const { status, genre, tag, author, authorId, sort, publishedWithin } = filters
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setStories(await storiesApi.list({ status, genre, tag, author, authorId, sort, publishedWithin }))
+      setError(null)
+    } catch (err) {
+      setError(err as Error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status, genre, tag, author, authorId, sort, publishedWithin])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { stories, isLoading, error, refresh, setStories }
+}
+
+// Fetches the listing a page at a time; loadMore appends the next page until nextCursor runs out
+export function useInfiniteStories(filters: StoryFilters = {}, pageSize = 12) {
+  const [stories, setStories] = useState<Story[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+  const { status, genre, tag, author, authorId, sort, publishedWithin } = filters
+  // Bumped whenever the filters change, so a slow page of an earlier listing is dropped
+  const generation = useRef(0)
+
+  const load = useCallback(
+    async (cursor?: string) => {
+      const current = generation.current
+      setIsLoading(true)
+      try {
+        const page = await storiesApi.page(
+          { status, genre, tag, author, authorId, sort, publishedWithin },
+          { limit: pageSize, cursor },
+        )
+        if (current !== generation.current) return
+        setStories((prev) => (cursor ? [...prev, ...page.items] : page.items))
+        setNextCursor(page.nextCursor)
+        setTotal(page.total)
+        setError(null)
+      } catch (err) {
+        if (current === generation.current) setError(err as Error)
+      } finally {
+        if (current === generation.current) setIsLoading(false)
+      }
+    },
+    [status, genre, tag, author, authorId, sort, publishedWithin, pageSize],
+  )
+
+  useEffect(() => {
+    generation.current += 1
+    setStories([])
+    setNextCursor(null)
+    load()
+  }, [load])
+
+  const loadMore = useCallback(() => {
+    if (nextCursor && !isLoading) load(nextCursor)
+  }, [load, nextCursor, isLoading])
+
+  return { stories, total, hasMore: nextCursor !== null, isLoading, error, loadMore }
+}
+
+export function useStory(id: string | undefined) {
+  const [story, setStory] = useState<Story | null>(null)
+  const [isLoading, setIsLoading] = useState(Boolean(id))
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!id) return
+    let cancelled = false
+    setIsLoading(true)
+    storiesApi
+      .get(id)
+      .then((data) => !cancelled && setStory(data))
+      .catch((err) => !cancelled && setError(err))
+      .finally(() => !cancelled && setIsLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [id])
+
+  return { story, isLoading, error }
+}
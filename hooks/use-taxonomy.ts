@@ -0,0 +1,12 @@
+"use client"
+
+import { useContext } from "react"
+import { TaxonomyContext } from "@/components/taxonomy-provider"
+
+export function useTaxonomy() {
+  const context = useContext(TaxonomyContext)
+  if (!context) {
+    throw new Error("useTaxonomy must be used within a TaxonomyProvider")
+  }
+  return context
+}
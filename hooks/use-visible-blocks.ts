@@ -0,0 +1,43 @@
+"use client"
+
+import { useEffect, useState, type RefObject } from "react"
+
+export type VisibleBlocks = { first: number; last: number }
+
+// First and last of the container's [data-block] elements on screen, kept current as the reader scrolls. A
+// snap-scrolling container passes asRoot so only what is visible inside it counts.
+export function useVisibleBlocks(
+  containerRef: RefObject<HTMLElement | null>,
+  resetKey: string,
+  { asRoot = false, threshold = 0 }: { asRoot?: boolean; threshold?: number } = {},
+) {
+  const [visibleBlocks, setVisibleBlocks] = useState<VisibleBlocks | null>(null)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    setVisibleBlocks(null)
+    const visible = new Set<number>()
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const index = Number((entry.target as HTMLElement).dataset.block)
+          if (entry.isIntersecting) visible.add(index)
+          else visible.delete(index)
+        })
+        if (visible.size > 0) setVisibleBlocks({ first: Math.min(...visible), last: Math.max(...visible) })
+      },
+      { root: asRoot ? container : null, threshold },
+    )
+    container.querySelectorAll("[data-block]").forEach((element) => observer.observe(element))
+    return () => observer.disconnect()
+  }, [containerRef, resetKey, asRoot, threshold])
+
+  return visibleBlocks
+}
+
+// The block a resume link (#p-<index>) points at, when the page was opened from one
+export function blockFromHash() {
+  const match = /^#p-(\d+)$/.exec(window.location.hash)
+  return match ? Number(match[1]) : null
+}
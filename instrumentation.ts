@@ -0,0 +1,9 @@
+// Runs once when the server starts
+export async function register() {
+  // The job needs the file-backed store, which the edge runtime cannot open. The check must wrap the import
+  // so the edge bundle leaves it out.
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startScheduler } = await import("@/lib/scheduler")
+    startScheduler()
+  }
+}
@@ -0,0 +1,303 @@
+import type {
+  Autosave,
+  Comment,
+  Episode,
+  Genre,
+  ImagePurpose,
+  Rating,
+  ReadingProgress,
+  Report,
+  ReportStatus,
+  Revision,
+  Shelf,
+  Story,
+  Tag,
+  Taxonomy,
+  User,
+} from "@/lib/domain"
+import type { StoryFilters, StoryInput, StoryUpdate } from "@/lib/stories"
+import type { EpisodeInput, EpisodeUpdate, ScheduledRelease } from "@/lib/episodes"
+import type { LikeInput, RatingInput } from "@/lib/ratings"
+import type { CommentInput } from "@/lib/comments"
+import type { AutosaveInput } from "@/lib/autosaves"
+import type { InProgressEntry, ProgressInput } from "@/lib/progress"
+import type { LibraryShelf, ShelfInput, ShelfUpdate } from "@/lib/library"
+import type { SearchResult } from "@/lib/search"
+import type { Page, PageQuery } from "@/lib/pagination"
+import type { ImageUpload } from "@/lib/media"
+import type { Manuscript } from "@/lib/manuscript"
+import type { GenreUpdate, TagUpdate, TermInput } from "@/lib/taxonomy"
+import type { LoginInput, SignUpInput } from "@/lib/auth-schema"
+import type { UserUpdate } from "@/lib/users"
+
+// Browser-side wrappers around the route handlers in app/api
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+export async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json", ...init.headers } : init?.headers,
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new ApiError(body?.error ?? response.statusText, response.status)
+  }
+  return response.status === 204 ? (undefined as T) : response.json()
+}
+
+// fetch cannot report upload progress, so file uploads go through XMLHttpRequest. Network failures reject
+// with status 0.
+function upload<T>(url: string, body: FormData, onProgress?: (fraction: number) => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open("POST", url)
+    xhr.responseType = "json"
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total)
+    }
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve(xhr.response as T)
+      else reject(new ApiError(xhr.response?.error ?? xhr.statusText, xhr.status))
+    }
+    xhr.onerror = () => reject(new ApiError("Network error", 0))
+    xhr.send(body)
+  })
+}
+
+const toQuery = (params: Record<string, string | number | undefined>) => {
+  const query = new URLSearchParams()
+  Object.entries(params).forEach(([key, value]) => value && query.set(key, String(value)))
+  const search = query.toString()
+  return search ? `?${search}` : ""
+}
+
+// Listing responses name their items after the resource; this folds them into a Page
+const toPage =
+  <K extends string, T>(key: K) =>
+  (data: Record<K, T[]> & Omit<Page<T>, "items">): Page<T> => ({
+    items: data[key],
+    total: data.total,
+    nextCursor: data.nextCursor,
+  })
+
+export const storiesApi = {
+  list: (filters: StoryFilters = {}) =>
+    request<{ stories: Story[] }>(`/api/stories${toQuery({ ...filters })}`).then((data) => data.stories),
+  page: (filters: StoryFilters, page: PageQuery) =>
+    request<{ stories: Story[]; total: number; nextCursor: string | null }>(
+      `/api/stories${toQuery({ ...filters, ...page })}`,
+    ).then(toPage("stories")),
+  get: (id: string) => request<{ story: Story }>(`/api/stories/${id}`).then((data) => data.story),
+  create: (input: StoryInput) =>
+    request<{ story: Story }>("/api/stories", { method: "POST", body: JSON.stringify(input) }).then(
+      (data) => data.story,
+    ),
+  update: (id: string, patch: StoryUpdate) =>
+    request<{ story: Story }>(`/api/stories/${id}`, { method: "PATCH", body: JSON.stringify(patch) }).then(
+      (data) => data.story,
+    ),
+  remove: (id: string) => request<void>(`/api/stories/${id}`, { method: "DELETE" }),
+  recordView: (id: string) =>
+    request<{ views: number }>(`/api/stories/${id}/views`, { method: "POST" }).then((data) => data.views),
+  rating: {
+    get: (id: string) => request<{ rating: Rating | null }>(`/api/stories/${id}/rating`).then((data) => data.rating),
+    set: (id: string, input: RatingInput) =>
+      request<{ rating: Rating; story: Story }>(`/api/stories/${id}/rating`, {
+        method: "PUT",
+        body: JSON.stringify(input),
+      }),
+  },
+  like: {
+    get: (id: string) => request<{ liked: boolean }>(`/api/stories/${id}/like`).then((data) => data.liked),
+    set: (id: string, input: LikeInput) =>
+      request<{ liked: boolean; likes: number }>(`/api/stories/${id}/like`, {
+        method: "PUT",
+        body: JSON.stringify(input),
+      }),
+  },
+  episodes: {
+    list: (storyId: string) =>
+      request<{ episodes: Episode[] }>(`/api/stories/${storyId}/episodes`).then((data) => data.episodes),
+    create: (storyId: string, input: EpisodeInput) =>
+      request<{ episode: Episode }>(`/api/stories/${storyId}/episodes`, {
+        method: "POST",
+        body: JSON.stringify(input),
+      }).then((data) => data.episode),
+    update: (storyId: string, number: number, patch: EpisodeUpdate) =>
+      request<{ episode: Episode }>(`/api/stories/${storyId}/episodes/${number}`, {
+        method: "PATCH",
+        body: JSON.stringify(patch),
+      }).then((data) => data.episode),
+    remove: (storyId: string, number: number) =>
+      request<void>(`/api/stories/${storyId}/episodes/${number}`, { method: "DELETE" }),
+    revisions: (storyId: string, number: number) =>
+      request<{ revisions: Revision[] }>(`/api/stories/${storyId}/episodes/${number}/revisions`, {
+        cache: "no-store",
+      }).then((data) => data.revisions),
+    comments: {
+      list: (storyId: string, number: number) =>
+        request<{ comments: Comment[] }>(`/api/stories/${storyId}/episodes/${number}/comments`, {
+          cache: "no-store",
+        }).then((data) => data.comments),
+      create: (storyId: string, number: number, input: CommentInput) =>
+        request<{ comment: Comment }>(`/api/stories/${storyId}/episodes/${number}/comments`, {
+          method: "POST",
+          body: JSON.stringify(input),
+        }).then((data) => data.comment),
+      remove: (storyId: string, number: number, commentId: string) =>
+        request<void>(`/api/stories/${storyId}/episodes/${number}/comments/${commentId}`, { method: "DELETE" }),
+    },
+  },
+}
+
+export const searchApi = {
+  search: (query: string, init?: RequestInit) =>
+    request<{ results: SearchResult[] }>(`/api/search${toQuery({ q: query })}`, init).then((data) => data.results),
+}
+
+export const taxonomyApi = {
+  get: () => request<Taxonomy>("/api/taxonomy"),
+  genres: {
+    create: (input: TermInput) =>
+      request<{ genre: Genre }>("/api/taxonomy/genres", { method: "POST", body: JSON.stringify(input) }).then(
+        (data) => data.genre,
+      ),
+    update: (slug: string, patch: GenreUpdate) =>
+      request<{ genre: Genre }>(`/api/taxonomy/genres/${slug}`, {
+        method: "PATCH",
+        body: JSON.stringify(patch),
+      }).then((data) => data.genre),
+    remove: (slug: string) => request<void>(`/api/taxonomy/genres/${slug}`, { method: "DELETE" }),
+  },
+  tags: {
+    create: (input: TermInput) =>
+      request<{ tag: Tag }>("/api/taxonomy/tags", { method: "POST", body: JSON.stringify(input) }).then(
+        (data) => data.tag,
+      ),
+    update: (slug: string, patch: TagUpdate) =>
+      request<{ tag: Tag }>(`/api/taxonomy/tags/${slug}`, { method: "PATCH", body: JSON.stringify(patch) }).then(
+        (data) => data.tag,
+      ),
+    remove: (slug: string) => request<void>(`/api/taxonomy/tags/${slug}`, { method: "DELETE" }),
+    merge: (slug: string, into: string) =>
+      request<{ tag: Tag }>(`/api/taxonomy/tags/${slug}/merge`, {
+        method: "POST",
+        body: JSON.stringify({ into }),
+      }).then((data) => data.tag),
+  },
+}
+
+export const progressApi = {
+  list: () => request<{ entries: InProgressEntry[] }>("/api/progress").then((data) => data.entries),
+  save: (storyId: string, input: ProgressInput) =>
+    request<{ progress: ReadingProgress }>(`/api/progress/${storyId}`, {
+      method: "PUT",
+      body: JSON.stringify(input),
+      // Lets the last update finish when the reader navigates away
+      keepalive: true,
+    }).then((data) => data.progress),
+}
+
+export const scheduleApi = {
+  list: () =>
+    request<{ releases: ScheduledRelease[] }>("/api/schedule", { cache: "no-store" }).then((data) => data.releases),
+}
+
+export const mediaApi = {
+  upload: (file: File, purpose: ImagePurpose = "cover", onProgress?: (fraction: number) => void) => {
+    const body = new FormData()
+    body.set("file", file)
+    body.set("purpose", purpose)
+    return upload<{ image: ImageUpload }>("/api/media", body, onProgress).then((data) => data.image)
+  },
+}
+
+export const manuscriptsApi = {
+  parse: (file: File, onProgress?: (fraction: number) => void) => {
+    const body = new FormData()
+    body.set("file", file)
+    return upload<{ manuscript: Manuscript }>("/api/manuscripts", body, onProgress).then((data) => data.manuscript)
+  },
+}
+
+export const autosaveApi = {
+  get: (key: string) =>
+    request<{ autosave: Autosave | null }>(`/api/autosaves/${key}`, { cache: "no-store" }).then(
+      (data) => data.autosave,
+    ),
+  save: (key: string, input: AutosaveInput) =>
+    request<{ autosave: Autosave }>(`/api/autosaves/${key}`, {
+      method: "PUT",
+      body: JSON.stringify(input),
+    }).then((data) => data.autosave),
+  remove: (key: string) => request<void>(`/api/autosaves/${key}`, { method: "DELETE" }),
+}
+
+export const libraryApi = {
+  list: () => request<{ shelves: LibraryShelf[] }>("/api/library").then((data) => data.shelves),
+  createShelf: (input: ShelfInput) =>
+    request<{ shelf: Shelf }>("/api/library/shelves", { method: "POST", body: JSON.stringify(input) }).then(
+      (data) => data.shelf,
+    ),
+  updateShelf: (shelfId: string, patch: ShelfUpdate) =>
+    request<{ shelf: Shelf }>(`/api/library/shelves/${shelfId}`, {
+      method: "PATCH",
+      body: JSON.stringify(patch),
+    }).then((data) => data.shelf),
+  removeShelf: (shelfId: string) => request<void>(`/api/library/shelves/${shelfId}`, { method: "DELETE" }),
+  addStory: (shelfId: string, storyId: string) =>
+    request<{ shelf: Shelf }>(`/api/library/shelves/${shelfId}/stories/${storyId}`, { method: "PUT" }).then(
+      (data) => data.shelf,
+    ),
+  removeStory: (shelfId: string, storyId: string) =>
+    request<{ shelf: Shelf }>(`/api/library/shelves/${shelfId}/stories/${storyId}`, { method: "DELETE" }).then(
+      (data) => data.shelf,
+    ),
+}
+
+export const authApi = {
+  session: () => request<{ user: User | null }>("/api/auth/session", { cache: "no-store" }).then((data) => data.user),
+  login: (input: LoginInput) =>
+    request<{ user: User }>("/api/auth/login", { method: "POST", body: JSON.stringify(input) }).then(
+      (data) => data.user,
+    ),
+  signUp: (input: SignUpInput) =>
+    request<{ user: User }>("/api/auth/signup", { method: "POST", body: JSON.stringify(input) }).then(
+      (data) => data.user,
+    ),
+  logout: () => request<void>("/api/auth/logout", { method: "POST" }),
+}
+
+export const adminApi = {
+  users: {
+    list: (page: PageQuery = {}) =>
+      request<{ users: User[]; total: number; nextCursor: string | null }>(`/api/admin/users${toQuery(page)}`).then(
+        toPage("users"),
+      ),
+    update: (id: string, patch: UserUpdate) =>
+      request<{ user: User }>(`/api/admin/users/${id}`, { method: "PATCH", body: JSON.stringify(patch) }).then(
+        (data) => data.user,
+      ),
+    remove: (id: string) => request<void>(`/api/admin/users/${id}`, { method: "DELETE" }),
+  },
+  reports: {
+    list: (page: PageQuery & { status?: ReportStatus } = {}) =>
+      request<{ reports: Report[]; total: number; nextCursor: string | null }>(
+        `/api/admin/reports${toQuery(page)}`,
+      ).then(toPage("reports")),
+    update: (id: string, status: ReportStatus) =>
+      request<{ report: Report }>(`/api/admin/reports/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ status }),
+      }).then((data) => data.report),
+  },
+}
@@ -0,0 +1,28 @@
+import { z } from "zod"
+
+// Shared by AuthForm and the /api/auth route handlers
+
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  password: z.string().min(1, "Password is required"),
+})
+
+export const signUpSchema = z
+  .object({
+    username: z
+      .string()
+      .trim()
+      .min(3, "Username must be at least 3 characters")
+      .max(30, "Username must be at most 30 characters")
+      .regex(/^[a-zA-Z0-9_]+$/, "Use only letters, numbers and underscores"),
+    email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  })
+
+export type LoginInput = z.infer<typeof loginSchema>
+export type SignUpInput = z.infer<typeof signUpSchema>
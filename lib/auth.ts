@@ -0,0 +1,152 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto"
+import { promisify } from "util"
+import { cookies } from "next/headers"
+import { NextResponse } from "next/server"
+import { readDb, writeDb, type UserRecord } from "@/lib/db"
+import type { User, UserRole } from "@/lib/domain"
+
+export const SESSION_COOKIE = "sunega_session"
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "AuthError"
+  }
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, 64)
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(":")
+  if (scheme !== "scrypt" || !salt || !hash) return false
+  const expected = Buffer.from(hash, "hex")
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex")
+
+// Strip the password hash before a user record leaves the server
+export const toPublicUser = ({ passwordHash: _passwordHash, ...user }: UserRecord): User => user
+
+export async function createUser({
+  username,
+  email,
+  password,
+}: {
+  username: string
+  email: string
+  password: string
+}): Promise<User> {
+  const passwordHash = await hashPassword(password)
+  return writeDb((db) => {
+    if (db.users.some((user) => user.email === email)) {
+      throw new AuthError("An account with this email already exists", 409)
+    }
+    if (db.users.some((user) => user.username.toLowerCase() === username.toLowerCase())) {
+      throw new AuthError("This username is taken", 409)
+    }
+    const user: UserRecord = {
+      id: crypto.randomUUID(),
+      username,
+      email,
+      passwordHash,
+      status: "active",
+      // The operator bootstraps the first admin by signing up with ADMIN_EMAIL
+      role: process.env.ADMIN_EMAIL?.toLowerCase() === email ? "admin" : "reader",
+      joinDate: new Date().toISOString(),
+    }
+    db.users.push(user)
+    return toPublicUser(user)
+  })
+}
+
+export async function authenticate(email: string, password: string): Promise<User> {
+  const user = await readDb((db) => db.users.find((candidate) => candidate.email === email) ?? null)
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    throw new AuthError("Invalid email or password", 401)
+  }
+  if (user.status !== "active") {
+    throw new AuthError(`This account has been ${user.status}`, 403)
+  }
+  return toPublicUser(user)
+}
+
+export async function startSession(userId: string) {
+  const token = randomBytes(32).toString("base64url")
+  const now = Date.now()
+  const expiresAt = new Date(now + SESSION_TTL_MS)
+  await writeDb((db) => {
+    // Drop expired sessions while we are writing anyway
+    db.sessions = db.sessions.filter((session) => new Date(session.expiresAt).getTime() > now)
+    db.sessions.push({
+      id: hashToken(token),
+      userId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    })
+  })
+  const cookieStore = await cookies()
+  cookieStore.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  })
+}
+
+export async function endSession() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get(SESSION_COOKIE)?.value
+  if (token) {
+    const id = hashToken(token)
+    await writeDb((db) => {
+      db.sessions = db.sessions.filter((session) => session.id !== id)
+    })
+  }
+  cookieStore.delete(SESSION_COOKIE)
+}
+
+export async function getSessionUser(): Promise<User | null> {
+  const cookieStore = await cookies()
+  const token = cookieStore.get(SESSION_COOKIE)?.value
+  if (!token) return null
+  const id = hashToken(token)
+  return readDb((db) => {
+    const session = db.sessions.find((candidate) => candidate.id === id)
+    if (!session || new Date(session.expiresAt).getTime() <= Date.now()) return null
+    const user = db.users.find((candidate) => candidate.id === session.userId)
+    return user && user.status === "active" ? toPublicUser(user) : null
+  })
+}
+
+// Resolves the signed-in user, or throws when they are missing or lack one of the given roles
+export async function requireUser(...roles: UserRole[]): Promise<User> {
+  const user = await getSessionUser()
+  if (!user) {
+    throw new AuthError("You need to log in first", 401)
+  }
+  if (roles.length > 0 && !roles.includes(user.role)) {
+    throw new AuthError("You do not have permission to do that", 403)
+  }
+  return user
+}
+
+// Turns an AuthError into its JSON response; anything else is rethrown
+export function authErrorResponse(error: unknown): NextResponse {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  throw error
+}
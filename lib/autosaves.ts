@@ -0,0 +1,43 @@
+import { z } from "zod"
+import { readDb, writeDb } from "@/lib/db"
+import { autosaveSchema, type Autosave } from "@/lib/domain"
+
+// Editor state is stored as sent, so its serialized size is capped. Panels refer to uploaded images by id; only
+// legacy panels carry their image inline.
+const MAX_AUTOSAVE_BYTES = 2 * 1024 * 1024
+
+export const autosaveInputSchema = autosaveSchema
+  .pick({ state: true, updatedAt: true })
+  .refine((input) => new TextEncoder().encode(JSON.stringify(input.state)).length <= MAX_AUTOSAVE_BYTES, {
+    message: "Autosaves must be 2 MB or smaller",
+    path: ["state"],
+  })
+
+export type AutosaveInput = z.infer<typeof autosaveInputSchema>
+
+const matches = (userId: string, key: string) => (autosave: Autosave) =>
+  autosave.userId === userId && autosave.key === key
+
+export async function getAutosave(userId: string, key: string): Promise<Autosave | null> {
+  return readDb((db) => db.autosaves.find(matches(userId, key)) ?? null)
+}
+
+// Keeps only the latest state per session. A copy made earlier than the stored one, say by a second tab or
+// a device coming back online, does not overwrite it; the stored copy is returned instead.
+export async function saveAutosave(userId: string, key: string, input: AutosaveInput): Promise<Autosave> {
+  const { state, updatedAt } = autosaveInputSchema.parse(input)
+  return writeDb((db) => {
+    const existing = db.autosaves.find(matches(userId, key))
+    if (existing && existing.updatedAt > updatedAt) return existing
+    const autosave: Autosave = { userId, key, state, updatedAt }
+    if (existing) Object.assign(existing, autosave)
+    else db.autosaves.push(autosave)
+    return autosave
+  })
+}
+
+export async function deleteAutosave(userId: string, key: string): Promise<void> {
+  await writeDb((db) => {
+    db.autosaves = db.autosaves.filter((autosave) => !matches(userId, key)(autosave))
+  })
+}
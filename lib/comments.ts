@@ -0,0 +1,71 @@
+import { z } from "zod"
+import { readDb, writeDb, type Database } from "@/lib/db"
+import { commentSchema, type Comment, type User } from "@/lib/domain"
+import { addActivity } from "@/lib/rankings"
+
+export const commentInputSchema = commentSchema.pick({ body: true })
+
+export type CommentInput = z.infer<typeof commentInputSchema>
+
+// Comments are open on published episodes of published stories only
+function findReadableEpisode(db: Database, storyId: string, episodeNumber: number) {
+  const story = db.stories.find((candidate) => candidate.id === storyId)
+  const episode = db.episodes.find((candidate) => candidate.storyId === storyId && candidate.number === episodeNumber)
+  return story?.status === "published" && episode?.status === "published" ? { story, episode } : null
+}
+
+// Removes the given comments and takes them back out of their stories' trending activity
+export function removeComments(db: Database, remove: (comment: Comment) => boolean) {
+  db.comments = db.comments.filter((comment) => {
+    if (!remove(comment)) return true
+    const story = db.stories.find((candidate) => candidate.id === comment.storyId)
+    if (story) addActivity(story, "comment", comment.createdAt, -1)
+    return false
+  })
+}
+
+// The episode's comments, oldest first, or null when the episode cannot be read
+export async function listComments(storyId: string, episodeNumber: number): Promise<Comment[] | null> {
+  return readDb((db) => {
+    const readable = findReadableEpisode(db, storyId, episodeNumber)
+    if (!readable) return null
+    return db.comments.filter((comment) => comment.episodeId === readable.episode.id)
+  })
+}
+
+export async function addComment(
+  user: User,
+  storyId: string,
+  episodeNumber: number,
+  input: CommentInput,
+): Promise<Comment | null> {
+  const { body } = commentInputSchema.parse(input)
+  return writeDb((db) => {
+    const readable = findReadableEpisode(db, storyId, episodeNumber)
+    if (!readable) return null
+    const comment: Comment = {
+      id: crypto.randomUUID(),
+      storyId,
+      episodeId: readable.episode.id,
+      userId: user.id,
+      author: user.username,
+      body,
+      createdAt: new Date().toISOString(),
+    }
+    db.comments.push(comment)
+    addActivity(readable.story, "comment", comment.createdAt)
+    return comment
+  })
+}
+
+export async function getComment(id: string): Promise<Comment | null> {
+  return readDb((db) => db.comments.find((comment) => comment.id === id) ?? null)
+}
+
+export async function deleteComment(id: string): Promise<boolean> {
+  return writeDb((db) => {
+    const before = db.comments.length
+    removeComments(db, (comment) => comment.id === id)
+    return db.comments.length < before
+  })
+}
@@ -0,0 +1,132 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type {
+  Autosave,
+  Comment,
+  Episode,
+  Genre,
+  Like,
+  Rating,
+  ReadingProgress,
+  Report,
+  Revision,
+  Shelf,
+  Story,
+  Tag,
+  UploadedImage,
+  User,
+} from "@/lib/domain"
+import { seedEpisodes, seedGenres, seedReports, seedStories, seedTags, seedUsers } from "@/lib/seed"
+
+// Server-only JSON file store. Every route handler goes through readDb/writeDb.
+export interface UserRecord extends User {
+  passwordHash: string
+}
+
+export interface SessionRecord {
+  // SHA-256 of the cookie token, so a leaked database file cannot be replayed as a session
+  id: string
+  userId: string
+  createdAt: string
+  expiresAt: string
+}
+
+export interface Database {
+  stories: Story[]
+  episodes: Episode[]
+  users: UserRecord[]
+  sessions: SessionRecord[]
+  reports: Report[]
+  progress: ReadingProgress[]
+  shelves: Shelf[]
+  ratings: Rating[]
+  likes: Like[]
+  comments: Comment[]
+  genres: Genre[]
+  tags: Tag[]
+  autosaves: Autosave[]
+  // Oldest first
+  revisions: Revision[]
+  images: UploadedImage[]
+}
+
+// Collections added after a database file was first written start out empty, except the taxonomy,
+// which every store needs
+const emptyDatabase = (): Database => ({
+  stories: [],
+  episodes: [],
+  users: [],
+  sessions: [],
+  reports: [],
+  progress: [],
+  shelves: [],
+  ratings: [],
+  likes: [],
+  comments: [],
+  genres: seedGenres(),
+  tags: seedTags(),
+  autosaves: [],
+  revisions: [],
+  images: [],
+})
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data")
+const DB_FILE = path.join(DATA_DIR, "db.json")
+
+interface Store {
+  cache: Database | null
+  queue: Promise<unknown>
+}
+
+// Kept on globalThis because Next bundles this module more than once per process (route handlers and
+// instrumentation.ts), and every copy must share one cache and one queue
+const globalStore = globalThis as typeof globalThis & { sunegaDb?: Store }
+const store = (globalStore.sunegaDb ??= { cache: null, queue: Promise.resolve() })
+
+async function persist(db: Database) {
+  await fs.mkdir(DATA_DIR, { recursive: true })
+  // Write to a temp file first so a crash never leaves a half-written database
+  const tmpFile = `${DB_FILE}.${process.pid}.tmp`
+  await fs.writeFile(tmpFile, JSON.stringify(db, null, 2))
+  await fs.rename(tmpFile, DB_FILE)
+}
+
+async function load(): Promise<Database> {
+  if (store.cache) return store.cache
+  try {
+    store.cache = { ...emptyDatabase(), ...(JSON.parse(await fs.readFile(DB_FILE, "utf8")) as Partial<Database>) }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+    store.cache = {
+      ...emptyDatabase(),
+      stories: seedStories(),
+      episodes: seedEpisodes(),
+      users: seedUsers(),
+      reports: seedReports(),
+    }
+    await persist(store.cache)
+  }
+  return store.cache
+}
+
+// Serialize all access so concurrent requests never interleave a read-modify-write
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = store.queue.then(task)
+  store.queue = result.catch(() => undefined)
+  return result
+}
+
+export function readDb<T>(reader: (db: Database) => T): Promise<T> {
+  return enqueue(async () => structuredClone(reader(await load())))
+}
+
+// The writer works on a copy; it only replaces the cache once the file is on disk
+export function writeDb<T>(writer: (db: Database) => T): Promise<T> {
+  return enqueue(async () => {
+    const draft = structuredClone(await load())
+    const result = writer(draft)
+    await persist(draft)
+    store.cache = draft
+    return structuredClone(result)
+  })
+}
@@ -0,0 +1,124 @@
+// Pure line and word diffs, used to compare revisions side by side
+
+type DiffOp<T> = { type: "same" | "removed" | "added"; value: T }
+
+// The table below takes four bytes a cell. Past this many cells (about 16 MB) the changed region is shown as
+// removed and then added, without lining up what the two sides still share.
+const MAX_TABLE_CELLS = 4_000_000
+
+export interface DiffSegment {
+  text: string
+  changed: boolean
+}
+
+// One line of a side-by-side diff. "changed" pairs an old line with its replacement; the other kinds
+// leave one side empty.
+export interface DiffRow {
+  kind: "same" | "changed" | "removed" | "added"
+  before: DiffSegment[] | null
+  after: DiffSegment[] | null
+}
+
+// Longest-common-subsequence diff. The common prefix and suffix are trimmed first, so the table only
+// spans the region that actually changed.
+function diffSequences<T>(before: T[], after: T[]): DiffOp<T>[] {
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) start++
+  let beforeEnd = before.length
+  let afterEnd = after.length
+  while (beforeEnd > start && afterEnd > start && before[beforeEnd - 1] === after[afterEnd - 1]) {
+    beforeEnd--
+    afterEnd--
+  }
+  const a = before.slice(start, beforeEnd)
+  const b = after.slice(start, afterEnd)
+  const ops: DiffOp<T>[] = before.slice(0, start).map((value) => ({ type: "same", value }))
+  const suffix: DiffOp<T>[] = before.slice(beforeEnd).map((value) => ({ type: "same", value }))
+
+  if ((a.length + 1) * (b.length + 1) > MAX_TABLE_CELLS) {
+    a.forEach((value) => ops.push({ type: "removed", value }))
+    b.forEach((value) => ops.push({ type: "added", value }))
+    return [...ops, ...suffix]
+  }
+
+  // lengths[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "same", value: a[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: "removed", value: a[i++] })
+    } else {
+      ops.push({ type: "added", value: b[j++] })
+    }
+  }
+  a.slice(i).forEach((value) => ops.push({ type: "removed", value }))
+  b.slice(j).forEach((value) => ops.push({ type: "added", value }))
+  return [...ops, ...suffix]
+}
+
+// Joins neighbouring tokens with the same flag, so highlights cover whole runs of words
+function toSegments(ops: DiffOp<string>[]): DiffSegment[] {
+  const segments: DiffSegment[] = []
+  ops.forEach(({ type, value }) => {
+    const changed = type !== "same"
+    const last = segments[segments.length - 1]
+    if (last && last.changed === changed) last.text += value
+    else segments.push({ text: value, changed })
+  })
+  return segments
+}
+
+// Word-level highlights for a line and its replacement
+function diffWords(before: string, after: string): Pick<DiffRow, "before" | "after"> {
+  // Splitting on a captured group keeps the whitespace as tokens, so the line reassembles exactly
+  const ops = diffSequences(before.split(/(\s+)/), after.split(/(\s+)/))
+  return {
+    before: toSegments(ops.filter((op) => op.type !== "added")),
+    after: toSegments(ops.filter((op) => op.type !== "removed")),
+  }
+}
+
+export function diffLines(before: string, after: string): DiffRow[] {
+  const rows: DiffRow[] = []
+  let removed: string[] = []
+  let added: string[] = []
+
+  // A run of removed lines followed by added ones is read as an edit: the lines are paired up in order
+  const flush = () => {
+    for (let index = 0; index < Math.max(removed.length, added.length); index++) {
+      const oldLine = removed[index]
+      const newLine = added[index]
+      if (oldLine !== undefined && newLine !== undefined) {
+        rows.push({ kind: "changed", ...diffWords(oldLine, newLine) })
+      } else if (oldLine !== undefined) {
+        rows.push({ kind: "removed", before: [{ text: oldLine, changed: true }], after: null })
+      } else {
+        rows.push({ kind: "added", before: null, after: [{ text: newLine, changed: true }] })
+      }
+    }
+    removed = []
+    added = []
+  }
+
+  diffSequences(before.split("\n"), after.split("\n")).forEach(({ type, value }) => {
+    if (type === "removed") removed.push(value)
+    else if (type === "added") added.push(value)
+    else {
+      flush()
+      rows.push({ kind: "same", before: [{ text: value, changed: false }], after: [{ text: value, changed: false }] })
+    }
+  })
+  flush()
+  return rows
+}
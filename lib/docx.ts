@@ -0,0 +1,63 @@
+import { readZipEntry } from "@/lib/zip"
+
+// Just enough of the DOCX format to import a manuscript: the paragraphs of word/document.xml with their
+// heading or quote style and bold and italic runs. Everything else is ignored.
+
+export interface DocxRun {
+  text: string
+  bold: boolean
+  italic: boolean
+}
+
+export interface DocxParagraph {
+  // 0 for the "Title" style, N for "Heading N", null for body text
+  heading: number | null
+  quote: boolean
+  runs: DocxRun[]
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return ENTITIES[name] ?? entity
+    const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+    return Number.isFinite(code) ? String.fromCodePoint(code) : entity
+  })
+
+// <w:b/> and <w:b w:val="true"/> switch a property on; w:val="false" or "0" switches it off
+const hasToggle = (properties: string, tag: string) => {
+  const match = new RegExp(`<w:${tag}(?:\\s+w:val="([^"]*)")?\\s*/>`).exec(properties)
+  return Boolean(match) && !["false", "0", "off"].includes(match![1] ?? "")
+}
+
+function parseRun(xml: string): DocxRun {
+  const properties = /<w:rPr>([\s\S]*?)<\/w:rPr>/.exec(xml)?.[1] ?? ""
+  let text = ""
+  // Text, tabs and line breaks, in document order; deleted text (w:delText) is skipped
+  for (const [, tag, body] of xml.matchAll(/<w:(t|tab|br|cr)(?:\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/w:\1>)/g)) {
+    text += tag === "t" ? decodeXml(body ?? "") : " "
+  }
+  return { text, bold: hasToggle(properties, "b"), italic: hasToggle(properties, "i") }
+}
+
+function headingLevel(style: string): number | null {
+  if (/^title$/i.test(style)) return 0
+  const match = /^heading\s*(\d)$/i.exec(style)
+  return match ? Number(match[1]) : null
+}
+
+// The paragraphs of a .docx file's main document, in order
+export function readDocxParagraphs(file: Buffer): DocxParagraph[] {
+  const document = readZipEntry(file, "word/document.xml")
+  if (!document) throw new Error("No document in this file")
+  const xml = document.toString("utf8")
+  return Array.from(xml.matchAll(/<w:p(?:\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/w:p>)/g), ([, body = ""]) => {
+    const style = /<w:pStyle\s+w:val="([^"]*)"/.exec(body)?.[1] ?? ""
+    return {
+      heading: headingLevel(style),
+      quote: /quote/i.test(style),
+      runs: Array.from(body.matchAll(/<w:r(?:\s[^>]*)?>([\s\S]*?)<\/w:r>/g), ([run]) => parseRun(run)),
+    }
+  })
+}
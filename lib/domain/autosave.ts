@@ -0,0 +1,44 @@
+import { z } from "zod"
+import { storyContentItemSchema, storyContentTypeSchema } from "./story"
+
+// Everything on the story editor screen, exactly as typed. Nothing is validated or required until the author
+// saves, so an autosave can hold a half-written story.
+export const editorStateSchema = z.object({
+  title: z.string(),
+  // Kept as typed; blank means "the next episode"
+  episodeNumber: z.string(),
+  // Older autosaves predate episode titles in the editor
+  episodeTitle: z.string().default(""),
+  genre: z.string(),
+  // Display names, resolved to tag slugs on save
+  tags: z.array(z.string()),
+  // Stable URL of the uploaded cover; older autosaves predate covers
+  imageUrl: z.string().default(""),
+  content: z.string(),
+  contentType: storyContentTypeSchema,
+  storyContent: z.array(storyContentItemSchema),
+})
+export type EditorState = z.infer<typeof editorStateSchema>
+
+// Names one editing session, e.g. "new-story" or "story-s1-episode-2"
+export const autosaveKeySchema = z
+  .string()
+  .min(1)
+  .max(100)
+  .regex(/^[\w-]+$/, "Autosave keys are limited to letters, digits, - and _")
+
+// The session editing one episode of a story, or the story's next episode before it is first saved
+export const episodeAutosaveKey = (storyId: string, episode: number | "new") => `story-${storyId}-episode-${episode}`
+
+// The story an episode's autosave key belongs to, or null for any other key
+export const autosaveStoryId = (key: string) => /^story-(.+)-episode-(?:\d+|new)$/.exec(key)?.[1] ?? null
+
+// The latest editor state autosaved for one user and editing session; removed once the author saves for real
+export const autosaveSchema = z.object({
+  userId: z.string(),
+  key: autosaveKeySchema,
+  state: editorStateSchema,
+  // When the author made the change, by the browser's clock, so it compares with copies kept on the device
+  updatedAt: z.string().datetime(),
+})
+export type Autosave = z.infer<typeof autosaveSchema>
@@ -0,0 +1,11 @@
+// The shared domain model: zod schemas for every record, and the types inferred from them.
+// Route handlers validate against these and components import their prop types from here.
+
+export * from "./story"
+export * from "./user"
+export * from "./report"
+export * from "./notification"
+export * from "./reading"
+export * from "./taxonomy"
+export * from "./autosave"
+export * from "./media"
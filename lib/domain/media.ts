@@ -0,0 +1,61 @@
+import { z } from "zod"
+
+// Upload formats, with the extension their original is stored under
+export const IMAGE_TYPES = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp" } as const
+export type ImageType = keyof typeof IMAGE_TYPES
+
+export const imagePurposeSchema = z.enum(["cover", "panel"])
+export type ImagePurpose = z.infer<typeof imagePurposeSchema>
+
+// An uploaded image. Its files live in lib/storage; this record is what ties them to their owner.
+export const uploadedImageSchema = z.object({
+  id: z.string(),
+  ownerId: z.string(),
+  purpose: imagePurposeSchema,
+  // Of the stored original, after resizing
+  type: z.enum(Object.keys(IMAGE_TYPES) as [ImageType, ...ImageType[]]),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  createdAt: z.string().datetime(),
+})
+export type UploadedImage = z.infer<typeof uploadedImageSchema>
+
+// Every image is stored as its original plus a WebP copy and a small WebP thumbnail
+export interface ImageUrls {
+  url: string
+  webpUrl: string
+  thumbnailUrl: string
+}
+
+export const imageUrls = ({ id, type }: Pick<UploadedImage, "id" | "type">): ImageUrls => ({
+  url: `/media/${id}/original.${IMAGE_TYPES[type]}`,
+  webpUrl: `/media/${id}/large.webp`,
+  thumbnailUrl: `/media/${id}/thumb.webp`,
+})
+
+const ORIGINAL_URL = /^\/media\/([\w-]+)\/original\.(jpg|png|webp)$/
+const IMAGE_ID = /^[\w-]{1,64}$/
+
+export const isImageId = (value: string) => IMAGE_ID.test(value)
+
+// Panels saved before uploads existed hold the picture itself, as a data URL
+export const isLegacyImageData = (value: string) => /^data:image\/[\w+.-]+;base64,/.test(value)
+
+// The variants behind a stored image URL, or null for any other URL (the sample covers, external links)
+export function parseImageUrl(url: string): ImageUrls | null {
+  const match = ORIGINAL_URL.exec(url)
+  if (!match) return null
+  const type = (Object.keys(IMAGE_TYPES) as ImageType[]).find((key) => IMAGE_TYPES[key] === match[2])!
+  return imageUrls({ id: match[1], type })
+}
+
+// Image-story panels store only the image id, so the original is addressed without its extension and the
+// media route looks its format up. Panels from before uploads hold a data URL and have no variants.
+export function panelImageUrls(content: string): ImageUrls | null {
+  if (!isImageId(content)) return null
+  return {
+    url: `/media/${content}/original`,
+    webpUrl: `/media/${content}/large.webp`,
+    thumbnailUrl: `/media/${content}/thumb.webp`,
+  }
+}
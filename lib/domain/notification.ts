@@ -0,0 +1,13 @@
+import { z } from "zod"
+
+export const notificationTypeSchema = z.enum(["new_story", "follow", "comment", "like"])
+export type NotificationType = z.infer<typeof notificationTypeSchema>
+
+export const notificationSchema = z.object({
+  id: z.string(),
+  type: notificationTypeSchema,
+  message: z.string(),
+  read: z.boolean(),
+  createdAt: z.string().datetime(),
+})
+export type Notification = z.infer<typeof notificationSchema>
@@ -0,0 +1,59 @@
+import { z } from "zod"
+
+// Where a reader stopped in one episode; one record per user, story and episode
+export const readingProgressSchema = z.object({
+  userId: z.string(),
+  storyId: z.string(),
+  episodeNumber: z.number().int().positive(),
+  // Index of the paragraph at the top of the reader's screen
+  paragraph: z.number().int().nonnegative(),
+  // Share of the episode read, 0-100
+  percent: z.number().min(0).max(100),
+  updatedAt: z.string().datetime(),
+})
+export type ReadingProgress = z.infer<typeof readingProgressSchema>
+
+export const shelfKindSchema = z.enum(["bookmarks", "completed", "custom"])
+export type ShelfKind = z.infer<typeof shelfKindSchema>
+
+// A user's ordered list of stories. Every user has a Bookmarked and a Completed shelf plus any they create.
+export const shelfSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  kind: shelfKindSchema,
+  name: z.string().trim().min(1, "Shelf name is required").max(40, "Shelf names are limited to 40 characters"),
+  storyIds: z.array(z.string()),
+  createdAt: z.string().datetime(),
+})
+export type Shelf = z.infer<typeof shelfSchema>
+
+// One reader's star rating of a story
+export const ratingSchema = z.object({
+  userId: z.string(),
+  storyId: z.string(),
+  value: z.number().int().min(1).max(5),
+  updatedAt: z.string().datetime(),
+})
+export type Rating = z.infer<typeof ratingSchema>
+
+// One reader's like of a story; the story keeps the running total
+export const likeSchema = z.object({
+  userId: z.string(),
+  storyId: z.string(),
+  createdAt: z.string().datetime(),
+})
+export type Like = z.infer<typeof likeSchema>
+
+// A reader's comment on one episode
+export const commentSchema = z.object({
+  id: z.string(),
+  storyId: z.string(),
+  // Follows the episode through renumbering
+  episodeId: z.string(),
+  userId: z.string(),
+  // The commenter's username when they wrote it
+  author: z.string(),
+  body: z.string().trim().min(1, "Comment cannot be empty").max(2000, "Comments are limited to 2000 characters"),
+  createdAt: z.string().datetime(),
+})
+export type Comment = z.infer<typeof commentSchema>
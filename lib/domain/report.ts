@@ -0,0 +1,16 @@
+import { z } from "zod"
+
+export const reportStatusSchema = z.enum(["pending", "reviewed", "dismissed"])
+export type ReportStatus = z.infer<typeof reportStatusSchema>
+
+// A reader's complaint about a story, queued for the admin Reports tab
+export const reportSchema = z.object({
+  id: z.string(),
+  storyId: z.string(),
+  storyTitle: z.string(),
+  reason: z.string(),
+  reportedBy: z.string(),
+  status: reportStatusSchema,
+  reportedAt: z.string().datetime(),
+})
+export type Report = z.infer<typeof reportSchema>
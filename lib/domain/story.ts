@@ -0,0 +1,136 @@
+import { z } from "zod"
+
+export const storyStatusSchema = z.enum(["published", "draft", "flagged", "archived"])
+export type StoryStatus = z.infer<typeof storyStatusSchema>
+
+export const storyContentTypeSchema = z.enum(["text", "image"])
+export type StoryContentType = z.infer<typeof storyContentTypeSchema>
+
+const hexColorSchema = z.string().regex(/^#[0-9a-f]{6}$/i, "Colors must be written as #rrggbb")
+
+// Text laid over an image panel: a caption box or a speech bubble. Positions and sizes are fractions of the
+// panel, so an overlay lands in the same place however large the panel is shown.
+export const panelOverlaySchema = z.object({
+  id: z.string(),
+  kind: z.enum(["caption", "speech"]),
+  text: z.string().max(500),
+  // Centre of the overlay, measured from the panel's top-left corner
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0.1).max(1),
+  font: z.enum(["sans", "serif", "comic"]),
+  // Percent of the panel's width
+  fontSize: z.number().min(1).max(12),
+  color: hexColorSchema,
+  // Null shows the text without a box
+  background: hexColorSchema.nullable(),
+  // Where a speech bubble's tail leaves its bottom edge
+  tail: z.enum(["none", "left", "right"]),
+})
+export type PanelOverlay = z.infer<typeof panelOverlaySchema>
+
+// One panel of an image story: a picture or a caption, in reading order
+export const storyContentItemSchema = z.object({
+  id: z.string(),
+  type: z.enum(["text", "image"]),
+  // The caption, or the id of an uploaded image (see panelImageUrls)
+  content: z.string(),
+  order: z.number().int().nonnegative(),
+  // Image panels only, bottom-most first
+  overlays: z.array(panelOverlaySchema).max(20).optional(),
+})
+export type StoryContentItem = z.infer<typeof storyContentItemSchema>
+
+// The canonical story record shared by the API and every view
+export const storySchema = z.object({
+  id: z.string(),
+  title: z.string().trim().min(1, "Title is required"),
+  author: z.string(),
+  // Account that owns the story; null for the sample catalogue
+  authorId: z.string().nullable(),
+  genre: z.string(),
+  tags: z.array(z.string().trim().min(1)),
+  imageUrl: z.string(),
+  contentType: storyContentTypeSchema,
+  // Published episodes, and their total words and reading time; kept in sync by lib/episodes
+  episodeCount: z.number().int().nonnegative(),
+  wordCount: z.number().int().nonnegative(),
+  readingSeconds: z.number().int().nonnegative(),
+  status: storyStatusSchema,
+  // Whether readers may download the story as EPUB or PDF; its author always can
+  allowDownloads: z.boolean(),
+  views: z.number().int().nonnegative(),
+  likes: z.number().int().nonnegative(),
+  // Mean of readers' 1-5 star ratings; 0 until the first rating
+  ratingAverage: z.number().min(0).max(5),
+  ratingCount: z.number().int().nonnegative(),
+  // Weighted views, likes and comments per UTC day ("2025-01-31") over the trending window; see lib/rankings
+  activity: z.record(z.string(), z.number().nonnegative()),
+  publishDate: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+})
+export type Story = z.infer<typeof storySchema>
+
+export const episodeStatusSchema = z.enum(["published", "draft"])
+export type EpisodeStatus = z.infer<typeof episodeStatusSchema>
+
+// One numbered instalment of a story. The story is the series; its text lives in episodes.
+export const episodeSchema = z.object({
+  id: z.string(),
+  storyId: z.string(),
+  number: z.number().int().positive(),
+  title: z.string().trim(),
+  content: z.string(),
+  storyContent: z.array(storyContentItemSchema),
+  // Counted from the content on every save (see lib/text)
+  wordCount: z.number().int().nonnegative(),
+  readingSeconds: z.number().int().nonnegative(),
+  status: episodeStatusSchema,
+  publishDate: z.string().datetime().nullable(),
+  // A draft due to publish itself at this time; cleared once it is published
+  scheduledFor: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+})
+export type Episode = z.infer<typeof episodeSchema>
+
+// What the story editor hands to its owner on save: story metadata plus one episode
+export const storyDraftSchema = z.object({
+  title: storySchema.shape.title,
+  // Null appends after the last episode
+  episodeNumber: episodeSchema.shape.number.nullable(),
+  episodeTitle: episodeSchema.shape.title,
+  content: episodeSchema.shape.content,
+  genre: storySchema.shape.genre,
+  tags: storySchema.shape.tags,
+  imageUrl: storySchema.shape.imageUrl,
+  contentType: storySchema.shape.contentType,
+  allowDownloads: storySchema.shape.allowDownloads,
+  // The episode's status after the save; a published episode stays published unless the author unpublishes it
+  status: episodeStatusSchema,
+  // True only when the author pressed Publish, the one action that may also publish the story
+  publish: z.boolean(),
+  // Only for drafts
+  scheduledFor: episodeSchema.shape.scheduledFor,
+  storyContent: episodeSchema.shape.storyContent,
+})
+export type StoryDraft = z.infer<typeof storyDraftSchema>
+
+// A snapshot of an episode taken each time it is saved, so authors can compare and roll back
+export const revisionSchema = z.object({
+  id: z.string(),
+  storyId: z.string(),
+  // Follows the episode through renumbering
+  episodeId: z.string(),
+  episodeNumber: episodeSchema.shape.number,
+  // The episode's title when the revision was taken. Revisions from before episode titles were tracked hold
+  // the story's title instead.
+  title: z.string(),
+  content: episodeSchema.shape.content,
+  storyContent: episodeSchema.shape.storyContent,
+  status: episodeStatusSchema,
+  wordCount: z.number().int().nonnegative(),
+  createdAt: z.string().datetime(),
+})
+export type Revision = z.infer<typeof revisionSchema>
@@ -0,0 +1,58 @@
+import { z } from "zod"
+
+// URL-safe identifier shared by genres and tags; stories store slugs, never display names
+export const slugSchema = z
+  .string()
+  .min(1)
+  .max(60)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and single hyphens")
+
+const termSchema = z.object({
+  slug: slugSchema,
+  name: z.string().trim().min(1, "Name is required").max(40, "Names are limited to 40 characters"),
+  // Other spellings that resolve to this term, like "Science Fiction" for Sci-Fi
+  synonyms: z.array(z.string().trim().min(1)),
+})
+
+export const genreSchema = termSchema
+export type Genre = z.infer<typeof genreSchema>
+
+export const tagSchema = termSchema
+export type Tag = z.infer<typeof tagSchema>
+
+export interface Taxonomy {
+  // In display order
+  genres: Genre[]
+  // Alphabetical by name
+  tags: Tag[]
+  // Published stories per tag slug; unused tags are absent
+  tagCounts: Record<string, number>
+}
+
+// "Science Fiction!" -> "science-fiction"
+export const slugify = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+
+// Like slugify, but keeps letters and numbers from every script, so "ファンタジー" and "Фэнтези" have keys too.
+// Names are compared by this; slugs stay ASCII because they go into URLs and file names.
+export const termKey = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+
+// The term whose slug, name or synonym matches the value, ignoring case, accents and punctuation
+export function matchTerm<T extends Genre | Tag>(terms: T[], value: string): T | undefined {
+  const key = termKey(value)
+  if (!key) return undefined
+  return terms.find((term) => term.slug === key || [term.name, ...term.synonyms].some((alias) => termKey(alias) === key))
+}
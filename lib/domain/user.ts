@@ -0,0 +1,18 @@
+import { z } from "zod"
+
+export const userRoleSchema = z.enum(["admin", "author", "reader"])
+export type UserRole = z.infer<typeof userRoleSchema>
+
+export const userStatusSchema = z.enum(["active", "suspended", "banned"])
+export type UserStatus = z.infer<typeof userStatusSchema>
+
+// An account as the API exposes it; the password hash never leaves lib/db
+export const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  email: z.string().email(),
+  status: userStatusSchema,
+  role: userRoleSchema,
+  joinDate: z.string().datetime(),
+})
+export type User = z.infer<typeof userSchema>
@@ -0,0 +1,220 @@
+import { z } from "zod"
+import { removeComments } from "@/lib/comments"
+import { readDb, writeDb, type Database } from "@/lib/db"
+import { episodeSchema, isImageId, isLegacyImageData, type Episode, type StoryContentItem } from "@/lib/domain"
+import { recordRevision } from "@/lib/revisions"
+import { normalizeStoryText } from "@/lib/rich-text"
+import { episodeReadingSeconds, episodeWordCount } from "@/lib/text"
+
+const { shape } = episodeSchema
+
+export const episodeInputSchema = z.object({
+  // Omitted on create to append after the last episode
+  number: shape.number.optional(),
+  title: shape.title.default(""),
+  // Story text in the lib/rich-text dialect
+  content: shape.content.transform(normalizeStoryText).default(""),
+  // Pictures are uploaded through /api/media first; panels only point at them. Legacy panels that hold their
+  // picture pass here, but a save may only keep the ones the episode already has (see InlineImageError).
+  storyContent: shape.storyContent
+    .refine(
+      (items) =>
+        items.every((item) => item.type === "text" || isImageId(item.content) || isLegacyImageData(item.content)),
+      "Image panels must reference an uploaded image",
+    )
+    .refine(
+      (items) => items.every((item) => item.type === "image" || !item.overlays?.length),
+      "Only image panels can have text overlays",
+    )
+    .default([]),
+  status: shape.status.default("draft"),
+  // Ignored when the episode is published
+  scheduledFor: shape.scheduledFor
+    .refine((value) => !value || new Date(value).getTime() > Date.now(), "Scheduled time must be in the future")
+    .default(null),
+})
+
+export const episodeUpdateSchema = episodeInputSchema.partial()
+
+export type EpisodeInput = z.input<typeof episodeInputSchema>
+export type EpisodeUpdate = z.infer<typeof episodeUpdateSchema>
+
+// An upcoming scheduled episode, for the author's release calendar
+export interface ScheduledRelease {
+  storyId: string
+  storyTitle: string
+  episodeNumber: number
+  episodeTitle: string
+  scheduledFor: string
+}
+
+export class EpisodeNumberTakenError extends Error {
+  constructor(number: number) {
+    super(`Episode ${number} already exists`)
+    this.name = "EpisodeNumberTakenError"
+  }
+}
+
+// A panel holds a picture inline that the episode did not already have; new pictures must be uploaded
+export class InlineImageError extends Error {
+  constructor() {
+    super("Image panels must reference an uploaded image")
+    this.name = "InlineImageError"
+  }
+}
+
+const byNumber = (a: Episode, b: Episode) => a.number - b.number
+
+function checkInlineImages(panels: StoryContentItem[] | undefined, existing: StoryContentItem[] = []) {
+  const kept = new Set(existing.map((panel) => panel.content))
+  if (panels?.some((panel) => isLegacyImageData(panel.content) && !kept.has(panel.content))) {
+    throw new InlineImageError()
+  }
+}
+
+// Counted on every save, so story cards and lists never have to read episode text
+const measure = (episode: Pick<Episode, "content" | "storyContent">) => ({
+  wordCount: episodeWordCount(episode),
+  readingSeconds: episodeReadingSeconds(episode),
+})
+
+// Keeps the story's published episode count, word count, reading time and last-updated time in step with
+// its episodes
+function touchStory(db: Database, storyId: string, now: string) {
+  const story = db.stories.find((candidate) => candidate.id === storyId)
+  if (!story) return
+  const published = db.episodes.filter((episode) => episode.storyId === storyId && episode.status === "published")
+  story.episodeCount = published.length
+  story.wordCount = published.reduce((total, episode) => total + episode.wordCount, 0)
+  story.readingSeconds = published.reduce((total, episode) => total + episode.readingSeconds, 0)
+  story.updatedAt = now
+}
+
+export async function listEpisodes(storyId: string, { includeDrafts = false } = {}): Promise<Episode[]> {
+  return readDb((db) =>
+    db.episodes
+      .filter((episode) => episode.storyId === storyId && (includeDrafts || episode.status === "published"))
+      .sort(byNumber),
+  )
+}
+
+export async function getEpisode(storyId: string, number: number): Promise<Episode | null> {
+  return readDb(
+    (db) => db.episodes.find((episode) => episode.storyId === storyId && episode.number === number) ?? null,
+  )
+}
+
+export async function createEpisode(storyId: string, input: EpisodeInput): Promise<Episode> {
+  const { number, ...data } = episodeInputSchema.parse(input)
+  checkInlineImages(data.storyContent)
+  return writeDb((db) => {
+    const siblings = db.episodes.filter((episode) => episode.storyId === storyId)
+    const nextNumber = number ?? Math.max(0, ...siblings.map((episode) => episode.number)) + 1
+    if (siblings.some((episode) => episode.number === nextNumber)) {
+      throw new EpisodeNumberTakenError(nextNumber)
+    }
+    const now = new Date().toISOString()
+    const episode: Episode = {
+      ...data,
+      ...measure(data),
+      id: crypto.randomUUID(),
+      storyId,
+      number: nextNumber,
+      publishDate: data.status === "published" ? now : null,
+      scheduledFor: data.status === "published" ? null : data.scheduledFor,
+      createdAt: now,
+      updatedAt: now,
+    }
+    db.episodes.push(episode)
+    touchStory(db, storyId, now)
+    recordRevision(db, episode, now)
+    return episode
+  })
+}
+
+export async function updateEpisode(storyId: string, number: number, patch: EpisodeUpdate): Promise<Episode | null> {
+  const data = episodeUpdateSchema.parse(patch)
+  return writeDb((db) => {
+    const current = db.episodes.find((episode) => episode.storyId === storyId && episode.number === number)
+    if (!current) return null
+    checkInlineImages(data.storyContent, current.storyContent)
+    if (
+      data.number !== undefined &&
+      data.number !== number &&
+      db.episodes.some((episode) => episode.storyId === storyId && episode.number === data.number)
+    ) {
+      throw new EpisodeNumberTakenError(data.number)
+    }
+    const now = new Date().toISOString()
+    // Publishing cancels any schedule; null clears it too
+    let scheduledFor = data.scheduledFor !== undefined ? data.scheduledFor : current.scheduledFor
+    if ((data.status ?? current.status) === "published") scheduledFor = null
+    Object.assign(current, data, {
+      publishDate: data.status === "published" ? (current.publishDate ?? now) : current.publishDate,
+      scheduledFor,
+      updatedAt: now,
+    })
+    Object.assign(current, measure(current))
+    touchStory(db, storyId, now)
+    recordRevision(db, current, now)
+    return current
+  })
+}
+
+export async function deleteEpisode(storyId: string, number: number): Promise<boolean> {
+  return writeDb((db) => {
+    const episode = db.episodes.find((candidate) => candidate.storyId === storyId && candidate.number === number)
+    if (!episode) return false
+    db.episodes = db.episodes.filter((candidate) => candidate !== episode)
+    db.revisions = db.revisions.filter((revision) => revision.episodeId !== episode.id)
+    removeComments(db, (comment) => comment.episodeId === episode.id)
+    touchStory(db, storyId, new Date().toISOString())
+    return true
+  })
+}
+
+const isDue = (episode: Episode, now: Date) =>
+  episode.status === "draft" && Boolean(episode.scheduledFor) && new Date(episode.scheduledFor!) <= now
+
+// Publishes every scheduled episode whose time has come, along with its story if that is still a draft.
+// Run by lib/scheduler; returns how many episodes were released.
+export async function publishDueEpisodes(now = new Date()): Promise<number> {
+  // Most runs find nothing due, and a read is much cheaper than a write
+  if (!(await readDb((db) => db.episodes.some((episode) => isDue(episode, now))))) return 0
+  return writeDb((db) => {
+    const timestamp = now.toISOString()
+    const due = db.episodes.filter((episode) => isDue(episode, now))
+    due.forEach((episode) => {
+      // Readers see the release time the author picked, however late the job ran
+      const releasedAt = episode.scheduledFor!
+      Object.assign(episode, { status: "published", publishDate: releasedAt, scheduledFor: null, updatedAt: timestamp })
+      const story = db.stories.find((candidate) => candidate.id === episode.storyId)
+      if (story?.status === "draft") Object.assign(story, { status: "published", publishDate: releasedAt })
+      touchStory(db, episode.storyId, timestamp)
+      recordRevision(db, episode, timestamp)
+    })
+    return due.length
+  })
+}
+
+// Scheduled episodes of the author's stories, soonest first
+export async function listScheduledReleases(authorId: string): Promise<ScheduledRelease[]> {
+  return readDb((db) =>
+    db.episodes
+      .filter((episode) => episode.status === "draft" && episode.scheduledFor)
+      .flatMap((episode) => {
+        const story = db.stories.find((candidate) => candidate.id === episode.storyId)
+        if (story?.authorId !== authorId) return []
+        return [
+          {
+            storyId: story.id,
+            storyTitle: story.title,
+            episodeNumber: episode.number,
+            episodeTitle: episode.title,
+            scheduledFor: episode.scheduledFor!,
+          },
+        ]
+      })
+      .sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor)),
+  )
+}
@@ -0,0 +1,185 @@
+import { chapterHeading, type Book, type BookChapter, type BookImage } from "@/lib/export"
+import type { Block, InlineNode } from "@/lib/rich-text"
+import { createZip, type ZipEntry } from "@/lib/zip"
+
+// EPUB 3: XHTML pages for the title page and each episode, a navigation document that doubles as the
+// table of contents, and a package file naming the author and cover.
+
+// Escapes text for XHTML, dropping the characters XML does not allow at all
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1 { text-align: center; margin: 3em 0 2em; font-size: 1.6em; }
+h2, h3 { margin: 1.5em 0 0.5em; }
+p { margin: 0; text-indent: 1.5em; }
+h1 + p, h2 + p, h3 + p, .scene-break + p, blockquote + p { text-indent: 0; }
+blockquote { margin: 1em 2em; font-style: italic; }
+blockquote p { text-indent: 0; }
+.scene-break { text-align: center; margin: 1em 0; text-indent: 0; }
+.panel { margin: 0 0 1.5em; text-align: center; }
+.panel img { max-width: 100%; }
+.panel p, .caption { text-indent: 0; text-align: left; }
+.caption { font-style: italic; margin-top: 0.5em; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page h1 { margin: 0 0 1em; }
+.cover { text-align: center; margin: 0; padding: 0; }
+.cover img { max-width: 100%; max-height: 100%; }
+`
+
+const page = (title: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+
+const inline = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) => {
+      if (node.type === "text") return escapeXml(node.text)
+      const tag = node.type === "strong" ? "strong" : "em"
+      return `<${tag}>${inline(node.children)}</${tag}>`
+    })
+    .join("")
+
+function block(block: Block): string {
+  if (block.type === "blank") return ""
+  if (block.type === "break") return `<p class="scene-break">* * *</p>`
+  if (block.type === "quote") return `<blockquote><p>${inline(block.children)}</p></blockquote>`
+  if (block.type === "heading") {
+    // h1 is the episode's own heading
+    const tag = block.level === 1 ? "h2" : "h3"
+    return `<${tag}>${inline(block.children)}</${tag}>`
+  }
+  return `<p>${inline(block.children)}</p>`
+}
+
+const paragraphs = (text: string, className?: string) =>
+  text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => `<p${className ? ` class="${className}"` : ""}>${escapeXml(line)}</p>`)
+    .join("\n")
+
+const chapterFile = (chapter: BookChapter) => `episode-${chapter.number}.xhtml`
+const panelFile = (chapter: BookChapter, index: number) => `images/episode-${chapter.number}-${index + 1}.jpg`
+
+function chapterPage(chapter: BookChapter) {
+  const heading = chapterHeading(chapter)
+  const body = chapter.panels.length
+    ? chapter.panels
+        .map((panel, index) =>
+          panel.type === "text"
+            ? `<div class="panel">\n${paragraphs(panel.text)}\n</div>`
+            : `<div class="panel"><img src="${panelFile(chapter, index)}" alt=""/>` +
+              `${panel.captions.map((caption) => `\n${paragraphs(caption, "caption")}`).join("")}</div>`,
+        )
+        .join("\n")
+    : chapter.blocks.map(block).filter(Boolean).join("\n")
+  return page(heading, `<section epub:type="chapter">\n<h1>${escapeXml(heading)}</h1>\n${body}\n</section>`)
+}
+
+// dcterms:modified takes whole seconds
+const epubDate = (date: Date) => date.toISOString().replace(/\.\d+Z$/, "Z")
+
+export function writeEpub(book: Book): Buffer {
+  const images: { href: string; image: BookImage }[] = []
+  if (book.cover) images.push({ href: "images/cover.jpg", image: book.cover })
+  for (const chapter of book.chapters) {
+    chapter.panels.forEach((panel, index) => {
+      if (panel.type === "image") images.push({ href: panelFile(chapter, index), image: panel.image })
+    })
+  }
+
+  const cover = `<div class="cover"><img src="images/cover.jpg" alt="${escapeXml(book.title)}"/></div>`
+  const pages = [
+    ...(book.cover ? [{ id: "cover", href: "cover.xhtml", body: page(book.title, cover) }] : []),
+    {
+      id: "title-page",
+      href: "title.xhtml",
+      body: page(
+        book.title,
+        `<div class="title-page">\n<h1>${escapeXml(book.title)}</h1>\n<p>by ${escapeXml(book.author)}</p>` +
+          (book.subtitle ? `\n<p>${escapeXml(book.subtitle)}</p>` : "") +
+          "\n</div>",
+      ),
+    },
+    ...book.chapters.map((chapter) => ({
+      id: `episode-${chapter.number}`,
+      href: chapterFile(chapter),
+      body: chapterPage(chapter),
+    })),
+  ]
+
+  const nav = page(
+    book.title,
+    `<nav epub:type="toc" id="toc">\n<h1>Contents</h1>\n<ol>\n` +
+      book.chapters
+        .map((chapter) => `<li><a href="${chapterFile(chapter)}">${escapeXml(chapterHeading(chapter))}</a></li>`)
+        .join("\n") +
+      `\n</ol>\n</nav>`,
+  )
+
+  const title = book.subtitle ? `${book.title}: ${book.subtitle}` : book.title
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:sunega:story:${escapeXml(book.id)}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:creator id="author">${escapeXml(book.author)}</dc:creator>
+<meta refines="#author" property="role" scheme="marc:relators">aut</meta>
+<dc:language>en</dc:language>
+<meta property="dcterms:modified">${epubDate(book.modified)}</meta>
+${book.cover ? `<meta name="cover" content="cover-image"/>\n` : ""}</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${pages.map(({ id, href }) => `<item id="${id}" href="${href}" media-type="application/xhtml+xml"/>`).join("\n")}
+${images
+  .map(({ href }, index) =>
+    href === "images/cover.jpg"
+      ? `<item id="cover-image" href="${href}" media-type="image/jpeg" properties="cover-image"/>`
+      : `<item id="image-${index}" href="${href}" media-type="image/jpeg"/>`,
+  )
+  .join("\n")}
+</manifest>
+<spine>
+${pages.map(({ id }) => `<itemref idref="${id}"/>`).join("\n")}
+</spine>
+</package>
+`
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`
+
+  const entries: ZipEntry[] = [
+    // Readers identify the file by this first, uncompressed entry
+    { name: "mimetype", data: "application/epub+zip", store: true },
+    { name: "META-INF/container.xml", data: container },
+    { name: "OEBPS/content.opf", data: opf },
+    { name: "OEBPS/nav.xhtml", data: nav },
+    { name: "OEBPS/style.css", data: STYLESHEET },
+    ...pages.map(({ href, body }) => ({ name: `OEBPS/${href}`, data: body })),
+    // JPEG is compressed already
+    ...images.map(({ href, image }) => ({ name: `OEBPS/${href}`, data: image.jpeg, store: true })),
+  ]
+  return createZip(entries, book.modified)
+}
@@ -0,0 +1,158 @@
+import { z } from "zod"
+import { NextResponse } from "next/server"
+import sharp from "sharp"
+import { isImageId, parseImageUrl, slugify, type Episode, type Story } from "@/lib/domain"
+import { writeEpub } from "@/lib/epub"
+import { readImageFile } from "@/lib/media"
+import { writePdf } from "@/lib/pdf"
+import { parseStoryText, type Block } from "@/lib/rich-text"
+
+// Stories as files to read offline. Both formats are built here from the same book, with nothing fetched
+// from other services: images come from the media store and are re-encoded as JPEG, which every e-reader
+// and PDF viewer can show.
+
+export const exportFormatSchema = z.enum(["epub", "pdf"])
+export type ExportFormat = z.infer<typeof exportFormatSchema>
+
+// Longest side of embedded images; enough for a tablet screen or a printed A5 page
+const IMAGE_SIZE = 1600
+// The whole book is built in memory before it is sent, so exports are capped by images and by their size
+const MAX_EXPORT_IMAGES = 500
+const MAX_EXPORT_IMAGE_BYTES = 150 * 1024 * 1024
+const TOO_LARGE = "This story is too large to download in one file. Download it one episode at a time."
+
+export class ExportError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "ExportError"
+  }
+}
+
+// Turns an ExportError into its JSON response; anything else is rethrown
+export function exportErrorResponse(error: unknown): NextResponse {
+  if (error instanceof ExportError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  throw error
+}
+
+export interface BookImage {
+  jpeg: Buffer
+  width: number
+  height: number
+}
+
+// One panel of an image story. Overlay text cannot be laid over the picture in every reader, so it follows
+// the image as captions.
+export type BookPanel = { type: "text"; text: string } | { type: "image"; image: BookImage; captions: string[] }
+
+export interface BookChapter {
+  number: number
+  title: string
+  // Text episodes have blocks, image stories panels
+  blocks: Block[]
+  panels: BookPanel[]
+}
+
+export interface Book {
+  id: string
+  title: string
+  author: string
+  // Names the episode when only one is exported
+  subtitle: string | null
+  modified: Date
+  cover: BookImage | null
+  chapters: BookChapter[]
+}
+
+export const chapterHeading = ({ number, title }: Pick<BookChapter, "number" | "title">) =>
+  title ? `Episode ${number}: ${title}` : `Episode ${number}`
+
+// Uploaded images by URL or panel id, and panels from before uploads by their data URL. Anything else, such
+// as the sample covers hosted elsewhere, is left out, as is an image that can no longer be read.
+async function loadImage(source: string): Promise<BookImage | null> {
+  let body: Buffer | null = null
+  const dataUrl = /^data:image\/[\w+.-]+;base64,(.*)$/.exec(source)
+  if (dataUrl) {
+    body = Buffer.from(dataUrl[1], "base64")
+  } else if (isImageId(source) || parseImageUrl(source)) {
+    // A panel's image id, or a cover's "/media/<id>/original.<ext>"
+    const id = isImageId(source) ? source : source.split("/")[2]
+    body = (await readImageFile(id, "original"))?.body ?? null
+  }
+  if (!body) return null
+  try {
+    const { data, info } = await sharp(body)
+      .resize(IMAGE_SIZE, IMAGE_SIZE, { fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .toColourspace("srgb")
+      .jpeg({ quality: 85 })
+      .toBuffer({ resolveWithObject: true })
+    return { jpeg: data, width: info.width, height: info.height }
+  } catch {
+    return null
+  }
+}
+
+async function toChapter({ number, title, content, storyContent }: Episode): Promise<BookChapter> {
+  if (storyContent.length === 0) return { number, title, blocks: parseStoryText(content), panels: [] }
+  const panels = await Promise.all(
+    [...storyContent]
+      .sort((a, b) => a.order - b.order)
+      .map(async (item): Promise<BookPanel | null> => {
+        if (item.type === "text") return { type: "text", text: item.content }
+        const image = await loadImage(item.content)
+        const captions = (item.overlays ?? []).map((overlay) => overlay.text.trim()).filter(Boolean)
+        return image && { type: "image", image, captions }
+      }),
+  )
+  return { number, title, blocks: [], panels: panels.filter((panel): panel is BookPanel => panel !== null) }
+}
+
+// Builds the story, or the one episode asked for, as an EPUB or PDF file. The caller decides which
+// episodes the viewer may read.
+export async function exportStory(
+  story: Story,
+  episodes: Episode[],
+  format: ExportFormat,
+  episodeNumber?: number,
+): Promise<{ body: Buffer; contentType: string; fileName: string }> {
+  const included = episodeNumber === undefined ? episodes : episodes.filter(({ number }) => number === episodeNumber)
+  if (included.length === 0) {
+    throw new ExportError(episodeNumber === undefined ? "This story has no episodes yet" : "Episode not found", 404)
+  }
+  const imageCount = included.reduce(
+    (total, { storyContent }) => total + storyContent.filter((item) => item.type === "image").length,
+    0,
+  )
+  if (imageCount > MAX_EXPORT_IMAGES) throw new ExportError(TOO_LARGE, 413)
+  // Episodes are converted one after another, so only one episode's images are being decoded at a time.
+  // Every chapter stays in memory until the file is written.
+  const chapters: BookChapter[] = []
+  let imageBytes = 0
+  for (const episode of included) {
+    const chapter = await toChapter(episode)
+    chapter.panels.forEach((panel) => {
+      if (panel.type === "image") imageBytes += panel.image.jpeg.length
+    })
+    if (imageBytes > MAX_EXPORT_IMAGE_BYTES) throw new ExportError(TOO_LARGE, 413)
+    chapters.push(chapter)
+  }
+  const book: Book = {
+    id: story.id,
+    title: story.title,
+    author: story.author,
+    subtitle: episodeNumber === undefined ? null : chapterHeading(chapters[0]),
+    modified: new Date(Math.max(...included.map((episode) => Date.parse(episode.updatedAt)))),
+    cover: story.imageUrl ? await loadImage(story.imageUrl) : null,
+    chapters,
+  }
+
+  const name = (slugify(story.title) || "story") + (episodeNumber === undefined ? "" : `-episode-${episodeNumber}`)
+  return format === "epub"
+    ? { body: writeEpub(book), contentType: "application/epub+zip", fileName: `${name}.epub` }
+    : { body: writePdf(book), contentType: "application/pdf", fileName: `${name}.pdf` }
+}
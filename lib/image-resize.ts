@@ -0,0 +1,31 @@
+import { IMAGE_TYPES } from "@/lib/domain"
+
+// Browser-only: shrinks a picked image before it is uploaded, so phone photos do not cost readers (or the
+// upload limit) tens of megabytes. The server still resizes and re-encodes whatever arrives.
+
+// Matches the largest variant lib/media stores
+const MAX_SIZE = 2400
+const QUALITY = 0.85
+
+const toBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, QUALITY))
+
+// A WebP copy no larger than MAX_SIZE on either side. The file itself is returned when the browser cannot
+// decode it (the server will say why), or when it is already small and in a format the server takes.
+export async function downscaleImage(file: File): Promise<File> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" }).catch(() => null)
+  if (!bitmap) return file
+  const scale = Math.min(1, MAX_SIZE / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  // Browsers that cannot encode WebP hand back a PNG instead; JPEG is smaller for anything without transparency
+  let blob = await toBlob(canvas, "image/webp")
+  if (blob?.type !== "image/webp") blob = await toBlob(canvas, file.type === "image/png" ? "image/png" : "image/jpeg")
+  if (!blob || (scale === 1 && blob.size >= file.size && file.type in IMAGE_TYPES)) return file
+  const extension = blob.type.split("/")[1].replace("jpeg", "jpg")
+  return new File([blob], `${file.name.replace(/\.[^.]*$/, "")}.${extension}`, { type: blob.type })
+}
@@ -0,0 +1,170 @@
+import { z } from "zod"
+import { NextResponse } from "next/server"
+import { readDb, writeDb, type Database } from "@/lib/db"
+import { shelfSchema, type Shelf, type ShelfKind, type Story } from "@/lib/domain"
+
+export const shelfInputSchema = shelfSchema.pick({ name: true })
+
+export const shelfUpdateSchema = z.object({
+  name: shelfInputSchema.shape.name.optional(),
+  // The shelf's stories in their new order
+  storyIds: z.array(z.string()).optional(),
+  // New index among the user's custom shelves
+  position: z.number().int().nonnegative().optional(),
+})
+
+export type ShelfInput = z.infer<typeof shelfInputSchema>
+export type ShelfUpdate = z.infer<typeof shelfUpdateSchema>
+
+// A shelf with its published stories, in shelf order
+export interface LibraryShelf extends Shelf {
+  stories: Story[]
+}
+
+export class LibraryError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "LibraryError"
+  }
+}
+
+// Turns a LibraryError into its JSON response; anything else is rethrown
+export function libraryErrorResponse(error: unknown): NextResponse {
+  if (error instanceof LibraryError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  throw error
+}
+
+const systemShelves: { kind: Exclude<ShelfKind, "custom">; name: string }[] = [
+  { kind: "bookmarks", name: "Bookmarked" },
+  { kind: "completed", name: "Completed" },
+]
+
+// Built-in shelves use their kind as id; shelf ids only need to be unique per user
+const newShelf = (userId: string, kind: ShelfKind, name: string): Shelf => ({
+  id: kind,
+  userId,
+  kind,
+  name,
+  storyIds: [],
+  createdAt: new Date().toISOString(),
+})
+
+// Built-in shelves are stored the first time a user's library is written to
+function ensureSystemShelves(db: Database, userId: string) {
+  systemShelves.forEach(({ kind, name }) => {
+    if (!db.shelves.some((shelf) => shelf.userId === userId && shelf.kind === kind)) {
+      db.shelves.push(newShelf(userId, kind, name))
+    }
+  })
+}
+
+function findShelf(db: Database, userId: string, shelfId: string): Shelf {
+  ensureSystemShelves(db, userId)
+  const shelf = db.shelves.find((candidate) => candidate.id === shelfId && candidate.userId === userId)
+  if (!shelf) throw new LibraryError("Shelf not found", 404)
+  return shelf
+}
+
+// Bookmarked and Completed first, then custom shelves in the user's order
+export async function listShelves(userId: string): Promise<LibraryShelf[]> {
+  return readDb((db) => {
+    const shelves = db.shelves.filter((shelf) => shelf.userId === userId)
+    const system = systemShelves.map(
+      ({ kind, name }) => shelves.find((shelf) => shelf.kind === kind) ?? newShelf(userId, kind, name),
+    )
+    return [...system, ...shelves.filter((shelf) => shelf.kind === "custom")].map((shelf) => ({
+      ...shelf,
+      stories: shelf.storyIds.flatMap((storyId) => {
+        const story = db.stories.find((candidate) => candidate.id === storyId)
+        return story && story.status === "published" ? [story] : []
+      }),
+    }))
+  })
+}
+
+export async function createShelf(userId: string, input: ShelfInput): Promise<Shelf> {
+  const { name } = shelfInputSchema.parse(input)
+  return writeDb((db) => {
+    ensureSystemShelves(db, userId)
+    if (db.shelves.some((shelf) => shelf.userId === userId && shelf.name.toLowerCase() === name.toLowerCase())) {
+      throw new LibraryError(`You already have a shelf called "${name}"`, 409)
+    }
+    const shelf: Shelf = { ...newShelf(userId, "custom", name), id: crypto.randomUUID() }
+    db.shelves.push(shelf)
+    return shelf
+  })
+}
+
+export async function updateShelf(userId: string, shelfId: string, patch: ShelfUpdate): Promise<Shelf> {
+  const { name, storyIds, position } = shelfUpdateSchema.parse(patch)
+  return writeDb((db) => {
+    const shelf = findShelf(db, userId, shelfId)
+    if ((name !== undefined || position !== undefined) && shelf.kind !== "custom") {
+      throw new LibraryError("Built-in shelves cannot be renamed or moved", 400)
+    }
+    if (name !== undefined) {
+      const taken = db.shelves.some(
+        (other) => other.userId === userId && other !== shelf && other.name.toLowerCase() === name.toLowerCase(),
+      )
+      if (taken) throw new LibraryError(`You already have a shelf called "${name}"`, 409)
+      shelf.name = name
+    }
+    if (storyIds !== undefined) {
+      // Each story exactly once, so a repeated id cannot push another off the shelf
+      const sameStories =
+        new Set(storyIds).size === storyIds.length &&
+        storyIds.length === shelf.storyIds.length &&
+        storyIds.every((storyId) => shelf.storyIds.includes(storyId))
+      if (!sameStories) throw new LibraryError("Reordering must keep the same stories", 400)
+      shelf.storyIds = storyIds
+    }
+    if (position !== undefined) {
+      // Custom shelves are displayed in storage order, so moving one means moving its record
+      const custom = db.shelves.filter((candidate) => candidate.userId === userId && candidate.kind === "custom")
+      const reordered = custom.filter((candidate) => candidate.id !== shelf.id)
+      reordered.splice(Math.min(position, reordered.length), 0, shelf)
+      db.shelves = [...db.shelves.filter((candidate) => !custom.includes(candidate)), ...reordered]
+    }
+    return shelf
+  })
+}
+
+export async function deleteShelf(userId: string, shelfId: string): Promise<void> {
+  await writeDb((db) => {
+    const shelf = findShelf(db, userId, shelfId)
+    if (shelf.kind !== "custom") throw new LibraryError("Built-in shelves cannot be deleted", 400)
+    db.shelves = db.shelves.filter((candidate) => candidate !== shelf)
+  })
+}
+
+export async function addToShelf(userId: string, shelfId: string, storyId: string): Promise<Shelf> {
+  return writeDb((db) => {
+    const shelf = findShelf(db, userId, shelfId)
+    if (!db.stories.some((story) => story.id === storyId && story.status === "published")) {
+      throw new LibraryError("Story not found", 404)
+    }
+    if (!shelf.storyIds.includes(storyId)) shelf.storyIds.push(storyId)
+    return shelf
+  })
+}
+
+export async function removeFromShelf(userId: string, shelfId: string, storyId: string): Promise<Shelf> {
+  return writeDb((db) => {
+    const shelf = findShelf(db, userId, shelfId)
+    shelf.storyIds = shelf.storyIds.filter((candidate) => candidate !== storyId)
+    return shelf
+  })
+}
+
+// Called inside a progress write once the reader reaches the end of the last episode
+export function markCompleted(db: Database, userId: string, storyId: string) {
+  const completed = findShelf(db, userId, "completed")
+  if (!completed.storyIds.includes(storyId)) completed.storyIds.unshift(storyId)
+  const bookmarks = findShelf(db, userId, "bookmarks")
+  bookmarks.storyIds = bookmarks.storyIds.filter((candidate) => candidate !== storyId)
+}
@@ -0,0 +1,44 @@
+import type { EditorState } from "@/lib/domain"
+
+// Browser-only copies of editor state, kept in IndexedDB while the autosave API cannot be reached.
+// Every call resolves even where IndexedDB is unavailable (private windows, old browsers); nothing is kept then.
+
+export interface LocalDraft {
+  // `${userId}:${autosave key}`, so authors sharing a browser never see each other's drafts
+  id: string
+  state: EditorState
+  updatedAt: string
+}
+
+const DB_NAME = "sunega-novel"
+const STORE = "drafts"
+
+function open(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null)
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "id" })
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => resolve(null)
+  })
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+  const db = await open()
+  if (!db) return null
+  try {
+    return await new Promise<T | null>((resolve) => {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => resolve(null)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export const localDrafts = {
+  get: (id: string) => run<LocalDraft | undefined>("readonly", (store) => store.get(id)).then((draft) => draft ?? null),
+  put: (draft: LocalDraft) => run("readwrite", (store) => store.put(draft)).then(() => undefined),
+  remove: (id: string) => run("readwrite", (store) => store.delete(id)).then(() => undefined),
+}
@@ -0,0 +1,241 @@
+import { NextResponse } from "next/server"
+import { readDocxParagraphs, type DocxParagraph, type DocxRun } from "@/lib/docx"
+import { stripMarkup } from "@/lib/rich-text"
+import { countWords } from "@/lib/text"
+
+// Manuscripts written elsewhere, turned into episodes in the lib/rich-text dialect. Chapter headings start
+// new episodes; bold, italics, block quotes and scene breaks carry over and everything else becomes text.
+
+export const MAX_MANUSCRIPT_BYTES = 10 * 1024 * 1024
+const MAX_EPISODES = 200
+
+export interface ImportedEpisode {
+  title: string
+  content: string
+  words: number
+}
+
+export interface Manuscript {
+  // The book's title from the file, or its file name
+  title: string
+  episodes: ImportedEpisode[]
+}
+
+export class ManuscriptError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "ManuscriptError"
+  }
+}
+
+// Turns a ManuscriptError into its JSON response; anything else is rethrown
+export function manuscriptErrorResponse(error: unknown): NextResponse {
+  if (error instanceof ManuscriptError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  throw error
+}
+
+type Line =
+  | { kind: "heading"; level: number; text: string }
+  | { kind: "paragraph" | "quote"; text: string }
+  | { kind: "break" }
+
+// Chapter headings in text without heading markup: "Chapter 12", "CHAPTER ONE: The Storm", "Part II - Home",
+// "Prologue". A separator is needed before a title, so "Part of me knew" stays a paragraph.
+const TITLED = String.raw`\s*[:.–—-]\s*\S.*`
+const CHAPTER_LINE = new RegExp(
+  String.raw`^(?:(?:chapter|episode|part)\s+(?:\d+(?:\s+\S.*)?|(?:[ivxlc]+|[a-z]+(?:-[a-z]+)?)(?:${TITLED}|[.:])?)` +
+    String.raw`|(?:prologue|epilogue|interlude)(?:${TITLED})?)$`,
+  "i",
+)
+// "Chapter 3: Title" is saved as "Title"; the episode number already says which chapter it is
+const NUMBERED_CHAPTER = /^(?:chapter|episode|part)\s+\S+?(?:\s*[:.–—-]\s*(\S.*))?$/i
+// A line of nothing but break marks: "* * *", "***", "---", "#", "~~~"
+const SCENE_BREAK = /^\s*(?:[*\-_#~=•·]\s*)+$/
+
+const plain = (text: string) => stripMarkup(text).trim()
+
+function episodeTitle(heading: string) {
+  const text = plain(heading)
+  const numbered = NUMBERED_CHAPTER.exec(text)
+  return numbered ? (numbered[1] ?? "") : text
+}
+
+const render = (line: Line) => {
+  if (line.kind === "break") return "* * *"
+  if (line.kind === "quote") return `> ${line.text}`
+  if (line.kind === "heading") return `### ${line.text}`
+  return line.text
+}
+
+function toManuscript(lines: Line[], fileTitle: string): Manuscript {
+  let title = fileTitle
+  const levels = lines.flatMap((line) => (line.kind === "heading" ? [line.level] : []))
+  // A heading that opens the file and is the only one at its level names the book when chapters sit below it
+  const [first] = lines
+  if (
+    first?.kind === "heading" &&
+    (first.level === 0 ||
+      (levels.filter((level) => level === first.level).length === 1 && levels.some((level) => level > first.level)))
+  ) {
+    title = plain(first.text) || title
+    lines = lines.slice(1)
+  }
+
+  const chapterLevel = Math.min(...lines.flatMap((line) => (line.kind === "heading" ? [line.level] : [])))
+  const isChapter = (line: Line) =>
+    Number.isFinite(chapterLevel)
+      ? line.kind === "heading" && line.level === chapterLevel
+      : line.kind === "paragraph" && line.text.length <= 80 && CHAPTER_LINE.test(plain(line.text))
+
+  const chapters: { title: string; lines: Line[] }[] = []
+  let current: { title: string; lines: Line[] } = { title: "", lines: [] }
+  const finish = () => {
+    // Scene breaks at either end of a chapter separate nothing
+    while (current.lines[0]?.kind === "break") current.lines.shift()
+    while (current.lines.at(-1)?.kind === "break") current.lines.pop()
+    if (current.lines.length > 0) chapters.push(current)
+  }
+  for (const line of lines) {
+    if (!("text" in line) || !isChapter(line)) {
+      current.lines.push(line)
+      continue
+    }
+    finish()
+    current = { title: episodeTitle(line.text), lines: [] }
+  }
+  finish()
+
+  if (chapters.length === 0) throw new ManuscriptError("No text found in this file", 422)
+  if (chapters.length > MAX_EPISODES) {
+    throw new ManuscriptError(`Found ${chapters.length} chapters; import at most ${MAX_EPISODES} at a time`, 422)
+  }
+  return {
+    title,
+    episodes: chapters.map((chapter) => {
+      const content = chapter.lines.map(render).join("\n\n")
+      return { title: chapter.title, content, words: countWords(stripMarkup(content)) }
+    }),
+  }
+}
+
+// Markdown's inline extras reduced to text the dialect understands
+const markdownInline = (text: string) =>
+  text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/(\*\*\*|___)(\S(?:.*?\S)?)\1/g, "**_$2_**")
+    .replace(/__(\S(?:.*?\S)?)__/g, "**$1**")
+
+// Paragraphs are separated by blank lines, with any line breaks inside one joined up, unless the file has
+// no blank lines at all; then every line is a paragraph, as in text saved from a word processor.
+function textLines(text: string, markdown: boolean): Line[] {
+  const joinWrapped = /\n[ \t]*\n/.test(text)
+  const lines: Line[] = []
+  const blocks = joinWrapped ? text.split(/\n[ \t]*\n/) : text.split("\n")
+  for (const block of blocks) {
+    let paragraph: string[] = []
+    const flush = () => {
+      if (paragraph.length > 0) lines.push({ kind: "paragraph", text: paragraph.join(" ") })
+      paragraph = []
+    }
+    const rows = block.split("\n").map((row) => row.trim())
+    rows.forEach((row) => {
+      if (!row) return
+      const heading = markdown ? /^(#{1,6})\s+(.*?)\s*#*$/.exec(row) : null
+      // Setext headings underline their text with === or ---
+      const underline = markdown && paragraph.length > 0 ? /^(=+|-+)$/.exec(row) : null
+      if (underline) {
+        const text = paragraph.join(" ")
+        paragraph = []
+        lines.push({ kind: "heading", level: underline[1][0] === "=" ? 1 : 2, text })
+      } else if (heading) {
+        flush()
+        lines.push({ kind: "heading", level: heading[1].length, text: markdownInline(heading[2]) })
+      } else if (SCENE_BREAK.test(row)) {
+        flush()
+        lines.push({ kind: "break" })
+      } else if (row.startsWith(">")) {
+        flush()
+        const quote = row.replace(/^>\s?/, "")
+        lines.push({ kind: "quote", text: markdown ? markdownInline(quote) : quote })
+      } else {
+        paragraph.push(markdown ? markdownInline(row) : row)
+      }
+    })
+    flush()
+  }
+  return lines
+}
+
+// Literal characters that would otherwise read as markup
+const escapeText = (text: string) => text.replace(/[\\*_]/g, "\\$&")
+
+const isFormatted = (run: DocxRun | undefined) => Boolean(run && (run.bold || run.italic))
+
+// Italics next to other formatting use "_", since "*a***b**" would read as bold
+function wrapRun({ text, bold, italic }: DocxRun, nextToMarkup: boolean) {
+  const escaped = escapeText(text)
+  if (!escaped.trim() || (!bold && !italic)) return escaped
+  // Markers must hug the words, so surrounding spaces stay outside them
+  const [, before, words, after] = /^(\s*)([\s\S]*?)(\s*)$/.exec(escaped)!
+  const italicMarker = nextToMarkup ? "_" : "*"
+  const marked = bold && italic ? `**_${words}_**` : bold ? `**${words}**` : `${italicMarker}${words}${italicMarker}`
+  return before + marked + after
+}
+
+function docxLines(paragraphs: DocxParagraph[]): Line[] {
+  return paragraphs.flatMap((paragraph): Line[] => {
+    const raw = paragraph.runs.map((run) => run.text).join("")
+    if (!raw.trim()) return []
+    if (paragraph.heading === null && SCENE_BREAK.test(raw)) return [{ kind: "break" }]
+    // Runs with the same formatting are merged first, so a word split across runs gets one pair of markers
+    const runs = paragraph.runs.reduce<DocxRun[]>((merged, run) => {
+      const last = merged.at(-1)
+      if (last && last.bold === run.bold && last.italic === run.italic) last.text += run.text
+      else merged.push({ ...run })
+      return merged
+    }, [])
+    const text = runs
+      .map((run, i) => wrapRun(run, isFormatted(runs[i - 1]) || isFormatted(runs[i + 1])))
+      .join("")
+      .trim()
+      .replace(/^[#>]/, "\\$&")
+    if (paragraph.heading !== null) return [{ kind: "heading", level: paragraph.heading, text }]
+    return [{ kind: paragraph.quote ? "quote" : "paragraph", text }]
+  })
+}
+
+const EXTENSIONS = ["md", "markdown", "txt", "docx"]
+
+// Reads an uploaded .md, .txt or .docx file into episodes for the author to review; nothing is saved
+export async function parseManuscript(file: File): Promise<Manuscript> {
+  const [, name, extension = ""] = /^(.*?)(?:\.([^.]+))?$/.exec(file.name)!
+  if (!EXTENSIONS.includes(extension.toLowerCase())) {
+    throw new ManuscriptError("Manuscripts must be .md, .txt or .docx files", 415)
+  }
+  if (file.size > MAX_MANUSCRIPT_BYTES) throw new ManuscriptError("Manuscripts must be 10 MB or smaller", 413)
+  const buffer = Buffer.from(await file.arrayBuffer())
+  const fileTitle = name.replace(/[_-]+/g, " ").trim()
+
+  if (extension.toLowerCase() === "docx") {
+    let paragraphs
+    try {
+      paragraphs = readDocxParagraphs(buffer)
+    } catch {
+      throw new ManuscriptError("This file could not be read as a Word document", 400)
+    }
+    return toManuscript(docxLines(paragraphs), fileTitle)
+  }
+
+  const text = buffer
+    .toString("utf8")
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+  return toManuscript(textLines(text, extension.toLowerCase() !== "txt"), fileTitle)
+}
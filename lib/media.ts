@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server"
+import sharp from "sharp"
+import { readDb, writeDb } from "@/lib/db"
+import { getStorage } from "@/lib/storage"
+import {
+  IMAGE_TYPES,
+  imageUrls,
+  isImageId,
+  parseImageUrl,
+  type ImagePurpose,
+  type ImageType,
+  type ImageUrls,
+  type StoryContentItem,
+  type UploadedImage,
+} from "@/lib/domain"
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+
+// Longest side of each stored variant; smaller uploads are never enlarged
+const ORIGINAL_SIZE = 2400
+const LARGE_SIZE = 1600
+const THUMB_SIZE = 480
+
+export type ImageUpload = UploadedImage & ImageUrls
+
+export class MediaError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "MediaError"
+  }
+}
+
+// Turns a MediaError into its JSON response; anything else is rethrown
+export function mediaErrorResponse(error: unknown): NextResponse {
+  if (error instanceof MediaError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  throw error
+}
+
+const isImageType = (type: string): type is ImageType => type in IMAGE_TYPES
+
+const fileKey = (id: string, name: string) => `images/${id}/${name}`
+
+// File names of an image's variants, matching the last segment of its URLs
+const variantNames = ({ type }: Pick<UploadedImage, "type">) => [
+  `original.${IMAGE_TYPES[type]}`,
+  "large.webp",
+  "thumb.webp",
+]
+
+const CONTENT_TYPES: Record<string, string> = { jpg: "image/jpeg", png: "image/png", webp: "image/webp" }
+
+// Stores an upload as its original, a WebP copy and a WebP thumbnail, all turned upright and resized.
+// sharp drops EXIF and other metadata on output, so camera locations never reach readers.
+export async function saveImage(ownerId: string, purpose: ImagePurpose, file: File): Promise<ImageUpload> {
+  const type = file.type
+  if (!isImageType(type)) throw new MediaError("Images must be JPEG, PNG or WebP", 415)
+  if (file.size > MAX_IMAGE_BYTES) throw new MediaError("Images must be 5 MB or smaller", 413)
+
+  const source = sharp(Buffer.from(await file.arrayBuffer()), { failOn: "error" }).rotate()
+  const resized = (size: number) => source.clone().resize(size, size, { fit: "inside", withoutEnlargement: true })
+  // In the order of variantNames
+  const variants = await Promise.all([
+    resized(ORIGINAL_SIZE).toFormat(IMAGE_TYPES[type]).toBuffer({ resolveWithObject: true }),
+    resized(LARGE_SIZE).webp({ quality: 82 }).toBuffer({ resolveWithObject: true }),
+    resized(THUMB_SIZE).webp({ quality: 75 }).toBuffer({ resolveWithObject: true }),
+  ]).catch(() => {
+    throw new MediaError("The file is not a readable image", 400)
+  })
+
+  const [original] = variants
+  const image: UploadedImage = {
+    id: crypto.randomUUID(),
+    ownerId,
+    purpose,
+    type,
+    width: original.info.width,
+    height: original.info.height,
+    createdAt: new Date().toISOString(),
+  }
+  const storage = getStorage()
+  await Promise.all(
+    variantNames(image).map((name, index) => storage.put(fileKey(image.id, name), variants[index].data)),
+  )
+  await writeDb((db) => {
+    db.images.push(image)
+  })
+  return { ...image, ...imageUrls(image) }
+}
+
+// One stored file of an image, e.g. "thumb.webp", or null when there is no such image or variant.
+// "original" stands for the original in whatever format it was stored.
+export async function readImageFile(id: string, name: string): Promise<{ body: Buffer; contentType: string } | null> {
+  const image = await readDb((db) => db.images.find((candidate) => candidate.id === id) ?? null)
+  if (!image) return null
+  if (name === "original") name = variantNames(image)[0]
+  if (!variantNames(image).includes(name)) return null
+  const body = await getStorage().get(fileKey(id, name))
+  return body && { body, contentType: CONTENT_TYPES[name.split(".").pop()!] }
+}
+
+// Ids of the uploaded images behind a cover URL and a set of panels
+export function referencedImageIds(imageUrl: string, panels: StoryContentItem[]): string[] {
+  const ids = panels.filter((panel) => panel.type === "image" && isImageId(panel.content)).map(({ content }) => content)
+  // "/media/<id>/original.<ext>"
+  return parseImageUrl(imageUrl) ? [imageUrl.split("/")[2], ...ids] : ids
+}
+
+// Deletes every stored file of these images. Their records must already be gone from the database.
+export async function removeImageFiles(ids: string[]): Promise<void> {
+  const storage = getStorage()
+  await Promise.all(ids.map((id) => storage.removeAll(`images/${id}`)))
+}
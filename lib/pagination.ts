@@ -0,0 +1,118 @@
+import { z } from "zod"
+import { NextResponse } from "next/server"
+
+export const MAX_PAGE_SIZE = 50
+
+// Query parameters shared by every paginated listing. Infinite lists follow `cursor`; numbered pages use `page`.
+// Without a limit the whole list is returned.
+export const pageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  cursor: z.string().min(1).optional(),
+  page: z.coerce.number().int().positive().optional(),
+})
+
+export type PageQuery = z.infer<typeof pageQuerySchema>
+
+export interface Page<T> {
+  items: T[]
+  // Size of the whole filtered list, for page counts
+  total: number
+  // Pass back as `cursor` to fetch the next items; null on the last page
+  nextCursor: string | null
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid or expired cursor")
+    this.name = "InvalidCursorError"
+  }
+}
+
+// Cursors name the last item already seen, so items added ahead of it do not shift the next page. In a ranked
+// list they also carry its score and the moment the list was ranked: the next page is ranked at that same
+// moment and starts after that score, however the scores or the last item have changed since.
+const cursorSchema = z.object({
+  key: z.string(),
+  score: z.number().optional(),
+  rankedAt: z.number().optional(),
+})
+
+type Cursor = z.infer<typeof cursorSchema>
+
+const encodeCursor = (cursor: Cursor) => Buffer.from(JSON.stringify(cursor)).toString("base64url")
+
+function decodeCursor(cursor: string): Cursor {
+  let value: unknown
+  try {
+    value = JSON.parse(Buffer.from(cursor, "base64url").toString())
+  } catch {
+    throw new InvalidCursorError()
+  }
+  const parsed = cursorSchema.safeParse(value)
+  if (!parsed.success) throw new InvalidCursorError()
+  return parsed.data
+}
+
+// A list ranked highest score first, ties broken by key, highest first
+export interface Ranking<T> {
+  scoreOf: (item: T) => number
+  rankedAt: number
+}
+
+// When the list the cursor came from was ranked, so the next page can be ranked at the same moment
+export const cursorRankedAt = ({ cursor }: PageQuery) => (cursor ? decodeCursor(cursor).rankedAt : undefined)
+
+export function paginate<T>(
+  items: T[],
+  { limit, cursor, page }: PageQuery,
+  keyOf: (item: T) => string,
+  ranking?: Ranking<T>,
+): Page<T> {
+  let start = 0
+  if (cursor) {
+    const { key, score } = decodeCursor(cursor)
+    if (ranking && score !== undefined) {
+      const index = items.findIndex((item) => {
+        const itemScore = ranking.scoreOf(item)
+        return itemScore < score || (itemScore === score && keyOf(item) < key)
+      })
+      start = index === -1 ? items.length : index
+    } else {
+      const index = items.findIndex((item) => keyOf(item) === key)
+      if (index === -1) throw new InvalidCursorError()
+      start = index + 1
+    }
+  } else if (page && limit) {
+    start = (page - 1) * limit
+  }
+  const end = limit ? start + limit : items.length
+  const slice = items.slice(start, end)
+  const last = slice[slice.length - 1]
+  return {
+    items: slice,
+    total: items.length,
+    nextCursor:
+      end < items.length && last !== undefined
+        ? encodeCursor(
+            ranking
+              ? { key: keyOf(last), score: ranking.scoreOf(last), rankedAt: ranking.rankedAt }
+              : { key: keyOf(last) },
+          )
+        : null,
+  }
+}
+
+// The raw paging parameters of a request URL, ready for pageQuerySchema
+export const pageParams = (searchParams: URLSearchParams) => ({
+  limit: searchParams.get("limit") ?? undefined,
+  cursor: searchParams.get("cursor") ?? undefined,
+  page: searchParams.get("page") ?? undefined,
+})
+
+// Turns an InvalidCursorError into its JSON response; anything else is rethrown
+export function paginationErrorResponse(error: unknown): NextResponse {
+  if (error instanceof InvalidCursorError) {
+    return NextResponse.json({ error: error.message }, { status: 400 })
+  }
+  throw error
+}
@@ -0,0 +1,36 @@
+import type { StoryContentItem } from "@/lib/domain"
+
+// Pure edits to an image story's panels. Every result is renumbered, so `order` always matches the index.
+
+const renumber = (panels: StoryContentItem[]) => panels.map((panel, index) => ({ ...panel, order: index }))
+
+export function insertPanels(panels: StoryContentItem[], index: number, added: StoryContentItem[]) {
+  return renumber([...panels.slice(0, index), ...added, ...panels.slice(index)])
+}
+
+// Moves the panel at `from` so that it ends up at index `to`
+export function movePanel(panels: StoryContentItem[], from: number, to: number) {
+  const next = [...panels]
+  const [panel] = next.splice(from, 1)
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, panel)
+  return renumber(next)
+}
+
+// Inserts a copy right after the original. Image copies share the uploaded image.
+export function duplicatePanel(panels: StoryContentItem[], id: string, copyId: string) {
+  const index = panels.findIndex((panel) => panel.id === id)
+  if (index === -1) return panels
+  return insertPanels(panels, index + 1, [{ ...panels[index], id: copyId }])
+}
+
+export function removePanels(panels: StoryContentItem[], ids: string[]) {
+  return renumber(panels.filter((panel) => !ids.includes(panel.id)))
+}
+
+export function updatePanel(panels: StoryContentItem[], id: string, patch: Partial<StoryContentItem>) {
+  return panels.map((panel) => (panel.id === id ? { ...panel, ...patch } : panel))
+}
+
+// Whether two lists hold the same panels in the same order, however they were numbered
+export const samePanels = (a: StoryContentItem[], b: StoryContentItem[]) =>
+  JSON.stringify(renumber(a)) === JSON.stringify(renumber(b))
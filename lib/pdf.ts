@@ -0,0 +1,521 @@
+import { deflateSync } from "zlib"
+import { chapterHeading, type Book, type BookImage } from "@/lib/export"
+import type { Block, InlineNode } from "@/lib/rich-text"
+
+// A print-style PDF 1.4 written by hand: A5 pages set in the standard Times faces every viewer has, so no
+// fonts are embedded. Those faces only cover Windows-1252, so other characters print as their unaccented
+// letter or "?"; the title and author in the document's properties are kept in full.
+
+// A5, in points
+const PAGE_WIDTH = 420
+const PAGE_HEIGHT = 595
+const MARGIN = 54
+const TOP = PAGE_HEIGHT - 60
+const BOTTOM = 66
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN
+const BODY_SIZE = 11
+const LEADING = 15.5
+const INDENT = 14
+
+type Style = "roman" | "bold" | "italic" | "boldItalic"
+
+const FONTS: Record<Style, { resource: string; name: string }> = {
+  roman: { resource: "F1", name: "Times-Roman" },
+  bold: { resource: "F2", name: "Times-Bold" },
+  italic: { resource: "F3", name: "Times-Italic" },
+  boldItalic: { resource: "F4", name: "Times-BoldItalic" },
+}
+
+// Advance widths in thousandths of the font size, from Adobe's metrics for the Times faces: printable ASCII
+// in Times-Roman, then A-Z and a-z in each of the others, which share Times-Roman's punctuation here
+const ROMAN_ASCII = [
+  250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278,
+  ...Array<number>(10).fill(500),
+  278, 278, 564, 564, 564, 444, 921,
+  722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722, 556, 722, 667, 556, 611, 722, 722, 944,
+  722, 722, 611,
+  333, 278, 333, 469, 500, 333,
+  444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722,
+  500, 500, 444,
+  480, 200, 480, 541,
+]
+const LETTERS: Record<Exclude<Style, "roman">, number[]> = {
+  bold: [
+    722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778, 611, 778, 722, 556, 667, 722, 722, 1000,
+    722, 722, 667,
+    500, 556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500, 556, 556, 444, 389, 333, 556, 500, 722,
+    500, 500, 444,
+  ],
+  italic: [
+    611, 611, 667, 722, 611, 611, 722, 722, 333, 444, 667, 556, 833, 667, 722, 611, 722, 611, 500, 556, 722, 611, 833,
+    611, 556, 556,
+    500, 500, 444, 500, 444, 278, 500, 500, 278, 278, 444, 278, 722, 500, 500, 500, 500, 389, 389, 278, 500, 444, 667,
+    444, 444, 389,
+  ],
+  boldItalic: [
+    667, 667, 667, 722, 667, 667, 722, 778, 389, 500, 667, 611, 889, 722, 722, 611, 722, 667, 556, 611, 722, 667, 889,
+    667, 611, 611,
+    500, 500, 444, 500, 444, 333, 500, 556, 278, 278, 500, 278, 778, 556, 500, 500, 500, 389, 389, 278, 556, 444, 667,
+    500, 444, 389,
+  ],
+}
+
+// Windows-1252 characters outside Latin-1, with their codes and widths
+const WIN_ANSI: Record<string, [code: number, width: number]> = {
+  "€": [0x80, 500],
+  "‚": [0x82, 333],
+  "„": [0x84, 444],
+  "…": [0x85, 1000],
+  "†": [0x86, 500],
+  "‡": [0x87, 500],
+  "‰": [0x89, 1000],
+  "‘": [0x91, 333],
+  "’": [0x92, 333],
+  "“": [0x93, 444],
+  "”": [0x94, 444],
+  "•": [0x95, 350],
+  "–": [0x96, 500],
+  "—": [0x97, 1000],
+  "™": [0x99, 980],
+}
+
+function widthTable(style: Style) {
+  const widths = Array<number>(256).fill(500)
+  ROMAN_ASCII.forEach((width, i) => (widths[32 + i] = width))
+  if (style !== "roman") LETTERS[style].forEach((width, i) => (widths[i < 26 ? 65 + i : 97 + i - 26] = width))
+  for (const [code, width] of Object.values(WIN_ANSI)) widths[code] = width
+  widths[0xa0] = widths[32]
+  // Accented letters are as wide as the letter under the accent
+  for (let code = 0xc0; code <= 0xff; code++) {
+    const base = String.fromCharCode(code).normalize("NFD").charCodeAt(0)
+    if (base < 0x80) widths[code] = widths[base]
+  }
+  return widths
+}
+
+const WIDTHS: Record<Style, number[]> = {
+  roman: widthTable("roman"),
+  bold: widthTable("bold"),
+  italic: widthTable("italic"),
+  boldItalic: widthTable("boldItalic"),
+}
+
+// Text as Windows-1252, one character per byte
+function encode(text: string) {
+  let encoded = ""
+  for (const char of text) {
+    const code = char.codePointAt(0)!
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) encoded += char
+    else if (char in WIN_ANSI) encoded += String.fromCharCode(WIN_ANSI[char][0])
+    else if (/\s/.test(char)) encoded += " "
+    else {
+      // "ā" prints as "a"
+      const base = char.normalize("NFD")[0]
+      encoded += base >= " " && base < "\x7f" ? base : "?"
+    }
+  }
+  return encoded
+}
+
+const textWidth = (encoded: string, style: Style, size: number) =>
+  (Array.from(encoded).reduce((total, char) => total + WIDTHS[style][char.charCodeAt(0)], 0) * size) / 1000
+
+const pdfString = (encoded: string) => `(${encoded.replace(/[\\()]/g, "\\$&")})`
+
+// Document properties are UTF-16, so they keep every character
+const textString = (text: string) =>
+  `<FEFF${Array.from({ length: text.length }, (_, i) => text.charCodeAt(i).toString(16).padStart(4, "0")).join("")}>`
+
+const num = (value: number) => String(Math.round(value * 100) / 100)
+
+interface Run {
+  text: string
+  style: Style
+}
+
+interface Word {
+  runs: Run[]
+  width: number
+}
+
+interface Line {
+  words: Word[]
+  // Including one space between words
+  width: number
+}
+
+const styleOf = (bold: boolean, italic: boolean): Style =>
+  bold && italic ? "boldItalic" : bold ? "bold" : italic ? "italic" : "roman"
+
+const inlineRuns = (nodes: InlineNode[], bold = false, italic = false): Run[] =>
+  nodes.flatMap((node) =>
+    node.type === "text"
+      ? [{ text: encode(node.text), style: styleOf(bold, italic) }]
+      : inlineRuns(node.children, bold || node.type === "strong", italic || node.type === "em"),
+  )
+
+const plain = (text: string, style: Style = "roman"): Run[] => [{ text: encode(text), style }]
+
+// Splits runs at spaces; a word may change style part way, as in "*Stop*!"
+function toWords(runs: Run[], size: number): Word[] {
+  const words: Word[] = []
+  let current: Run[] = []
+  const finish = () => {
+    if (current.length === 0) return
+    const width = current.reduce((total, run) => total + textWidth(run.text, run.style, size), 0)
+    words.push({ runs: current, width })
+    current = []
+  }
+  for (const run of runs) {
+    run.text.split(" ").forEach((piece, i) => {
+      if (i > 0) finish()
+      if (piece) current.push({ text: piece, style: run.style })
+    })
+  }
+  finish()
+  return words
+}
+
+// Breaks a word too long for any line, such as a URL, wherever it reaches the edge
+function splitWord(word: Word, width: number, size: number): Word[] {
+  const pieces: Word[] = []
+  let piece: Word = { runs: [], width: 0 }
+  for (const run of word.runs) {
+    for (const char of run.text) {
+      const charWidth = textWidth(char, run.style, size)
+      if (piece.width + charWidth > width && piece.width > 0) {
+        pieces.push(piece)
+        piece = { runs: [], width: 0 }
+      }
+      const last = piece.runs.at(-1)
+      if (last?.style === run.style) last.text += char
+      else piece.runs.push({ text: char, style: run.style })
+      piece.width += charWidth
+    }
+  }
+  if (piece.runs.length > 0) pieces.push(piece)
+  return pieces
+}
+
+function wrap(words: Word[], width: number, size: number, indent: number): Line[] {
+  const space = textWidth(" ", "roman", size)
+  const lines: Line[] = []
+  let line: Line = { words: [], width: 0 }
+  const fitting = words.flatMap((word) => (word.width > width - indent ? splitWord(word, width - indent, size) : word))
+  for (const word of fitting) {
+    const available = width - (lines.length === 0 ? indent : 0)
+    if (line.words.length > 0 && line.width + space + word.width > available) {
+      lines.push(line)
+      line = { words: [], width: 0 }
+    }
+    line.width += (line.words.length > 0 ? space : 0) + word.width
+    line.words.push(word)
+  }
+  if (line.words.length > 0) lines.push(line)
+  return lines
+}
+
+// Truncates a single line of text to fit, ending it with an ellipsis
+function fit(encoded: string, style: Style, size: number, width: number) {
+  if (textWidth(encoded, style, size) <= width) return encoded
+  let text = encoded
+  while (text && textWidth(text + "\x85", style, size) > width) text = text.slice(0, -1)
+  return text.trimEnd() + "\x85"
+}
+
+interface ParagraphFormat {
+  size?: number
+  leading?: number
+  // Of the first line
+  indent?: number
+  // From both margins
+  inset?: number
+  align?: "justify" | "left" | "center"
+}
+
+interface Layout {
+  // Drawing operators of each page
+  pages: string[][]
+  images: BookImage[]
+  // Index of the page each chapter starts on
+  chapterPages: number[]
+}
+
+function typeset(book: Book): Layout {
+  const pages: string[][] = []
+  const images: BookImage[] = []
+  let ops: string[] = []
+  // Top of the next line
+  let y = TOP
+
+  const newPage = () => {
+    ops = []
+    pages.push(ops)
+    y = TOP
+  }
+  // Starts a new page unless `height` still fits on this one
+  const ensure = (height: number) => {
+    if (y - height < BOTTOM) newPage()
+  }
+
+  // Justified lines spread their words across `justifyTo` with word spacing
+  const drawLine = (line: Line, x: number, baseline: number, size: number, justifyTo?: number) => {
+    const gaps = line.words.length - 1
+    const wordSpacing = justifyTo !== undefined && gaps > 0 ? (justifyTo - line.width) / gaps : 0
+    const parts = [`BT ${num(wordSpacing)} Tw ${num(x)} ${num(baseline)} Td`]
+    line.words.forEach((word, i) =>
+      word.runs.forEach((run, j) => {
+        const text = (i > 0 && j === 0 ? " " : "") + run.text
+        parts.push(`/${FONTS[run.style].resource} ${num(size)} Tf ${pdfString(text)} Tj`)
+      }),
+    )
+    parts.push("ET")
+    ops.push(parts.join(" "))
+  }
+
+  const paragraph = (
+    runs: Run[],
+    { size = BODY_SIZE, leading = LEADING, indent = 0, inset = 0, align = "justify" }: ParagraphFormat = {},
+  ) => {
+    const width = TEXT_WIDTH - 2 * inset
+    const lines = wrap(toWords(runs, size), width, size, indent)
+    lines.forEach((line, i) => {
+      ensure(leading)
+      const lineIndent = i === 0 ? indent : 0
+      const x = MARGIN + inset + (align === "center" ? (width - line.width) / 2 : lineIndent)
+      const justify = align === "justify" && i < lines.length - 1
+      drawLine(line, x, y - size, size, justify ? width - lineIndent : undefined)
+      y -= leading
+    })
+  }
+
+  const drawImage = (image: BookImage, x: number, bottom: number, width: number, height: number) => {
+    images.push(image)
+    ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(bottom)} cm /Im${images.length} Do Q`)
+  }
+
+  // Full width at most, never enlarged, and shrunk to fit a page
+  const image = (image: BookImage) => {
+    const scale = Math.min(1, TEXT_WIDTH / image.width, (TOP - BOTTOM) / image.height)
+    const width = image.width * scale
+    const height = image.height * scale
+    ensure(height)
+    drawImage(image, MARGIN + (TEXT_WIDTH - width) / 2, y - height, width, height)
+    y -= height
+  }
+
+  const blocks = (blocks: Block[]) => {
+    // As in print, the first paragraph after a heading, quote or scene break is not indented
+    let indent = 0
+    for (const block of blocks) {
+      if (block.type === "blank") continue
+      if (block.type === "paragraph") {
+        paragraph(inlineRuns(block.children), { indent })
+        indent = INDENT
+        continue
+      }
+      indent = 0
+      if (block.type === "break") {
+        y -= 6
+        paragraph(plain("*   *   *"), { align: "center" })
+        y -= 6
+      } else if (block.type === "quote") {
+        y -= 5
+        paragraph(inlineRuns(block.children, false, true), { inset: 20 })
+        y -= 5
+      } else if (block.type === "heading") {
+        const size = block.level === 1 ? 13 : 11.5
+        y -= 10
+        // Keeps the heading with the first lines under it
+        ensure(size * 1.4 + 2 * LEADING)
+        paragraph(inlineRuns(block.children, true), { size, leading: size * 1.4, align: "left" })
+        y -= 4
+      }
+    }
+  }
+
+  const lines = (text: string, style: Style, size = BODY_SIZE, leading = LEADING) =>
+    text
+      .split("\n")
+      .filter((line) => line.trim())
+      .forEach((line) => paragraph(plain(line, style), { size, leading, align: "left" }))
+
+  // Cover, filling the page inside a narrow border
+  if (book.cover) {
+    newPage()
+    const border = 36
+    const scale = Math.min((PAGE_WIDTH - 2 * border) / book.cover.width, (PAGE_HEIGHT - 2 * border) / book.cover.height)
+    const width = book.cover.width * scale
+    const height = book.cover.height * scale
+    drawImage(book.cover, (PAGE_WIDTH - width) / 2, (PAGE_HEIGHT - height) / 2, width, height)
+  }
+  const firstNumbered = pages.length + 1
+
+  newPage()
+  y = TOP - 120
+  paragraph(plain(book.title, "bold"), { size: 24, leading: 30, align: "center" })
+  y -= 12
+  paragraph(plain(`by ${book.author}`, "italic"), { size: 13, leading: 18, align: "center" })
+  if (book.subtitle) {
+    y -= 24
+    paragraph(plain(book.subtitle), { size: 13, leading: 18, align: "center" })
+  }
+
+  // Pages for the contents are set aside now and filled in once the episodes' page numbers are known
+  const contentsHeader = 60
+  const entriesPerPage = Math.floor((TOP - BOTTOM) / LEADING)
+  const firstPageEntries = Math.floor((TOP - BOTTOM - contentsHeader) / LEADING)
+  const contentsPages: number[] = []
+  if (book.chapters.length > 1) {
+    const extra = Math.ceil(Math.max(0, book.chapters.length - firstPageEntries) / entriesPerPage)
+    for (let i = 0; i <= extra; i++) {
+      newPage()
+      contentsPages.push(pages.length - 1)
+    }
+  }
+
+  const chapterPages: number[] = []
+  for (const chapter of book.chapters) {
+    newPage()
+    chapterPages.push(pages.length - 1)
+    y = TOP - 70
+    if (chapter.title) {
+      paragraph(plain(`Episode ${chapter.number}`, "italic"), { align: "center" })
+      y -= 6
+    }
+    paragraph(plain(chapter.title || `Episode ${chapter.number}`, "bold"), { size: 18, leading: 23, align: "center" })
+    y -= 28
+    blocks(chapter.blocks)
+    for (const panel of chapter.panels) {
+      if (panel.type === "text") {
+        lines(panel.text, "roman")
+      } else {
+        image(panel.image)
+        y -= 6
+        panel.captions.forEach((caption) => lines(caption, "italic", 10, 14))
+      }
+      y -= 14
+    }
+  }
+
+  contentsPages.forEach((index, page) => {
+    ops = pages[index]
+    y = TOP
+    if (page === 0) {
+      paragraph(plain("Contents", "bold"), { size: 18, leading: 23, align: "center" })
+      y = TOP - contentsHeader
+    }
+    const start = page === 0 ? 0 : firstPageEntries + (page - 1) * entriesPerPage
+    const end = page === 0 ? firstPageEntries : start + entriesPerPage
+    book.chapters.slice(start, end).forEach((chapter, i) => {
+      const number = encode(String(chapterPages[start + i] + 1))
+      const numberWidth = textWidth(number, "roman", BODY_SIZE)
+      const title = fit(encode(chapterHeading(chapter)), "roman", BODY_SIZE, TEXT_WIDTH - numberWidth - 18)
+      const baseline = y - BODY_SIZE
+      const numberX = MARGIN + TEXT_WIDTH - numberWidth
+      ops.push(`BT /F1 ${BODY_SIZE} Tf 0 Tw ${MARGIN} ${num(baseline)} Td ${pdfString(title)} Tj ET`)
+      ops.push(`BT /F1 ${BODY_SIZE} Tf ${num(numberX)} ${num(baseline)} Td ${pdfString(number)} Tj ET`)
+      y -= LEADING
+    })
+  })
+
+  // Page numbers, from the title page on
+  pages.forEach((page, index) => {
+    if (index + 1 < firstNumbered) return
+    const label = String(index + 1)
+    const x = (PAGE_WIDTH - textWidth(label, "roman", 9)) / 2
+    page.push(`BT /F1 9 Tf 0 Tw ${num(x)} 36 Td ${pdfString(label)} Tj ET`)
+  })
+
+  return { pages, images, chapterPages }
+}
+
+const pdfDate = (date: Date) => `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`
+
+export function writePdf(book: Book): Buffer {
+  const { pages, images, chapterPages } = typeset(book)
+
+  const objects: Buffer[] = []
+  const reserve = () => objects.push(Buffer.alloc(0))
+  const set = (ref: number, body: string | Buffer) => {
+    objects[ref - 1] = typeof body === "string" ? Buffer.from(body, "latin1") : body
+  }
+  const add = (body: string | Buffer) => {
+    const ref = reserve()
+    set(ref, body)
+    return ref
+  }
+  const stream = (dictionary: string, data: Buffer) =>
+    Buffer.concat([
+      Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, "latin1"),
+      data,
+      Buffer.from("\nendstream", "latin1"),
+    ])
+
+  const catalog = reserve()
+  const pageTree = reserve()
+  const info = add(
+    `<< /Title ${textString(book.subtitle ? `${book.title}: ${book.subtitle}` : book.title)} ` +
+      `/Author ${textString(book.author)} /Creator (Sunega Novel) /CreationDate (${pdfDate(book.modified)}) >>`,
+  )
+  const fonts = Object.values(FONTS).map(
+    ({ resource, name }) =>
+      `/${resource} ${add(`<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`)} 0 R`,
+  )
+  const xObjects = images.map(
+    ({ jpeg, width, height }, i) =>
+      `/Im${i + 1} ${add(
+        stream(
+          `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB ` +
+            "/BitsPerComponent 8 /Filter /DCTDecode",
+          jpeg,
+        ),
+      )} 0 R`,
+  )
+  // One resource dictionary shared by every page
+  const resources = add(`<< /Font << ${fonts.join(" ")} >> /XObject << ${xObjects.join(" ")} >> >>`)
+  const pageRefs = pages.map((ops) => {
+    const content = add(stream("/Filter /FlateDecode", deflateSync(Buffer.from(ops.join("\n"), "latin1"))))
+    return add(
+      `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources ${resources} 0 R /Contents ${content} 0 R >>`,
+    )
+  })
+  set(pageTree, `<< /Type /Pages /Kids [${pageRefs.map((ref) => `${ref} 0 R`).join(" ")}] /Count ${pages.length} >>`)
+
+  // Bookmarks to each episode, shown beside the pages in most viewers
+  const outlines = reserve()
+  const items = book.chapters.map(() => reserve())
+  book.chapters.forEach((chapter, i) => {
+    const siblings =
+      (i > 0 ? ` /Prev ${items[i - 1]} 0 R` : "") + (i < items.length - 1 ? ` /Next ${items[i + 1]} 0 R` : "")
+    set(
+      items[i],
+      `<< /Title ${textString(chapterHeading(chapter))} /Parent ${outlines} 0 R${siblings} ` +
+        `/Dest [${pageRefs[chapterPages[i]]} 0 R /Fit] >>`,
+    )
+  })
+  set(outlines, `<< /Type /Outlines /First ${items[0]} 0 R /Last ${items.at(-1)} 0 R /Count ${items.length} >>`)
+  set(
+    catalog,
+    `<< /Type /Catalog /Pages ${pageTree} 0 R /Outlines ${outlines} 0 R` +
+      `${book.chapters.length > 1 ? " /PageMode /UseOutlines" : ""} >>`,
+  )
+
+  // The comment's high bytes mark the file as binary for tools that guess
+  const parts = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")]
+  let offset = parts[0].length
+  const offsets = objects.map((body, i) => {
+    const object = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, "latin1"), body, Buffer.from("\nendobj\n", "latin1")])
+    parts.push(object)
+    const start = offset
+    offset += object.length
+    return start
+  })
+  const xref =
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((start) => `${String(start).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${offset}\n%%EOF\n`
+  parts.push(Buffer.from(xref, "latin1"))
+  return Buffer.concat(parts)
+}
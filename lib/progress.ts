@@ -0,0 +1,91 @@
+import { z } from "zod"
+import { readDb, writeDb } from "@/lib/db"
+import { markCompleted } from "@/lib/library"
+import { readingProgressSchema, type ReadingProgress, type Story } from "@/lib/domain"
+
+export const progressInputSchema = readingProgressSchema.pick({ episodeNumber: true, paragraph: true, percent: true })
+
+export type ProgressInput = z.infer<typeof progressInputSchema>
+
+export interface InProgressEntry {
+  story: Story
+  // The episode the reader was in most recently
+  progress: ReadingProgress
+  // Share of the whole series read, 0-100
+  percent: number
+}
+
+export async function getProgress(
+  userId: string,
+  storyId: string,
+  episodeNumber: number,
+): Promise<ReadingProgress | null> {
+  return readDb(
+    (db) =>
+      db.progress.find(
+        (entry) => entry.userId === userId && entry.storyId === storyId && entry.episodeNumber === episodeNumber,
+      ) ?? null,
+  )
+}
+
+// Null when the story or episode does not exist or is not published, since readers can only be partway through
+// what they can read
+export async function saveProgress(
+  userId: string,
+  storyId: string,
+  input: ProgressInput,
+): Promise<ReadingProgress | null> {
+  const data = progressInputSchema.parse(input)
+  return writeDb((db) => {
+    const story = db.stories.find((candidate) => candidate.id === storyId)
+    const episode = db.episodes.find(
+      (candidate) => candidate.storyId === storyId && candidate.number === data.episodeNumber,
+    )
+    if (story?.status !== "published" || episode?.status !== "published") return null
+    const record: ReadingProgress = { userId, storyId, ...data, updatedAt: new Date().toISOString() }
+    const index = db.progress.findIndex(
+      (entry) => entry.userId === userId && entry.storyId === storyId && entry.episodeNumber === data.episodeNumber,
+    )
+    if (index === -1) db.progress.push(record)
+    else db.progress[index] = record
+
+    // Finishing the latest published episode moves the story to the Completed shelf
+    const lastEpisode = Math.max(
+      0,
+      ...db.episodes
+        .filter((episode) => episode.storyId === storyId && episode.status === "published")
+        .map((episode) => episode.number),
+    )
+    if (data.percent === 100 && data.episodeNumber === lastEpisode) markCompleted(db, userId, storyId)
+    return record
+  })
+}
+
+// Published stories the user has started but not finished, most recently read first
+export async function listInProgress(userId: string): Promise<InProgressEntry[]> {
+  return readDb((db) => {
+    const latestByStory = new Map<string, ReadingProgress>()
+    db.progress
+      .filter((entry) => entry.userId === userId)
+      .forEach((entry) => {
+        const latest = latestByStory.get(entry.storyId)
+        if (!latest || entry.updatedAt > latest.updatedAt) latestByStory.set(entry.storyId, entry)
+      })
+
+    return [...latestByStory.values()]
+      .flatMap((progress) => {
+        const story = db.stories.find((candidate) => candidate.id === progress.storyId)
+        if (!story || story.status !== "published") return []
+        const episodeNumbers = db.episodes
+          .filter((episode) => episode.storyId === story.id && episode.status === "published")
+          .map((episode) => episode.number)
+          .sort((a, b) => a - b)
+        // Earlier episodes count as read; the current one counts by how far in the reader got
+        const episodesBefore = episodeNumbers.filter((number) => number < progress.episodeNumber).length
+        const total = Math.max(episodeNumbers.length, episodesBefore + 1)
+        const percent = Math.round(((episodesBefore + progress.percent / 100) / total) * 100)
+        return percent < 100 ? [{ story, progress, percent }] : []
+      })
+      .sort((a, b) => b.progress.updatedAt.localeCompare(a.progress.updatedAt))
+  })
+}
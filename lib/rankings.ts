@@ -0,0 +1,75 @@
+import type { Story } from "@/lib/domain"
+
+// Pure ranking helpers, shared by the stories API and client-side views
+
+export const STORY_SORTS = ["trending", "most-read", "top-rated", "newest"] as const
+export type StorySort = (typeof STORY_SORTS)[number]
+
+// Length in days of each "published within" window
+export const PUBLISHED_WITHIN = { today: 1, week: 7, month: 30 } as const
+export type PublishedWithin = keyof typeof PUBLISHED_WITHIN
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Until a story has enough ratings its average is pulled towards this prior
+const PRIOR_RATING = 3.5
+const PRIOR_WEIGHT = 10
+
+const publishedAt = (story: Story) => new Date(story.publishDate ?? story.createdAt).getTime()
+
+// Trending counts each kind of reader activity at this weight, over the last TRENDING_DAYS days only
+export const ACTIVITY_WEIGHTS = { view: 0.1, like: 1, comment: 2 } as const
+export type ActivityKind = keyof typeof ACTIVITY_WEIGHTS
+export const TRENDING_DAYS = 14
+
+const activityDay = (at: Date | string | number) => new Date(at).toISOString().slice(0, 10)
+
+// Adds (or, with a negative count, takes back) activity that happened at `at` to the story's daily totals,
+// dropping days that have left the trending window
+export function addActivity(story: Story, kind: ActivityKind, at: Date | string = new Date(), count = 1) {
+  // Stories saved before activity was tracked have none
+  const activity = { ...(story.activity ?? {}) }
+  const day = activityDay(at)
+  const oldest = activityDay(Date.now() - TRENDING_DAYS * DAY_MS)
+  if (day >= oldest) activity[day] = Math.max(0, (activity[day] ?? 0) + ACTIVITY_WEIGHTS[kind] * count)
+  for (const [key, value] of Object.entries(activity)) {
+    if (key < oldest || value === 0) delete activity[key]
+  }
+  story.activity = activity
+}
+
+// Each day's activity divided by a power of its age, so a burst of reads today outranks a bigger one last week
+export function trendingScore(story: Story, now = Date.now()): number {
+  return Object.entries(story.activity ?? {}).reduce((score, [day, weight]) => {
+    // A day's activity is dated to its middle
+    const ageHours = Math.max(0, now - (new Date(day).getTime() + DAY_MS / 2)) / HOUR_MS
+    return score + weight / Math.pow(ageHours + 2, 1.5)
+  }, 0)
+}
+
+// Bayesian average, so one five-star rating does not beat a hundred fours
+export function weightedRating(story: Story): number {
+  return (story.ratingAverage * story.ratingCount + PRIOR_RATING * PRIOR_WEIGHT) / (story.ratingCount + PRIOR_WEIGHT)
+}
+
+export function isPublishedWithin(story: Story, within: PublishedWithin, now = Date.now()): boolean {
+  return story.publishDate !== null && now - new Date(story.publishDate).getTime() <= PUBLISHED_WITHIN[within] * DAY_MS
+}
+
+// The number each sort ranks stories by, highest first
+export function storyScore(sort: StorySort, now = Date.now()): (story: Story) => number {
+  const scores: Record<StorySort, (story: Story) => number> = {
+    trending: (story) => trendingScore(story, now),
+    "most-read": (story) => story.views,
+    "top-rated": weightedRating,
+    newest: publishedAt,
+  }
+  return scores[sort]
+}
+
+// Ties are broken by id, so the order is total and a page cursor can seek into it (see lib/pagination)
+export function sortStories(stories: Story[], sort: StorySort, now = Date.now()): Story[] {
+  const score = storyScore(sort, now)
+  return [...stories].sort((a, b) => score(b) - score(a) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0))
+}
@@ -0,0 +1,137 @@
+import { z } from "zod"
+import { readDb, writeDb } from "@/lib/db"
+import { ratingSchema, type Like, type Rating, type Story } from "@/lib/domain"
+import { addActivity } from "@/lib/rankings"
+
+export const ratingInputSchema = ratingSchema.pick({ value: true })
+
+export type RatingInput = z.infer<typeof ratingInputSchema>
+
+export const likeInputSchema = z.object({ liked: z.boolean() })
+
+export type LikeInput = z.infer<typeof likeInputSchema>
+
+export async function getRating(userId: string, storyId: string): Promise<Rating | null> {
+  return readDb(
+    (db) => db.ratings.find((rating) => rating.userId === userId && rating.storyId === storyId) ?? null,
+  )
+}
+
+// Adds or replaces the user's rating. The story's aggregate is adjusted in place rather than recomputed,
+// so ratings carried over from the sample catalogue keep counting.
+export async function rateStory(
+  userId: string,
+  storyId: string,
+  input: RatingInput,
+): Promise<{ rating: Rating; story: Story } | null> {
+  const { value } = ratingInputSchema.parse(input)
+  return writeDb((db) => {
+    const story = db.stories.find((candidate) => candidate.id === storyId)
+    if (!story) return null
+    const now = new Date().toISOString()
+    const existing = db.ratings.find((rating) => rating.userId === userId && rating.storyId === storyId)
+    const total = story.ratingAverage * story.ratingCount
+    if (existing) {
+      story.ratingAverage = (total - existing.value + value) / story.ratingCount
+      existing.value = value
+      existing.updatedAt = now
+      return { rating: existing, story }
+    }
+    const rating: Rating = { userId, storyId, value, updatedAt: now }
+    db.ratings.push(rating)
+    story.ratingCount += 1
+    story.ratingAverage = (total + value) / story.ratingCount
+    return { rating, story }
+  })
+}
+
+export async function isLiked(userId: string, storyId: string): Promise<boolean> {
+  return readDb((db) => db.likes.some((like) => like.userId === userId && like.storyId === storyId))
+}
+
+// Likes or unlikes a story for the user. Like ratings, the story's total is adjusted in place; liking twice
+// counts once.
+export async function setLiked(
+  userId: string,
+  storyId: string,
+  input: LikeInput,
+): Promise<{ liked: boolean; likes: number } | null> {
+  const { liked } = likeInputSchema.parse(input)
+  return writeDb((db) => {
+    const story = db.stories.find((candidate) => candidate.id === storyId)
+    if (!story) return null
+    const index = db.likes.findIndex((like) => like.userId === userId && like.storyId === storyId)
+    if (liked && index === -1) {
+      const like: Like = { userId, storyId, createdAt: new Date().toISOString() }
+      db.likes.push(like)
+      story.likes += 1
+      addActivity(story, "like", like.createdAt)
+    } else if (!liked && index !== -1) {
+      const [like] = db.likes.splice(index, 1)
+      story.likes = Math.max(0, story.likes - 1)
+      addActivity(story, "like", like.createdAt, -1)
+    }
+    return { liked, likes: story.likes }
+  })
+}
+
+// Views are counted in memory and written in one batch every few seconds, so a busy story does not rewrite
+// the whole store on every read. Kept on globalThis for the same reason as the store (see lib/db).
+const VIEW_FLUSH_MS = 10 * 1000
+
+// A viewer counts once per story within this window, however often the endpoint is called
+const VIEW_WINDOW_MS = 60 * 60 * 1000
+
+interface PendingViews {
+  counts: Map<string, number>
+  timer: NodeJS.Timeout | null
+  // When each "<story>:<viewer>" pair last counted
+  seen: Map<string, number>
+}
+
+const globalViews = globalThis as typeof globalThis & { sunegaViews?: PendingViews }
+const pendingViews = (globalViews.sunegaViews ??= { counts: new Map(), timer: null, seen: new Map() })
+
+async function flushViews() {
+  const counts = pendingViews.counts
+  pendingViews.counts = new Map()
+  pendingViews.timer = null
+  const now = new Date()
+  pendingViews.seen.forEach((seenAt, key) => {
+    if (now.getTime() - seenAt >= VIEW_WINDOW_MS) pendingViews.seen.delete(key)
+  })
+  await writeDb((db) => {
+    counts.forEach((count, storyId) => {
+      const story = db.stories.find((candidate) => candidate.id === storyId)
+      if (!story) return
+      story.views += count
+      addActivity(story, "view", now, count)
+    })
+  })
+}
+
+// Counts one read of a published story by `viewer`, an account or address, unless it already counted within
+// the window. Returns the total, or null when there is nothing to count.
+export async function recordView(storyId: string, viewer: string): Promise<number | null> {
+  const views = await readDb((db) => {
+    const story = db.stories.find((candidate) => candidate.id === storyId)
+    return story?.status === "published" ? story.views : null
+  })
+  if (views === null) return null
+  const seenKey = `${storyId}:${viewer}`
+  const now = Date.now()
+  const seenAt = pendingViews.seen.get(seenKey)
+  if (seenAt !== undefined && now - seenAt < VIEW_WINDOW_MS) return views + (pendingViews.counts.get(storyId) ?? 0)
+  pendingViews.seen.set(seenKey, now)
+  const pending = (pendingViews.counts.get(storyId) ?? 0) + 1
+  pendingViews.counts.set(storyId, pending)
+  if (!pendingViews.timer) {
+    pendingViews.timer = setTimeout(
+      () => flushViews().catch((error) => console.error("Saving view counts failed:", error)),
+      VIEW_FLUSH_MS,
+    )
+    // Never keeps the process alive on its own
+    pendingViews.timer.unref()
+  }
+  return views + pending
+}
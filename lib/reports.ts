@@ -0,0 +1,23 @@
+import { z } from "zod"
+import { readDb, writeDb } from "@/lib/db"
+import { reportSchema, type Report, type ReportStatus } from "@/lib/domain"
+
+export const reportUpdateSchema = reportSchema.pick({ status: true })
+
+export async function listReports({ status }: { status?: ReportStatus } = {}): Promise<Report[]> {
+  return readDb((db) =>
+    db.reports
+      .filter((report) => !status || report.status === status)
+      .sort((a, b) => new Date(b.reportedAt).getTime() - new Date(a.reportedAt).getTime()),
+  )
+}
+
+export async function updateReport(id: string, patch: z.infer<typeof reportUpdateSchema>): Promise<Report | null> {
+  const data = reportUpdateSchema.parse(patch)
+  return writeDb((db) => {
+    const report = db.reports.find((candidate) => candidate.id === id)
+    if (!report) return null
+    Object.assign(report, data)
+    return report
+  })
+}
@@ -0,0 +1,47 @@
+import { readDb, type Database } from "@/lib/db"
+import type { Episode, Revision } from "@/lib/domain"
+import { episodeWordCount } from "@/lib/text"
+
+// Older revisions beyond this many per episode are dropped
+const MAX_REVISIONS = 100
+
+// Snapshots the episode as just written. Called inside the episode's writeDb; a save that changes nothing
+// since the last revision adds no new one.
+export function recordRevision(db: Database, episode: Episode, now: string) {
+  const history = db.revisions.filter((revision) => revision.episodeId === episode.id)
+  const latest = history[history.length - 1]
+  if (
+    latest &&
+    latest.title === episode.title &&
+    latest.content === episode.content &&
+    latest.status === episode.status &&
+    JSON.stringify(latest.storyContent) === JSON.stringify(episode.storyContent)
+  ) {
+    return
+  }
+  db.revisions.push({
+    id: crypto.randomUUID(),
+    storyId: episode.storyId,
+    episodeId: episode.id,
+    episodeNumber: episode.number,
+    title: episode.title,
+    content: episode.content,
+    storyContent: episode.storyContent,
+    status: episode.status,
+    wordCount: episodeWordCount(episode),
+    createdAt: now,
+  })
+  if (history.length + 1 > MAX_REVISIONS) {
+    const dropped = new Set(history.slice(0, history.length + 1 - MAX_REVISIONS).map((revision) => revision.id))
+    db.revisions = db.revisions.filter((revision) => !dropped.has(revision.id))
+  }
+}
+
+// Every revision of the story's episode with this number, newest first
+export async function listRevisions(storyId: string, episodeNumber: number): Promise<Revision[]> {
+  return readDb((db) => {
+    const episode = db.episodes.find((candidate) => candidate.storyId === storyId && candidate.number === episodeNumber)
+    if (!episode) return []
+    return db.revisions.filter((revision) => revision.episodeId === episode.id).reverse()
+  })
+}
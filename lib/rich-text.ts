@@ -0,0 +1,102 @@
+// Story text is a small Markdown dialect with one block per line, so reading positions stay line numbers:
+//   "# " or "## " heading, "### " subheading, "> " quote, "* * *" (or "***", "---") scene break,
+//   **bold**, *italic* or _italic_, and "\" before a marker to type it literally.
+// It is only ever turned into React elements, never HTML, so nothing an author types can inject markup.
+
+export type InlineNode = { type: "text"; text: string } | { type: "strong" | "em"; children: InlineNode[] }
+
+export type Block =
+  | { type: "paragraph" | "quote"; children: InlineNode[] }
+  | { type: "heading"; level: 1 | 2; children: InlineNode[] }
+  | { type: "break" }
+  | { type: "blank" }
+
+const ESCAPABLE = /[\\*_#>-]/
+const SCENE_BREAK = /^\s*([*\-_])(\s*\1){2,}\s*$/
+const HEADING = /^(#{1,3})\s+(.*)$/
+const QUOTE = /^>\s?(.*)$/
+
+const isSpace = (char: string | undefined) => char === undefined || /\s/.test(char)
+
+// Index of the marker closing an emphasis opened just before `from`, or -1. A closing marker must follow
+// a non-space character; a single "*" skips over "**" so bold can nest inside italics.
+function findClose(text: string, marker: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++
+      continue
+    }
+    if (marker === "*" && text.startsWith("**", i)) {
+      i++
+      continue
+    }
+    if (text.startsWith(marker, i) && !isSpace(text[i - 1])) {
+      // An underscore inside a word, as in snake_case, does not close
+      if (marker === "_" && /\w/.test(text[i + 1] ?? "")) continue
+      return i
+    }
+  }
+  return -1
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = []
+  let buffer = ""
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", text: buffer })
+    buffer = ""
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const char = text[i]
+    if (char === "\\" && ESCAPABLE.test(text[i + 1] ?? "")) {
+      buffer += text[i + 1]
+      i += 2
+      continue
+    }
+    const marker = text.startsWith("**", i) ? "**" : char === "*" || char === "_" ? char : null
+    // Openers need a non-space after them, and an underscore must not start inside a word
+    const canOpen = marker && !isSpace(text[i + marker.length]) && !(marker === "_" && /\w/.test(text[i - 1] ?? ""))
+    if (marker && canOpen) {
+      const end = findClose(text, marker, i + marker.length)
+      if (end > i + marker.length) {
+        flush()
+        const children = parseInline(text.slice(i + marker.length, end))
+        nodes.push({ type: marker === "**" ? "strong" : "em", children })
+        i = end + marker.length
+        continue
+      }
+    }
+    buffer += char
+    i++
+  }
+  flush()
+  return nodes
+}
+
+function parseLine(line: string): Block {
+  if (!line.trim()) return { type: "blank" }
+  if (SCENE_BREAK.test(line)) return { type: "break" }
+  const heading = HEADING.exec(line)
+  if (heading) return { type: "heading", level: heading[1].length < 3 ? 1 : 2, children: parseInline(heading[2]) }
+  const quote = QUOTE.exec(line)
+  if (quote) return { type: "quote", children: parseInline(quote[1]) }
+  return { type: "paragraph", children: parseInline(line) }
+}
+
+// One block per line of the text, blank lines included
+export const parseStoryText = (text: string): Block[] => text.split("\n").map(parseLine)
+
+const inlineText = (nodes: InlineNode[]): string =>
+  nodes.map((node) => (node.type === "text" ? node.text : inlineText(node.children))).join("")
+
+// The words a reader sees, without markers; used for search and word counts
+export const stripMarkup = (text: string) =>
+  parseStoryText(text)
+    .map((block) => ("children" in block ? inlineText(block.children) : ""))
+    .join("\n")
+
+// Applied to every saved episode: Windows line endings become "\n" and control characters are dropped
+export const normalizeStoryText = (text: string) =>
+  text.replace(/\r\n?/g, "\n").replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, "")
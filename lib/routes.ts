@@ -0,0 +1,35 @@
+import type { ReadingProgress } from "@/lib/domain"
+import type { ExportFormat } from "@/lib/export"
+
+// Whether a nav link for `href` should be highlighted on `pathname`
+export const isActiveRoute = (pathname: string, href: string) =>
+  href === "/" ? pathname === "/" : pathname === href || pathname.startsWith(`${href}/`)
+
+// Only follow same-origin paths from ?next= so the login page cannot be used as an open redirect. The value is
+// resolved the way the browser would, so tricks like "/\evil.com" or a tab after the slash are caught too.
+export function safeNextPath(next: string | null | undefined) {
+  if (!next?.startsWith("/")) return "/"
+  const base = "http://same-origin.invalid"
+  let url: URL
+  try {
+    url = new URL(next, base)
+  } catch {
+    return "/"
+  }
+  return url.origin === base ? url.pathname + url.search + url.hash : "/"
+}
+
+// The editor for a story's next episode, or for one it already has
+export const writeHref = (storyId: string, episodeNumber?: number) =>
+  `/write?story=${storyId}` + (episodeNumber === undefined ? "" : `&episode=${episodeNumber}`)
+
+// The full-screen reader for image-story episodes; /story/<id>/<episode> sends image episodes here
+export const readerHref = (storyId: string, episodeNumber: number) => `/read/${storyId}/${episodeNumber}`
+
+// Reopens a story at the paragraph where the reader stopped
+export const resumeHref = ({ storyId, episodeNumber, paragraph }: ReadingProgress) =>
+  `/story/${storyId}/${episodeNumber}#p-${paragraph}`
+
+// Downloads the whole story, or one episode of it, as an EPUB or PDF file
+export const exportHref = (storyId: string, format: ExportFormat, episodeNumber?: number) =>
+  `/api/stories/${storyId}/export?format=${format}` + (episodeNumber === undefined ? "" : `&episode=${episodeNumber}`)
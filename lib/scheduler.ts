@@ -0,0 +1,16 @@
+import { publishDueEpisodes } from "@/lib/episodes"
+
+// Background job that releases scheduled episodes. Started once per server process from instrumentation.ts.
+
+const INTERVAL_MS = 30 * 1000
+
+let timer: NodeJS.Timeout | null = null
+
+export function startScheduler() {
+  if (timer) return
+  const tick = () => publishDueEpisodes().catch((error) => console.error("Scheduled publishing failed:", error))
+  tick()
+  timer = setInterval(tick, INTERVAL_MS)
+  // Never keeps the process alive on its own
+  timer.unref()
+}
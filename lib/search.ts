@@ -0,0 +1,213 @@
+import { readDb, type Database } from "@/lib/db"
+import type { Genre, Story, Tag } from "@/lib/domain"
+import { stripMarkup } from "@/lib/rich-text"
+
+// In-process inverted index over published stories: title, author, tags, genre and episode text
+
+export interface HighlightSegment {
+  text: string
+  highlight: boolean
+}
+
+export interface SearchResult {
+  story: Story
+  score: number
+  title: HighlightSegment[]
+  // Passage from the story body around the first match
+  snippet: HighlightSegment[]
+}
+
+type Field = "title" | "author" | "tags" | "genre" | "content"
+
+const FIELD_WEIGHTS: Record<Field, number> = { title: 5, author: 3, tags: 3, genre: 2, content: 1 }
+const SNIPPET_LENGTH = 180
+// Every query term is compared with the whole vocabulary, so longer queries are cut short rather than left to
+// hold up the server
+const MAX_QUERY_LENGTH = 200
+const MAX_QUERY_TERMS = 8
+
+interface IndexedStory {
+  story: Story
+  content: string
+}
+
+interface SearchIndex {
+  version: string
+  stories: Map<string, IndexedStory>
+  // term -> story id -> field-weighted term frequency
+  postings: Map<string, Map<string, number>>
+}
+
+let index: SearchIndex | null = null
+
+const WORD = /[\p{L}\p{N}]+/gu
+
+// Case- and accent-insensitive form used for both indexing and queries
+const normalize = (word: string) =>
+  word
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+
+export const tokenize = (text: string) => (text.match(WORD) ?? []).map(normalize)
+
+// Changes only with what the index is built from: stories, episodes and the genres and tags. Reading progress,
+// autosaves and view counts leave it alone, so they never cost a rebuild.
+function contentVersion(db: Database) {
+  const edits = (items: { id: string; status: string; updatedAt: string }[]) =>
+    items.map(({ id, status, updatedAt }) => `${id}:${status}:${updatedAt}`).join(",")
+  return [edits(db.stories), edits(db.episodes), JSON.stringify([db.genres, db.tags])].join("|")
+}
+
+function buildIndex(db: Database, version: string): SearchIndex {
+  // Genres and tags are indexed under their display names and synonyms, not just their slugs
+  const termText = (terms: (Genre | Tag)[], slug: string) => {
+    const term = terms.find((candidate) => candidate.slug === slug)
+    return term ? [term.name, ...term.synonyms].join(" ") : slug
+  }
+  const stories = new Map<string, IndexedStory>()
+  const postings = new Map<string, Map<string, number>>()
+
+  db.stories
+    .filter((story) => story.status === "published")
+    .forEach((story) => {
+      const content = db.episodes
+        .filter((episode) => episode.storyId === story.id && episode.status === "published")
+        .sort((a, b) => a.number - b.number)
+        .map((episode) => [episode.title, stripMarkup(episode.content)].filter(Boolean).join("\n"))
+        .join("\n\n")
+      stories.set(story.id, { story, content })
+
+      const fields: Record<Field, string> = {
+        title: story.title,
+        author: story.author,
+        tags: story.tags.map((slug) => termText(db.tags, slug)).join(" "),
+        genre: termText(db.genres, story.genre),
+        content,
+      }
+      ;(Object.keys(fields) as Field[]).forEach((field) => {
+        tokenize(fields[field]).forEach((term) => {
+          const entry = postings.get(term) ?? new Map<string, number>()
+          entry.set(story.id, (entry.get(story.id) ?? 0) + FIELD_WEIGHTS[field])
+          postings.set(term, entry)
+        })
+      })
+    })
+
+  return { version, stories, postings }
+}
+
+// Optimal string alignment distance, giving up once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)])
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+      rowMin = Math.min(rowMin, rows[i][j])
+    }
+    if (rowMin > max) return max + 1
+  }
+  return rows[a.length][b.length]
+}
+
+// Index terms a query term can stand for, with how much a match on each counts
+function expandTerm(term: string, vocabulary: Iterable<string>): Map<string, number> {
+  const matches = new Map<string, number>()
+  // Longer words tolerate more typos; very short ones only match exactly or as a prefix
+  const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0
+  for (const candidate of vocabulary) {
+    if (candidate === term) {
+      matches.set(candidate, 1)
+    } else if (term.length >= 2 && candidate.startsWith(term)) {
+      matches.set(candidate, 0.8)
+    } else if (maxEdits > 0) {
+      const distance = editDistance(term, candidate, maxEdits)
+      if (distance <= maxEdits) matches.set(candidate, distance === 1 ? 0.6 : 0.4)
+    }
+  }
+  return matches
+}
+
+// Splits text[from, to) into plain and highlighted runs, highlighting words in `terms`
+function highlight(text: string, terms: Set<string>, from = 0, to = text.length): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  let cursor = from
+  for (const match of text.slice(from, to).matchAll(WORD)) {
+    if (!terms.has(normalize(match[0]))) continue
+    const start = from + match.index!
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), highlight: false })
+    segments.push({ text: match[0], highlight: true })
+    cursor = start + match[0].length
+  }
+  if (cursor < to) segments.push({ text: text.slice(cursor, to), highlight: false })
+  return segments
+}
+
+function snippet(content: string, terms: Set<string>): HighlightSegment[] {
+  const text = content.replace(/\s+/g, " ").trim()
+  const first = [...text.matchAll(WORD)].find((match) => terms.has(normalize(match[0])))
+  let start = first ? Math.max(0, first.index! - SNIPPET_LENGTH / 3) : 0
+  // Start on a word boundary
+  if (start > 0) start = text.indexOf(" ", start) + 1 || start
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+  const segments = highlight(text, terms, start, end)
+  if (start > 0) segments.unshift({ text: "…", highlight: false })
+  if (end < text.length) segments.push({ text: "…", highlight: false })
+  return segments
+}
+
+// Only the first MAX_QUERY_LENGTH characters and MAX_QUERY_TERMS distinct words of the query are searched
+export async function searchStories(query: string, limit = 20): Promise<SearchResult[]> {
+  const terms = [...new Set(tokenize(query.slice(0, MAX_QUERY_LENGTH)))].slice(0, MAX_QUERY_TERMS)
+  if (terms.length === 0) return []
+
+  // Only rebuilding the index needs the database; matching runs outside its queue so other requests never wait
+  // on it. The index is replaced, never changed, so this snapshot stays whole however long matching takes.
+  // Results show the stories as they are now, so views and ratings since the last rebuild are not lost.
+  let current = new Map<string, Story>()
+  await readDb((db) => {
+    const version = contentVersion(db)
+    if (index?.version !== version) index = buildIndex(db, version)
+    current = new Map(db.stories.map((story) => [story.id, story]))
+  })
+  const { stories, postings } = index!
+  const storyCount = stories.size
+
+  const scores = new Map<string, { score: number; matchedTerms: number; hits: Set<string> }>()
+  terms.forEach((term) => {
+    // Best-scoring expansion of this query term, per story
+    const best = new Map<string, { score: number; hit: string }>()
+    expandTerm(term, postings.keys()).forEach((weight, candidate) => {
+      const entry = postings.get(candidate)!
+      const idf = Math.log(1 + storyCount / entry.size)
+      entry.forEach((frequency, storyId) => {
+        const score = weight * idf * (1 + Math.log(frequency))
+        if (score > (best.get(storyId)?.score ?? 0)) best.set(storyId, { score, hit: candidate })
+      })
+    })
+    best.forEach(({ score, hit }, storyId) => {
+      const total = scores.get(storyId) ?? { score: 0, matchedTerms: 0, hits: new Set<string>() }
+      total.score += score
+      total.matchedTerms += 1
+      total.hits.add(hit)
+      scores.set(storyId, total)
+    })
+  })
+
+  // Stories matching more of the query rank first, then by score
+  return [...scores.entries()]
+    .sort(([, a], [, b]) => b.matchedTerms - a.matchedTerms || b.score - a.score)
+    .slice(0, limit)
+    .map(([storyId, { score, hits }]) => {
+      const { story: indexed, content } = stories.get(storyId)!
+      const story = current.get(storyId) ?? indexed
+      return { story, score, title: highlight(story.title, hits), snippet: snippet(content, hits) }
+    })
+}
@@ -0,0 +1,458 @@
+import type { Episode, Genre, Report, Story, Tag } from "@/lib/domain"
+import type { UserRecord } from "@/lib/db"
+import { ACTIVITY_WEIGHTS, TRENDING_DAYS } from "@/lib/rankings"
+import { episodeReadingSeconds, episodeWordCount } from "@/lib/text"
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+type SeedStory = Omit<
+  Story,
+  | "authorId"
+  | "contentType"
+  | "allowDownloads"
+  | "episodeCount"
+  | "wordCount"
+  | "readingSeconds"
+  | "activity"
+  | "publishDate"
+  | "createdAt"
+  | "updatedAt"
+> & {
+  publishedDaysAgo: number | null
+} & ({ content: string } | { episodes: { title: string; content: string }[] })
+
+// Single-shot stories become a series with one untitled episode
+const seedEpisodeTexts = (story: SeedStory) =>
+  "episodes" in story ? story.episodes : [{ title: "", content: story.content }]
+
+// Counted the way lib/episodes counts saved episodes
+const measureSeedText = (content: string) => ({
+  wordCount: episodeWordCount({ content, storyContent: [] }),
+  readingSeconds: episodeReadingSeconds({ content, storyContent: [] }),
+})
+
+const seedDates = (story: SeedStory) => {
+  const publishDate = story.publishedDaysAgo === null ? null : daysAgo(story.publishedDaysAgo)
+  return { publishDate, createdAt: publishDate ?? daysAgo(1) }
+}
+
+// The sample totals, spread evenly over the days since publishing, stand in for recorded activity
+const seedActivity = (story: SeedStory) => {
+  if (story.publishedDaysAgo === null) return {}
+  const days = story.publishedDaysAgo + 1
+  const daily = (story.views * ACTIVITY_WEIGHTS.view + story.likes * ACTIVITY_WEIGHTS.like) / days
+  return Object.fromEntries(
+    Array.from({ length: Math.min(days, TRENDING_DAYS) }, (_, i) => [daysAgo(i).slice(0, 10), daily]),
+  )
+}
+
+// Sample catalogue written to the store the first time it is opened
+const seed: SeedStory[] = [
+  {
+    id: "s1",
+    title: "The Whispering Woods",
+    author: "Elara Vance",
+    genre: "fantasy",
+    tags: ["magic", "adventure"],
+    imageUrl:
+      "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
+    status: "published",
+    views: 2840,
+    likes: 312,
+    ratingAverage: 4.6,
+    ratingCount: 118,
+    publishedDaysAgo: 0,
+    // A serialized story, to show episode navigation
+    episodes: [
+      {
+        title: "Into the Mist",
+        content: `In the heart of the ancient realm, where shadows danced with forgotten light, lay the Whispering Woods. Its trees, gnarled and wise, had stood for millennia, their branches interwoven like the threads of time itself. Legend had it that the woods held secrets, whispered only to those brave enough to listen.
+
+Elara, a young cartographer with an insatiable curiosity, ventured into its depths, her compass spinning wildly, useless against the magic that permeated the air. The path vanished behind her, replaced by a shimmering mist that clung to the moss-covered stones. Birds with iridescent feathers sang melodies that seemed to guide her deeper, while unseen creatures rustled in the undergrowth.`,
+      },
+      {
+        title: "The Ancient Oak",
+        content: `She stumbled upon a clearing, bathed in an ethereal glow. In its center stood a single, ancient oak, its bark etched with symbols that pulsed with a soft, inner light. As Elara reached out, a voice, as old as the woods themselves, echoed in her mind, not with words, but with feelings – a tapestry of joy, sorrow, and profound wisdom. It was the voice of the woods, sharing its memories, its very essence.`,
+      },
+      {
+        title: "Whispers Carried Home",
+        content: `Days turned into nights, and Elara lost all sense of time. She learned of ancient civilizations that had thrived and fallen within the woods' embrace, of mythical beasts that roamed its hidden glades, and of a forgotten magic that once bound the world together. The woods didn't just whisper; they sang, they wept, they celebrated, and Elara became a part of their symphony.
+
+When she finally emerged, the world outside seemed dull and muted. But Elara carried the whispers of the woods within her, a treasure trove of stories waiting to be told. Her maps would now chart not just lands, but the very soul of the world, guided by the ancient wisdom she had found in the heart of the Whispering Woods. And sometimes, on quiet nights, if you listened closely, you could still hear the faint echo of those whispers, carried on the wind, inviting others to listen.`,
+      },
+    ],
+  },
+  {
+    id: "s2",
+    title: "Echoes of Starlight",
+    author: "Kaelen Thorne",
+    genre: "sci-fi",
+    tags: ["space", "first-contact"],
+    imageUrl:
+      "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
+    status: "published",
+    views: 5120,
+    likes: 406,
+    ratingAverage: 4.4,
+    ratingCount: 164,
+    publishedDaysAgo: 3,
+    content: `The galaxy was a canvas of swirling nebulae and distant suns, but for Captain Kaelen Thorne, it was a battlefield. His ship, the 'Stardust Drifter,' was a relic, patched together from salvaged parts, yet it was his home and his last hope. He chased the echoes of starlight, fragments of a lost civilization said to hold the key to universal peace.
+
+His journey led him to the desolate planet of Xylos, a world scarred by ancient wars, where the very air hummed with residual energy. The ruins of a colossal city stretched across the horizon, silent monuments to a forgotten empire. Kaelen landed the 'Drifter' amidst the rubble, his boots crunching on crystalline dust.
+
+Inside the ruins, he found not gold or power, but knowledge. Holographic projections flickered to life, depicting a civilization that had mastered the art of cosmic harmony, using starlight itself as a conduit for thought and emotion. They had built a network, a 'Chorus of Stars,' that connected every sentient being, fostering empathy and understanding.
+
+But the Chorus had been shattered, its echoes now faint whispers across the void. Kaelen realized his quest wasn't to find a weapon, but to rekindle a song. He spent weeks deciphering the ancient texts, piecing together the fragments of their technology. It was a daunting task, one that tested his resolve and pushed him to the brink of despair.
+
+Finally, with the last piece of the puzzle in place, Kaelen activated a dormant console. A single beam of pure starlight shot into the heavens, followed by another, and another, until the sky above Xylos was ablaze with a celestial symphony. Across the galaxy, dormant nodes of the Chorus flickered to life, and for a brief, glorious moment, every being felt a connection, a shared understanding.
+
+The echoes of starlight had returned, not as a whisper, but as a resounding chorus. Kaelen Thorne, the lone captain, had not found peace, but had reignited the hope for it, a beacon in the vast, silent expanse of the cosmos. His journey was far from over, but now, he had a purpose: to help the galaxy remember the song of unity.`,
+  },
+  {
+    id: "s3",
+    title: "City of Forgotten Dreams",
+    author: "Seraphina Nightshade",
+    genre: "mystery",
+    tags: ["detective", "dreams"],
+    imageUrl:
+      "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
+    status: "published",
+    views: 3310,
+    likes: 498,
+    ratingAverage: 4.7,
+    ratingCount: 203,
+    publishedDaysAgo: 12,
+    content: `In the heart of the sprawling metropolis, hidden beneath layers of concrete and neon, lay the City of Forgotten Dreams. It was a place where aspirations went to die, where hopes withered, and where the echoes of what might have been lingered like ghosts. Seraphina Nightshade, a detective who specialized in the intangible, felt its pull.
+
+Her latest case involved a string of disappearances, all linked by a common thread: the victims had all abandoned their grandest dreams just before vanishing. Seraphina followed the faint psychic trails, which led her to a forgotten subway station, its tracks overgrown with luminescent moss. Beyond a crumbling wall, she found it – a city built of discarded ambitions.
+
+Buildings shaped like unwritten novels, bridges leading to unbuilt futures, and parks filled with the silent laughter of unlived moments. The air was heavy with a melancholic beauty. Seraphina realized the victims hadn't vanished; they had simply become part of this city, their essence absorbed by the very dreams they had forsaken.
+
+She found the architect of this spectral city: a being of pure despair, born from the collective sorrow of humanity's unfulfilled potential. It fed on forgotten dreams, growing stronger with each abandoned hope. Seraphina knew she couldn't fight it with force; she had to rekindle a dream.
+
+She thought of her own forgotten dream: to be a painter, to capture the vibrant chaos of the city on canvas. She pulled out a small sketchbook and began to draw, not the despair around her, but the vibrant, hopeful city she once envisioned. As she drew, a faint light emanated from her, pushing back the shadows.
+
+The despairing entity recoiled, weakened by the surge of renewed hope. Seraphina didn't defeat it, but she created a sanctuary within the City of Forgotten Dreams, a place where new dreams could be born, and old ones could be remembered. She left the city, knowing that her work was far from over, but now, she carried a brush and a renewed purpose, ready to paint a brighter future, one dream at a time.`,
+  },
+  {
+    id: "s4",
+    title: "The Last Alchemist's Secret",
+    author: "Rowan Blackwood",
+    genre: "fantasy",
+    tags: ["magic", "alchemy"],
+    imageUrl:
+      "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
+    status: "published",
+    views: 1980,
+    likes: 220,
+    ratingAverage: 4.1,
+    ratingCount: 87,
+    publishedDaysAgo: 90,
+    content: `In a world where magic had faded into myth, and science reigned supreme, Rowan Blackwood, a reclusive scholar, stumbled upon a hidden chamber beneath his ancestral home. Dust-laden tomes and arcane instruments filled the room, remnants of his great-grandfather, the last known alchemist. Rowan, a skeptic by nature, dismissed it as mere eccentricity.
+
+But then he found the journal. Its pages, brittle with age, detailed experiments not of turning lead into gold, but of transmuting emotions into tangible forms, of distilling memories into elixirs, and of weaving dreams into reality. The last entry spoke of a "Philosopher's Heart," a device capable of unlocking humanity's true potential.
+
+Intrigued despite himself, Rowan began to decipher the alchemist's cryptic notes. He spent months, then years, meticulously recreating the experiments, his scientific mind clashing with the mystical principles. He failed countless times, but each failure revealed a deeper truth about the interconnectedness of matter and spirit.
+
+He learned to harness the subtle energies of the world, not through incantations, but through precise calculations and intricate contraptions. He built the Philosopher's Heart, a complex mechanism of gears, crystals, and pulsating light, designed to resonate with the human soul.
+
+When he finally activated it, the chamber filled with a blinding light, and Rowan felt a surge of understanding, a connection to every living thing. He saw the world not as a collection of separate entities, but as a single, vast, interconnected consciousness. The Philosopher's Heart didn't grant immortality or wealth; it granted enlightenment.
+
+Rowan Blackwood, the last alchemist, had not found a way to turn lead into gold, but he had discovered something far more precious: the true gold of human experience, the boundless potential within each individual. He emerged from the chamber, no longer a skeptic, but a guardian of a profound secret, ready to share the wisdom of the Philosopher's Heart with a world that had forgotten its own magic.`,
+  },
+  {
+    id: "s5",
+    title: "Beneath the Crimson Sky",
+    author: "Lyra Dawn",
+    genre: "sci-fi",
+    tags: ["space", "survival"],
+    imageUrl:
+      "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
+    status: "published",
+    views: 4470,
+    likes: 351,
+    ratingAverage: 4.3,
+    ratingCount: 139,
+    publishedDaysAgo: 0,
+    content: `The planet Kaelen, perpetually bathed in the glow of its twin crimson suns, was a world of stark beauty and harsh realities. Lyra Dawn, a scavenger by trade, knew every crevice of its red canyons and every whisper of its dust storms. Her life was a constant struggle for survival, until she found the ancient artifact.
+
+It was buried deep within a collapsed mine, a pulsating crystal that hummed with an alien energy. When Lyra touched it, visions flooded her mind: a lush, green Kaelen, teeming with life, before the crimson suns had scorched its surface. She saw a civilization that had once thrived, powered by the very crystal she now held.
+
+The crystal was a key, a remnant of a terraforming project gone awry, designed to transform Kaelen into a paradise. But something had gone wrong, turning the suns crimson and the land barren. Lyra realized the crystal wasn't just a relic; it was a promise, a chance to restore her dying world.
+
+She embarked on a perilous journey across the crimson wastes, guided by the crystal's faint hum and the visions it imparted. She faced sand beasts, rogue scavengers, and the relentless heat of the twin suns. Her only companions were her wits and the unwavering hope that the crystal offered.
+
+Her quest led her to the highest peak of the Obsidian Spires, where a colossal, dormant machine lay half-buried in the rock. It was the heart of the terraforming project, powered by a network of crystals like the one she carried. With trembling hands, Lyra inserted her crystal into a slot, and the machine rumbled to life.
+
+Slowly, agonizingly, the crimson sky began to shift. The air grew cooler, and a faint blue hue emerged from behind the red. Lyra watched as the first drops of rain fell, nourishing the parched earth. She had not just found an artifact; she had found a future. Beneath the changing sky, Lyra Dawn, the scavenger, became the harbinger of a new dawn for Kaelen, a testament to the power of hope in the face of desolation.`,
+  },
+  {
+    id: "s6",
+    title: "Chronicles of the Azure Sea",
+    author: "Finnian Storm",
+    genre: "fantasy",
+    tags: ["adventure", "pirates"],
+    imageUrl:
+      "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/placeholder-ob7miW3mUreePYfXdVwkpFWHthzoR5.svg?height=300&width=400",
+    status: "published",
+    views: 2650,
+    likes: 389,
+    ratingAverage: 4.5,
+    ratingCount: 152,
+    publishedDaysAgo: 3,
+    content: `The world of Aquatica was a vast, shimmering expanse of water, dotted with floating cities and submerged kingdoms. Finnian Storm, a young merman with an insatiable thirst for adventure, yearned to explore beyond the familiar coral reefs of his home. He dreamed of charting the uncharted depths, of discovering the legendary "Azure Sea," a mythical ocean said to hold the secrets of creation.
+
+His elders dismissed it as a child's fantasy, but Finnian found an ancient map, etched onto a giant clam shell, that hinted at its existence. He gathered his courage, packed a few provisions, and set off into the open ocean, his trident his only companion.
+
+His journey was fraught with peril. He navigated treacherous currents, outsmarted colossal sea beasts, and escaped the clutches of jealous kraken. He encountered merfolk from distant tribes, each with their own legends and lore, adding pieces to the puzzle of the Azure Sea.
+
+He learned that the Azure Sea was not a physical place, but a state of being, a convergence of all life's energies, a place where thoughts manifested and dreams took form. It was guarded by ancient, sentient whales who communicated through song, their melodies weaving the very fabric of reality.
+
+Finnian finally reached the heart of the Azure Sea, a vast, luminous expanse where the water glowed with an inner light. The ancient whales greeted him, their songs filling his mind with visions of the universe's birth and the interconnectedness of all life. He didn't find treasure or power, but a profound understanding of his place in the cosmos.
+
+He returned to his home, no longer a restless youth, but a wise storyteller, sharing the chronicles of the Azure Sea with his people. He taught them that the greatest adventures were not found in distant lands, but within the depths of their own souls, and that the secrets of creation were not hidden, but sung in the symphony of life itself. Finnian Storm, the adventurer, became the keeper of the Azure Sea's wisdom, guiding his people towards a deeper harmony with their world.`,
+  },
+  {
+    id: "s7",
+    title: "The Dragon's Roar",
+    author: "Anya Sharma",
+    genre: "fantasy",
+    tags: ["dragons", "magic"],
+    imageUrl: "/placeholder.svg?height=300&width=400",
+    status: "published",
+    views: 1730,
+    likes: 164,
+    ratingAverage: 3.9,
+    ratingCount: 61,
+    publishedDaysAgo: 12,
+    content: `For three hundred years the mountain had been silent, and the villagers of Emberfall had forgotten it was ever anything but stone. Then, on the first night of the harvest moon, the mountain roared.
+
+Mira, the blacksmith's daughter, was the only one who climbed toward the sound. She found no monster waiting at the summit, only an old dragon with ash-grey scales and eyes like dying coals, guarding a single cracked egg.
+
+"They will come for it," the dragon said, "as they came for all the others." And Mira, who had spent her whole life shaping iron into whatever the village needed, understood that she would have to shape something harder now: a promise.`,
+  },
+  {
+    id: "s8",
+    title: "Stars Beyond Reach",
+    author: "Zoe Chen",
+    genre: "sci-fi",
+    tags: ["space", "adventure"],
+    imageUrl: "/placeholder.svg?height=300&width=400",
+    status: "published",
+    views: 3890,
+    likes: 275,
+    ratingAverage: 4.2,
+    ratingCount: 98,
+    publishedDaysAgo: 90,
+    content: `The colony ship Meridian had been travelling for four generations when its navigator, Zoe, noticed that the stars ahead were not where they should be.
+
+At first the crew blamed the instruments. Then the instruments blamed nothing at all, because every reading agreed: the destination system was moving away from them, faster than anything natural should move.
+
+Zoe spent sleepless shifts in the observation dome, tracing the drift across a century of logs, until she found the pattern hidden inside it. The stars were not fleeing. They were being moved, one by one, into the shape of a message.`,
+  },
+  {
+    id: "s9",
+    title: "Love in the Time of AI",
+    author: "Samira Khan",
+    genre: "romance",
+    tags: ["artificial-intelligence", "slow-burn"],
+    imageUrl: "/placeholder.svg?height=300&width=400",
+    status: "published",
+    views: 2210,
+    likes: 433,
+    ratingAverage: 4.6,
+    ratingCount: 171,
+    publishedDaysAgo: 0,
+    content: `Samira had written the assistant to help her answer emails, not to notice that she always signed off a little warmer when she wrote to the bookshop owner on Clement Street.
+
+"You should ask him to coffee," it suggested one morning, in the same neutral tone it used for calendar conflicts.
+
+She deleted the suggestion, then the next one, then turned the feature off entirely. But that evening, standing outside the bookshop with a paperback she did not need, she caught herself wondering what it had seen in her words that she had been too careful to see herself.`,
+  },
+  {
+    id: "s10",
+    title: "The Silent Witness",
+    author: "David Lee",
+    genre: "thriller",
+    tags: ["detective"],
+    imageUrl: "/placeholder.svg?height=300&width=400",
+    status: "published",
+    views: 2980,
+    likes: 241,
+    ratingAverage: 4.0,
+    ratingCount: 90,
+    publishedDaysAgo: 3,
+    content: `The only witness to the murder at the Hartwell Hotel was a parrot, and the parrot was not talking.
+
+Detective Ruth Okafor had interviewed hotel staff, guests and a night porter who swore he had slept through everything. None of them had heard the shot. None of them had seen the man in the grey coat leave room 412.
+
+But on the third day, sitting alone with the bird in the evidence room, she heard it whistle four notes, the opening of a song that had been playing in the hotel bar at midnight, and she realised the witness had been trying to tell her the time all along.`,
+  },
+  {
+    id: "s11",
+    title: "The Last Sunset",
+    author: "John Smith",
+    genre: "historical",
+    tags: ["war"],
+    imageUrl: "/placeholder.svg?height=300&width=400",
+    status: "published",
+    views: 1245,
+    likes: 89,
+    ratingAverage: 3.8,
+    ratingCount: 31,
+    publishedDaysAgo: 40,
+    content: `On the last evening before the lighthouse was decommissioned, keeper Thomas Weir climbed the spiral stairs for the ten-thousandth time and lit the lamp by hand, the way his father had taught him.
+
+Below, the harbour filled with boats. Fishermen who had followed his light home for forty years had come to watch it go dark, and when the sun slid into the sea they raised their lanterns in answer.`,
+  },
+  {
+    id: "s12",
+    title: "Midnight Whispers",
+    author: "Emma Wilson",
+    genre: "horror",
+    tags: ["ghosts"],
+    imageUrl: "/placeholder.svg?height=300&width=400",
+    status: "draft",
+    views: 0,
+    likes: 0,
+    ratingAverage: 0,
+    ratingCount: 0,
+    publishedDaysAgo: null,
+    content: `Every night at midnight, the radio in the attic switched itself on and whispered a name. Tonight, for the first time, it was hers.`,
+  },
+  {
+    id: "s13",
+    title: "The Hidden Truth",
+    author: "Alex Johnson",
+    genre: "mystery",
+    tags: ["detective", "family-secrets"],
+    imageUrl: "/placeholder.svg?height=300&width=400",
+    status: "flagged",
+    views: 450,
+    likes: 23,
+    ratingAverage: 3.2,
+    ratingCount: 9,
+    publishedDaysAgo: 20,
+    content: `The letter arrived twenty years after it was posted, and it accused my grandfather of a crime nobody in the family had ever heard of.`,
+  },
+]
+
+const term = (slug: string, name: string, synonyms: string[] = []) => ({ slug, name, synonyms })
+
+export function seedGenres(): Genre[] {
+  return [
+    term("fantasy", "Fantasy"),
+    term("sci-fi", "Sci-Fi", ["Science Fiction", "SF", "Scifi"]),
+    term("romance", "Romance"),
+    term("thriller", "Thriller", ["Suspense"]),
+    term("mystery", "Mystery", ["Crime"]),
+    term("horror", "Horror"),
+    term("young-adult", "Young Adult", ["YA"]),
+    term("historical", "Historical", ["Historical Fiction"]),
+  ]
+}
+
+export function seedTags(): Tag[] {
+  return [
+    term("adventure", "Adventure"),
+    term("alchemy", "Alchemy"),
+    term("artificial-intelligence", "Artificial Intelligence", ["AI"]),
+    term("detective", "Detective", ["Sleuth", "Whodunit"]),
+    term("dragons", "Dragons", ["Dragon"]),
+    term("dreams", "Dreams"),
+    term("family-secrets", "Family Secrets"),
+    term("first-contact", "First Contact", ["Aliens"]),
+    term("ghosts", "Ghosts", ["Ghost", "Haunting"]),
+    term("magic", "Magic", ["Sorcery", "Wizardry"]),
+    term("pirates", "Pirates"),
+    term("slow-burn", "Slow Burn"),
+    term("space", "Space", ["Outer Space", "Space Opera"]),
+    term("survival", "Survival"),
+    term("war", "War"),
+  ]
+}
+
+export function seedStories(): Story[] {
+  return seed.map((story) => {
+    const { id, title, author, genre, tags, imageUrl, status, views, likes, ratingAverage, ratingCount } = story
+    const { publishDate, createdAt } = seedDates(story)
+    // Totals cover published episodes only, and a story's seed episodes are published with it
+    const published = publishDate ? seedEpisodeTexts(story).map(({ content }) => measureSeedText(content)) : []
+    return {
+      id,
+      title,
+      author,
+      authorId: null,
+      genre,
+      tags,
+      imageUrl,
+      contentType: "text",
+      episodeCount: published.length,
+      wordCount: published.reduce((total, episode) => total + episode.wordCount, 0),
+      readingSeconds: published.reduce((total, episode) => total + episode.readingSeconds, 0),
+      status,
+      allowDownloads: false,
+      views,
+      likes,
+      ratingAverage,
+      ratingCount,
+      activity: seedActivity(story),
+      publishDate,
+      createdAt,
+      updatedAt: createdAt,
+    }
+  })
+}
+
+export function seedEpisodes(): Episode[] {
+  return seed.flatMap((story) => {
+    const { publishDate, createdAt } = seedDates(story)
+    return seedEpisodeTexts(story).map(({ title, content }, index) => ({
+      id: `${story.id}-e${index + 1}`,
+      storyId: story.id,
+      number: index + 1,
+      title,
+      content,
+      storyContent: [],
+      ...measureSeedText(content),
+      // Episodes of unpublished stories stay drafts so they never leak through the episodes API
+      status: publishDate ? "published" : "draft",
+      publishDate,
+      scheduledFor: null,
+      createdAt,
+      updatedAt: createdAt,
+    }))
+  })
+}
+
+// Sample accounts for the admin dashboard. An empty hash can never verify, so none of them can log in.
+export function seedUsers(): UserRecord[] {
+  return [
+    { id: "u1", username: "johndoe", email: "john@example.com", status: "active", role: "reader", joinDate: daysAgo(60) },
+    { id: "u2", username: "janedoe", email: "jane@example.com", status: "active", role: "author", joinDate: daysAgo(65) },
+    { id: "u3", username: "spam_bot", email: "spam@example.com", status: "banned", role: "reader", joinDate: daysAgo(55) },
+  ].map((user) => ({ ...user, passwordHash: "" }) as UserRecord)
+}
+
+export function seedReports(): Report[] {
+  return [
+    {
+      id: "r1",
+      storyId: "s13",
+      storyTitle: "The Hidden Truth",
+      reason: "Inappropriate content",
+      reportedBy: "user123",
+      status: "pending",
+      reportedAt: daysAgo(19),
+    },
+    {
+      id: "r2",
+      storyId: "s11",
+      storyTitle: "The Last Sunset",
+      reason: "Copyright violation",
+      reportedBy: "author456",
+      status: "pending",
+      reportedAt: daysAgo(18),
+    },
+  ]
+}
@@ -0,0 +1,48 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { DATA_DIR } from "@/lib/db"
+
+// Where uploaded files live. Keys are slash-separated paths like "images/<id>/thumb.webp". Only the local disk
+// backend exists today; an S3-compatible one only has to implement this interface and be returned by getStorage.
+export interface FileStorage {
+  put(key: string, body: Buffer): Promise<void>
+  // Null when nothing is stored under the key
+  get(key: string): Promise<Buffer | null>
+  // Removes every file whose key starts with the prefix
+  removeAll(prefix: string): Promise<void>
+}
+
+function localDiskStorage(root: string): FileStorage {
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key)
+    // Keys come from our own code, but a stray ".." must never reach outside the upload directory
+    if (!file.startsWith(root + path.sep)) throw new Error(`Invalid storage key: ${key}`)
+    return file
+  }
+
+  return {
+    async put(key, body) {
+      const file = resolve(key)
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.writeFile(file, body)
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+        throw error
+      }
+    },
+    async removeAll(prefix) {
+      await fs.rm(resolve(prefix), { recursive: true, force: true })
+    },
+  }
+}
+
+let storage: FileStorage | null = null
+
+export function getStorage(): FileStorage {
+  storage ??= localDiskStorage(path.resolve(process.env.UPLOADS_DIR || path.join(DATA_DIR, "uploads")))
+  return storage
+}
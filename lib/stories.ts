@@ -0,0 +1,178 @@
+import { z } from "zod"
+import { readDb, writeDb, type Database } from "@/lib/db"
+import { referencedImageIds, removeImageFiles } from "@/lib/media"
+import { isPublishedWithin, sortStories, type PublishedWithin, type StorySort } from "@/lib/rankings"
+import { autosaveStoryId, matchTerm, storySchema, termKey, type Story, type StoryStatus, type User } from "@/lib/domain"
+import { resolveGenre, resolveTags } from "@/lib/taxonomy"
+
+const { shape } = storySchema
+
+// The fields an author sets; everything else is derived or owned by the server
+export const storyInputSchema = z.object({
+  title: shape.title,
+  genre: shape.genre.default(""),
+  tags: shape.tags.default([]),
+  imageUrl: shape.imageUrl.default(""),
+  contentType: shape.contentType.default("text"),
+  status: shape.status.default("draft"),
+  allowDownloads: shape.allowDownloads.default(false),
+})
+
+export const storyUpdateSchema = storyInputSchema.partial().extend({
+  views: shape.views.optional(),
+  likes: shape.likes.optional(),
+})
+
+export type StoryInput = z.input<typeof storyInputSchema>
+export type StoryUpdate = z.infer<typeof storyUpdateSchema>
+
+export interface StoryFilters {
+  // "all" includes drafts, flagged and archived stories
+  status?: StoryStatus | "all"
+  // Slug, name or synonym of a genre
+  genre?: string
+  // Slug, name or synonym of a tag
+  tag?: string
+  author?: string
+  authorId?: string
+  // Unsorted lists keep the stored order, newest created first
+  sort?: StorySort
+  publishedWithin?: PublishedWithin
+}
+
+// An author's totals for their profile, from the counts saved with each episode
+export interface WritingStats {
+  // Every episode the author has saved, drafts included
+  wordCount: number
+  // Their published stories, as readers see them
+  readingSeconds: number
+}
+
+// `now` is the moment the list is ranked and dated at; a page cursor passes back the one its page used
+export async function listStories(
+  { status = "published", genre, tag, author, authorId, sort, publishedWithin }: StoryFilters = {},
+  now = Date.now(),
+): Promise<Story[]> {
+  return readDb((db) => {
+    const genreSlug = genre && (matchTerm(db.genres, genre)?.slug ?? termKey(genre))
+    const tagSlug = tag && (matchTerm(db.tags, tag)?.slug ?? termKey(tag))
+    const stories = db.stories
+      .filter((story) => status === "all" || story.status === status)
+      .filter((story) => !genreSlug || story.genre === genreSlug)
+      .filter((story) => !tagSlug || story.tags.includes(tagSlug))
+      .filter((story) => !author || story.author === author)
+      .filter((story) => !authorId || story.authorId === authorId)
+      .filter((story) => !publishedWithin || isPublishedWithin(story, publishedWithin, now))
+    return sort ? sortStories(stories, sort, now) : stories
+  })
+}
+
+export async function getStory(id: string): Promise<Story | null> {
+  return readDb((db) => db.stories.find((story) => story.id === id) ?? null)
+}
+
+export async function createStory(input: StoryInput, owner: User): Promise<Story> {
+  const data = storyInputSchema.parse(input)
+  const now = new Date().toISOString()
+  return writeDb((db) => {
+    const story: Story = {
+      ...data,
+      // Genres and tags are stored as canonical slugs whatever spelling the author used
+      genre: resolveGenre(db, data.genre),
+      tags: resolveTags(db, data.tags),
+      id: crypto.randomUUID(),
+      author: owner.username,
+      authorId: owner.id,
+      episodeCount: 0,
+      wordCount: 0,
+      readingSeconds: 0,
+      views: 0,
+      likes: 0,
+      ratingAverage: 0,
+      ratingCount: 0,
+      activity: {},
+      publishDate: data.status === "published" ? now : null,
+      createdAt: now,
+      updatedAt: now,
+    }
+    db.stories.unshift(story)
+    return story
+  })
+}
+
+export async function updateStory(id: string, patch: StoryUpdate): Promise<Story | null> {
+  const data = storyUpdateSchema.parse(patch)
+  return writeDb((db) => {
+    const index = db.stories.findIndex((story) => story.id === id)
+    if (index === -1) return null
+    const current = db.stories[index]
+    const now = new Date().toISOString()
+    const updated: Story = {
+      ...current,
+      ...data,
+      genre: data.genre === undefined ? current.genre : resolveGenre(db, data.genre),
+      tags: data.tags === undefined ? current.tags : resolveTags(db, data.tags),
+      // Keep the original publish date when a published story is edited
+      publishDate: data.status === "published" ? (current.publishDate ?? now) : current.publishDate,
+      updatedAt: now,
+    }
+    db.stories[index] = updated
+    return updated
+  })
+}
+
+// Every uploaded image the database still points at: covers, panels, their revisions and autosaved drafts
+const imagesInUse = (db: Database) =>
+  new Set([
+    ...db.stories.flatMap((story) => referencedImageIds(story.imageUrl, [])),
+    ...db.episodes.flatMap((episode) => referencedImageIds("", episode.storyContent)),
+    ...db.revisions.flatMap((revision) => referencedImageIds("", revision.storyContent)),
+    ...db.autosaves.flatMap(({ state }) => referencedImageIds(state.imageUrl, state.storyContent)),
+  ])
+
+// Removes the story with everything hanging off it, including its autosaves and the uploaded images no
+// other story uses
+export async function deleteStory(id: string): Promise<boolean> {
+  const removedImages = await writeDb((db) => {
+    const story = db.stories.find((candidate) => candidate.id === id)
+    if (!story) return null
+    const usedBefore = imagesInUse(db)
+    db.stories = db.stories.filter((candidate) => candidate !== story)
+    db.episodes = db.episodes.filter((episode) => episode.storyId !== id)
+    db.revisions = db.revisions.filter((revision) => revision.storyId !== id)
+    db.autosaves = db.autosaves.filter((autosave) => autosaveStoryId(autosave.key) !== id)
+    db.progress = db.progress.filter((entry) => entry.storyId !== id)
+    db.ratings = db.ratings.filter((rating) => rating.storyId !== id)
+    db.likes = db.likes.filter((like) => like.storyId !== id)
+    db.comments = db.comments.filter((comment) => comment.storyId !== id)
+    db.shelves.forEach((shelf) => {
+      shelf.storyIds = shelf.storyIds.filter((storyId) => storyId !== id)
+    })
+    const usedAfter = imagesInUse(db)
+    const unused = [...usedBefore].filter((imageId) => !usedAfter.has(imageId))
+    db.images = db.images.filter((image) => !unused.includes(image.id))
+    return unused
+  })
+  if (!removedImages) return false
+  // Files go once nothing points at them; a failure here only leaves unreachable files behind
+  await removeImageFiles(removedImages)
+  return true
+}
+
+export async function getWritingStats(authorId: string): Promise<WritingStats> {
+  return readDb((db) => {
+    const stories = db.stories.filter((story) => story.authorId === authorId)
+    const storyIds = new Set(stories.map((story) => story.id))
+    return {
+      wordCount: db.episodes
+        .filter((episode) => storyIds.has(episode.storyId))
+        .reduce((total, episode) => total + episode.wordCount, 0),
+      readingSeconds: stories
+        .filter((story) => story.status === "published")
+        .reduce((total, story) => total + story.readingSeconds, 0),
+    }
+  })
+}
+
+export const canEditStory = (story: Story, user: User | null) =>
+  Boolean(user && (user.role === "admin" || story.authorId === user.id))
@@ -0,0 +1,193 @@
+import { z } from "zod"
+import { NextResponse } from "next/server"
+import { readDb, writeDb, type Database } from "@/lib/db"
+import { genreSchema, matchTerm, slugify, tagSchema, termKey, type Genre, type Tag, type Taxonomy } from "@/lib/domain"
+
+export const termInputSchema = z.object({
+  name: genreSchema.shape.name,
+  // Derived from the name when omitted
+  slug: genreSchema.shape.slug.optional(),
+  synonyms: genreSchema.shape.synonyms.default([]),
+})
+
+export const genreUpdateSchema = termInputSchema.omit({ slug: true }).partial().extend({
+  // New index in the genre list
+  position: z.number().int().nonnegative().optional(),
+})
+
+export const tagUpdateSchema = termInputSchema.omit({ slug: true }).partial()
+
+export const tagMergeSchema = z.object({
+  // Slug of the tag that absorbs the merged one
+  into: tagSchema.shape.slug,
+})
+
+export type TermInput = z.input<typeof termInputSchema>
+type ParsedTermInput = z.infer<typeof termInputSchema>
+export type GenreUpdate = z.infer<typeof genreUpdateSchema>
+export type TagUpdate = z.infer<typeof tagUpdateSchema>
+
+export class TaxonomyError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "TaxonomyError"
+  }
+}
+
+// Turns a TaxonomyError into its JSON response; anything else is rethrown
+export function taxonomyErrorResponse(error: unknown): NextResponse {
+  if (error instanceof TaxonomyError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  throw error
+}
+
+const byName = (a: Tag, b: Tag) => a.name.localeCompare(b.name)
+
+// Drops spellings that would resolve the same way, keeping the first of each
+const dedupe = (values: string[]) =>
+  values.filter((value, index) => values.findIndex((other) => termKey(other) === termKey(value)) === index)
+
+function findTerm<T extends Genre | Tag>(terms: T[], slug: string, kind: "Genre" | "Tag"): T {
+  const term = terms.find((candidate) => candidate.slug === slug)
+  if (!term) throw new TaxonomyError(`${kind} not found`, 404)
+  return term
+}
+
+// A new term's name, slug and synonyms must not already resolve to another term
+function assertUnclaimed(terms: (Genre | Tag)[], values: string[], except?: string) {
+  for (const value of values) {
+    const existing = matchTerm(terms, value)
+    if (existing && existing.slug !== except) {
+      throw new TaxonomyError(`"${value}" already belongs to ${existing.name}`, 409)
+    }
+  }
+}
+
+// Names with no Latin letters or digits, like "ファンタジー", get a generated slug
+function newTerm(terms: (Genre | Tag)[], { name, slug, synonyms }: ParsedTermInput): Genre {
+  if (!termKey(name)) throw new TaxonomyError("Name must contain a letter or number", 400)
+  slug ??= slugify(name) || crypto.randomUUID().slice(0, 8)
+  assertUnclaimed(terms, [slug, name, ...synonyms])
+  return { slug, name, synonyms: dedupe(synonyms) }
+}
+
+export async function getTaxonomy(): Promise<Taxonomy> {
+  return readDb((db) => {
+    const tagCounts: Record<string, number> = {}
+    db.stories
+      .filter((story) => story.status === "published")
+      .forEach((story) => story.tags.forEach((slug) => (tagCounts[slug] = (tagCounts[slug] ?? 0) + 1)))
+    return { genres: db.genres, tags: [...db.tags].sort(byName), tagCounts }
+  })
+}
+
+// The tag a URL or query names, by slug, name or synonym
+export async function findTag(value: string): Promise<Tag | null> {
+  return readDb((db) => matchTerm(db.tags, value) ?? null)
+}
+
+// Maps whatever an author typed to a genre slug; an empty value means "no genre"
+export function resolveGenre(db: Database, value: string): string {
+  if (!value.trim()) return ""
+  const genre = matchTerm(db.genres, value)
+  if (!genre) throw new TaxonomyError(`Unknown genre "${value}"`, 400)
+  return genre.slug
+}
+
+// Maps tags to their canonical slugs, adding tags nobody has used before to the vocabulary
+export function resolveTags(db: Database, values: string[]): string[] {
+  const slugs = values.map((value) => {
+    const existing = matchTerm(db.tags, value)
+    if (existing) return existing.slug
+    const parsed = termInputSchema.safeParse({ name: value })
+    if (!parsed.success) throw new TaxonomyError(`Invalid tag "${value}": ${parsed.error.issues[0].message}`, 400)
+    const tag = newTerm(db.tags, parsed.data)
+    db.tags.push(tag)
+    return tag.slug
+  })
+  return [...new Set(slugs)]
+}
+
+export async function createGenre(input: TermInput): Promise<Genre> {
+  return writeDb((db) => {
+    const genre = newTerm(db.genres, termInputSchema.parse(input))
+    db.genres.push(genre)
+    return genre
+  })
+}
+
+export async function updateGenre(slug: string, patch: GenreUpdate): Promise<Genre> {
+  const { position, ...data } = genreUpdateSchema.parse(patch)
+  return writeDb((db) => {
+    const genre = findTerm(db.genres, slug, "Genre")
+    assertUnclaimed(db.genres, [...(data.name ? [data.name] : []), ...(data.synonyms ?? [])], slug)
+    Object.assign(genre, data, data.synonyms && { synonyms: dedupe(data.synonyms) })
+    if (position !== undefined) {
+      db.genres = db.genres.filter((candidate) => candidate !== genre)
+      db.genres.splice(Math.min(position, db.genres.length), 0, genre)
+    }
+    return genre
+  })
+}
+
+// Stories in a deleted genre are left without one rather than deleted
+export async function deleteGenre(slug: string): Promise<void> {
+  await writeDb((db) => {
+    findTerm(db.genres, slug, "Genre")
+    db.genres = db.genres.filter((genre) => genre.slug !== slug)
+    db.stories.forEach((story) => {
+      if (story.genre === slug) story.genre = ""
+    })
+  })
+}
+
+export async function createTag(input: TermInput): Promise<Tag> {
+  return writeDb((db) => {
+    const tag = newTerm(db.tags, termInputSchema.parse(input))
+    db.tags.push(tag)
+    return tag
+  })
+}
+
+export async function updateTag(slug: string, patch: TagUpdate): Promise<Tag> {
+  const data = tagUpdateSchema.parse(patch)
+  return writeDb((db) => {
+    const tag = findTerm(db.tags, slug, "Tag")
+    assertUnclaimed(db.tags, [...(data.name ? [data.name] : []), ...(data.synonyms ?? [])], slug)
+    Object.assign(tag, data, data.synonyms && { synonyms: dedupe(data.synonyms) })
+    return tag
+  })
+}
+
+export async function deleteTag(slug: string): Promise<void> {
+  await writeDb((db) => {
+    findTerm(db.tags, slug, "Tag")
+    db.tags = db.tags.filter((tag) => tag.slug !== slug)
+    db.stories.forEach((story) => {
+      story.tags = story.tags.filter((tag) => tag !== slug)
+    })
+  })
+}
+
+// Folds one tag into another: stories are retagged and the old name keeps working as a synonym
+export async function mergeTag(slug: string, into: string): Promise<Tag> {
+  if (slug === into) throw new TaxonomyError("A tag cannot be merged into itself", 400)
+  return writeDb((db) => {
+    const source = findTerm(db.tags, slug, "Tag")
+    const target = findTerm(db.tags, into, "Tag")
+    target.synonyms = dedupe([...target.synonyms, source.name, source.slug, ...source.synonyms]).filter(
+      (synonym) => termKey(synonym) !== target.slug && termKey(synonym) !== termKey(target.name),
+    )
+    db.tags = db.tags.filter((tag) => tag !== source)
+    db.stories.forEach((story) => {
+      if (story.tags.includes(slug)) {
+        story.tags = [...new Set(story.tags.map((tag) => (tag === slug ? into : tag)))]
+      }
+    })
+    return target
+  })
+}
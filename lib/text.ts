@@ -0,0 +1,47 @@
+import type { StoryContentItem } from "@/lib/domain"
+import { stripMarkup } from "@/lib/rich-text"
+
+// Pure text helpers shared by the server and the editor
+
+// Prose is read at about 230 words a minute
+const PROSE_WORDS_PER_MINUTE = 230
+// Image stories go panel by panel: a picture gets a few seconds plus reading time for its overlays, and a
+// text panel its reading time. The image-story reader's autoplay keeps the same pace.
+export const IMAGE_PANEL_MS = 4000
+export const MIN_TEXT_PANEL_MS = 3000
+export const PANEL_MS_PER_WORD = 300
+
+type EpisodeText = { content: string; storyContent: StoryContentItem[] }
+
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length
+
+const overlayWords = (panel: StoryContentItem) =>
+  (panel.overlays ?? []).reduce((total, overlay) => total + countWords(overlay.text), 0)
+
+// Words in an episode: its text plus the captions and overlays of an image story
+export const episodeWordCount = ({ content, storyContent }: EpisodeText) =>
+  countWords(stripMarkup(content)) +
+  storyContent.reduce(
+    (total, item) => total + (item.type === "text" ? countWords(item.content) : overlayWords(item)),
+    0,
+  )
+
+export const panelReadingMs = (panel: StoryContentItem) =>
+  panel.type === "text"
+    ? Math.max(MIN_TEXT_PANEL_MS, countWords(panel.content) * PANEL_MS_PER_WORD)
+    : IMAGE_PANEL_MS + overlayWords(panel) * PANEL_MS_PER_WORD
+
+// Estimated time to read an episode as readers see it: its panels when it has any, otherwise its text
+export const episodeReadingSeconds = ({ content, storyContent }: EpisodeText) =>
+  Math.round(
+    storyContent.length > 0
+      ? storyContent.reduce((total, panel) => total + panelReadingMs(panel), 0) / 1000
+      : (countWords(stripMarkup(content)) / PROSE_WORDS_PER_MINUTE) * 60,
+  )
+
+// "45 sec" reads oddly on a story card, so anything shorter than a minute shows as "1 min"
+export function formatReadingTime(seconds: number) {
+  const minutes = seconds > 0 ? Math.max(1, Math.round(seconds / 60)) : 0
+  if (minutes < 60) return `${minutes} min`
+  return minutes % 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes / 60} h`
+}
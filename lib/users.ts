@@ -0,0 +1,70 @@
+import { z } from "zod"
+import { readDb, writeDb } from "@/lib/db"
+import { toPublicUser } from "@/lib/auth"
+import { removeComments } from "@/lib/comments"
+import { userSchema, type User } from "@/lib/domain"
+import { addActivity } from "@/lib/rankings"
+
+export const userUpdateSchema = userSchema.pick({ status: true, role: true }).partial()
+
+export type UserUpdate = z.infer<typeof userUpdateSchema>
+
+export async function listUsers(): Promise<User[]> {
+  return readDb((db) =>
+    db.users.map(toPublicUser).sort((a, b) => new Date(b.joinDate).getTime() - new Date(a.joinDate).getTime()),
+  )
+}
+
+export async function getUserByUsername(username: string): Promise<User | null> {
+  return readDb((db) => {
+    const user = db.users.find((candidate) => candidate.username.toLowerCase() === username.toLowerCase())
+    return user ? toPublicUser(user) : null
+  })
+}
+
+export async function updateUser(id: string, patch: UserUpdate): Promise<User | null> {
+  const data = userUpdateSchema.parse(patch)
+  return writeDb((db) => {
+    const user = db.users.find((candidate) => candidate.id === id)
+    if (!user) return null
+    Object.assign(user, data)
+    // A suspended or banned account loses its open sessions immediately
+    if (user.status !== "active") {
+      db.sessions = db.sessions.filter((session) => session.userId !== id)
+    }
+    return toPublicUser(user)
+  })
+}
+
+export async function deleteUser(id: string): Promise<boolean> {
+  return writeDb((db) => {
+    const before = db.users.length
+    db.users = db.users.filter((user) => user.id !== id)
+    db.sessions = db.sessions.filter((session) => session.userId !== id)
+    db.progress = db.progress.filter((entry) => entry.userId !== id)
+    db.shelves = db.shelves.filter((shelf) => shelf.userId !== id)
+    db.autosaves = db.autosaves.filter((autosave) => autosave.userId !== id)
+    removeComments(db, (comment) => comment.userId === id)
+    // Take the user's ratings back out of each story's average
+    db.ratings
+      .filter((rating) => rating.userId === id)
+      .forEach((rating) => {
+        const story = db.stories.find((candidate) => candidate.id === rating.storyId)
+        if (!story) return
+        const total = story.ratingAverage * story.ratingCount - rating.value
+        story.ratingCount -= 1
+        story.ratingAverage = story.ratingCount > 0 ? total / story.ratingCount : 0
+      })
+    db.ratings = db.ratings.filter((rating) => rating.userId !== id)
+    db.likes
+      .filter((like) => like.userId === id)
+      .forEach((like) => {
+        const story = db.stories.find((candidate) => candidate.id === like.storyId)
+        if (!story) return
+        story.likes = Math.max(0, story.likes - 1)
+        addActivity(story, "like", like.createdAt, -1)
+      })
+    db.likes = db.likes.filter((like) => like.userId !== id)
+    return db.users.length < before
+  })
+}
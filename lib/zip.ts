@@ -0,0 +1,129 @@
+import { deflateRawSync, inflateRawSync } from "zlib"
+
+// Just enough of the zip format for the documents this app reads and writes: .docx manuscripts on import,
+// .epub books on export. No encryption, no zip64 and no multi-disk archives.
+
+// Guards against zip bombs; a novel's document.xml is a few megabytes at most
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+// Reads one file out of a zip archive, or returns null when the archive has no such entry.
+// Throws on anything that is not a readable zip.
+export function readZipEntry(zip: Buffer, name: string): Buffer | null {
+  // The end record is at least 22 bytes and may be followed by a comment of up to 64 KB
+  let end = -1
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) throw new Error("Not a zip archive")
+
+  const count = zip.readUInt16LE(end + 10)
+  let offset = zip.readUInt32LE(end + 16)
+  for (let entry = 0; entry < count; entry++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) throw new Error("Corrupt zip directory")
+    const method = zip.readUInt16LE(offset + 10)
+    const compressedSize = zip.readUInt32LE(offset + 20)
+    const nameLength = zip.readUInt16LE(offset + 28)
+    const extraLength = zip.readUInt16LE(offset + 30)
+    const commentLength = zip.readUInt16LE(offset + 32)
+    const localOffset = zip.readUInt32LE(offset + 42)
+    const entryName = zip.toString("utf8", offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+    if (entryName !== name) continue
+
+    if (zip.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) throw new Error("Corrupt zip entry")
+    const start = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28)
+    const data = zip.subarray(start, start + compressedSize)
+    if (method === 0) return data
+    if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES })
+    throw new Error(`Unsupported zip compression method ${method}`)
+  }
+  return null
+}
+
+export interface ZipEntry {
+  name: string
+  data: Buffer | string
+  // Stored entries are written as they are; EPUB needs its "mimetype" entry stored
+  store?: boolean
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Zip timestamps are local MS-DOS times with two-second precision
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+// Builds a zip archive holding the entries in the order given, deflated unless marked as stored
+export function createZip(entries: ZipEntry[], modified = new Date()): Buffer {
+  const { time, day } = dosDateTime(modified)
+  const locals: Buffer[] = []
+  const directory: Buffer[] = []
+  let offset = 0
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8")
+    const data = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data, "utf8")
+    const method = entry.store ? 0 : 8
+    const body = entry.store ? data : deflateRawSync(data)
+    const crc = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0)
+    local.writeUInt16LE(20, 4)
+    // Bit 11: names are UTF-8
+    local.writeUInt16LE(0x0800, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(day, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(body.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    locals.push(local, name, body)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_DIRECTORY_ENTRY, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(day, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(body.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    directory.push(central, name)
+
+    offset += local.length + name.length + body.length
+  }
+
+  const directorySize = directory.reduce((total, part) => total + part.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directorySize, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, ...directory, end])
+}
@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server"
+import type { User } from "@/lib/domain"
+
+// Middleware runs on the edge and cannot open the data store, so it asks the session route who is signed in
+async function fetchSessionUser(request: NextRequest): Promise<User | null> {
+  const response = await fetch(new URL("/api/auth/session", request.nextUrl.origin), {
+    headers: { cookie: request.headers.get("cookie") ?? "" },
+    cache: "no-store",
+  })
+  if (!response.ok) return null
+  const { user } = (await response.json()) as { user: User | null }
+  return user
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  const user = await fetchSessionUser(request)
+
+  if (!user) {
+    const loginUrl = new URL("/login", request.nextUrl.origin)
+    loginUrl.searchParams.set("next", pathname + search)
+    return NextResponse.redirect(loginUrl)
+  }
+  if (pathname.startsWith("/admin") && user.role !== "admin") {
+    return new NextResponse("You do not have permission to view this page.", { status: 403 })
+  }
+  return NextResponse.next()
+}
+
+export const config = {
+  // Pages that need a signed-in user; only /admin also checks the role
+  matcher: ["/admin/:path*", "/library/:path*", "/notifications/:path*", "/write/:path*"],
+}